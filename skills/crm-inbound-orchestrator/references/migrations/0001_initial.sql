@@ -1,5 +1,4 @@
--- CRM Inbound orchestrator schema (idempotent, replay-safe)
--- Apply in Supabase SQL editor before first run.
+-- 0001: initial CRM tables.
 
 create extension if not exists pgcrypto;
 
@@ -46,11 +45,9 @@ create table if not exists crm_drafts (
   body text not null,
   status text not null default 'draft',
   approval_commands text,
-  slack_summary text,
   reply_to_message_id text,
   sop_hash text,
   revision_notes text,
-  rejected_reason text,
   approved_by text,
   approved_at timestamptz,
   rejected_at timestamptz,
@@ -84,7 +81,6 @@ create table if not exists crm_job_runs (
   poll_partial_failure boolean not null default false,
   metrics jsonb not null default '{}'::jsonb,
   accounts jsonb not null default '[]'::jsonb,
-  warnings jsonb not null default '[]'::jsonb,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
 );
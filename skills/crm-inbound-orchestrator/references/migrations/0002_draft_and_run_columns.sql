@@ -0,0 +1,5 @@
+-- 0002: columns written by process_inbound and approval_action that early installs lack.
+
+alter table crm_drafts add column if not exists slack_summary text;
+alter table crm_drafts add column if not exists rejected_reason text;
+alter table crm_job_runs add column if not exists warnings jsonb not null default '[]'::jsonb;
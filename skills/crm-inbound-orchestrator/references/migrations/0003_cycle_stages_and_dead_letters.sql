@@ -0,0 +1,23 @@
+-- 0003: run_cycle stage records and the process_inbound dead-letter queue.
+
+alter table crm_job_runs add column if not exists stages jsonb not null default '[]'::jsonb;
+
+create table if not exists crm_dead_letters (
+  id uuid primary key default gen_random_uuid(),
+  source_key text not null unique,
+  run_id uuid,
+  account_email text,
+  message_id text,
+  stage text not null,
+  error text not null,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'pending',
+  retry_count integer not null default 0,
+  last_retried_at timestamptz,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_crm_dead_letters_status
+  on crm_dead_letters (status, created_at);
@@ -0,0 +1,10 @@
+-- 0004: pipeline lease lock.
+
+alter table crm_job_runs add column if not exists lock_holder text;
+
+create table if not exists crm_run_locks (
+  name text primary key,
+  holder_id text not null,
+  acquired_at timestamptz not null,
+  expires_at timestamptz not null
+);
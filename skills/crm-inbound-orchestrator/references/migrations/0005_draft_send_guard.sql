@@ -0,0 +1,9 @@
+-- 0005: claim/confirm columns for idempotent draft sends.
+
+alter table crm_drafts add column if not exists idempotency_key text;
+alter table crm_drafts add column if not exists send_claimed_at timestamptz;
+alter table crm_drafts add column if not exists sent_message_id text;
+alter table crm_drafts add column if not exists send_error text;
+
+create unique index if not exists idx_crm_drafts_idempotency_key
+  on crm_drafts (idempotency_key);
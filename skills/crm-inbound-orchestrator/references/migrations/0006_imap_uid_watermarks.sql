@@ -0,0 +1,4 @@
+-- 0006: UID watermarks for IMAP mailboxes.
+
+alter table crm_poll_state add column if not exists last_uid bigint;
+alter table crm_poll_state add column if not exists uid_validity bigint;
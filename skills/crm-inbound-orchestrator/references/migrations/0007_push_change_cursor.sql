@@ -0,0 +1,3 @@
+-- 0007: provider change cursor (Gmail history id) for push notifications.
+
+alter table crm_poll_state add column if not exists change_cursor text;
@@ -0,0 +1,4 @@
+-- 0008: attachment metadata, storage keys and extracted text on activities and receipts.
+
+alter table crm_activities add column if not exists attachments jsonb not null default '[]'::jsonb;
+alter table accounting_entries add column if not exists attachments jsonb not null default '[]'::jsonb;
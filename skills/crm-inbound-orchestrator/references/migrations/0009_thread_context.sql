@@ -0,0 +1,6 @@
+-- 0009: thread-aware processing. Follow-ups link to the draft already open in their thread.
+
+alter table crm_activities add column if not exists thread_draft_id uuid references crm_drafts(id) on delete set null;
+
+create index if not exists idx_crm_activities_account_thread
+  on crm_activities (account_email, thread_id);
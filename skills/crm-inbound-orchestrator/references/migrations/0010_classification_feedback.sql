@@ -0,0 +1,21 @@
+-- 0010: human labels from approvals, rejections and reclassifications, used as classifier examples.
+
+create table if not exists crm_classification_feedback (
+  id uuid primary key default gen_random_uuid(),
+  activity_id uuid not null unique references crm_activities(id) on delete cascade,
+  draft_id uuid references crm_drafts(id) on delete set null,
+  account_email text not null,
+  source text not null,
+  predicted_label text,
+  label text not null,
+  reason text,
+  from_email text,
+  subject text,
+  snippet text,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_crm_classification_feedback_updated
+  on crm_classification_feedback (updated_at);
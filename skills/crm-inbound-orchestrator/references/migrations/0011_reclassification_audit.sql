@@ -0,0 +1,19 @@
+-- 0011: manual reclassification. Activities remember the override and every change is audited.
+
+alter table crm_activities add column if not exists reclassified_at timestamptz;
+alter table crm_activities add column if not exists reclassified_by text;
+
+create table if not exists crm_activity_audit (
+  id uuid primary key default gen_random_uuid(),
+  activity_id uuid not null references crm_activities(id) on delete cascade,
+  action text not null,
+  previous_label text,
+  new_label text,
+  changed_by text not null,
+  reason text,
+  changes jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_crm_activity_audit_activity
+  on crm_activity_audit (activity_id, created_at);
@@ -0,0 +1,3 @@
+-- 0012: record which classifier rule set (file plus SOP additions) labeled each activity.
+
+alter table crm_activities add column if not exists rules_hash text;
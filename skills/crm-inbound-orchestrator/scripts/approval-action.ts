@@ -1,14 +1,23 @@
-import { execFile } from "node:child_process";
 import { randomUUID } from "node:crypto";
-import { mkdtemp, rm, writeFile } from "node:fs/promises";
-import { tmpdir } from "node:os";
-import path from "node:path";
-import { promisify } from "node:util";
-
-type CliArgs = {
-  command?: string;
-  flags: Record<string, string | boolean>;
-};
+
+import {
+  asString,
+  buildTaxonomy,
+  clean,
+  createMailProviderFromConfig,
+  createStorageClientFromConfig,
+  ensureSchemaVersion,
+  getOptionalString,
+  labelNames,
+  loadConfig,
+  outgoingMessageId,
+  parseArgs,
+  recordClassificationFeedback,
+  type FeedbackSource,
+  type MailProvider,
+  type StorageClient,
+} from "./crm-core/index.ts";
+import type { Classification } from "./process-inbound.ts";
 
 type ApprovalAction = "approve" | "revise" | "reject";
 
@@ -21,6 +30,17 @@ type DraftRecord = {
   body?: string;
   status?: string;
   reply_to_message_id?: string;
+  idempotency_key?: string;
+  send_claimed_at?: string;
+};
+
+type ActivityRecord = {
+  message_id?: string;
+  account_email?: string;
+  classification?: string;
+  from_email?: string;
+  subject?: string;
+  snippet?: string;
 };
 
 type ActionResult = {
@@ -30,47 +50,24 @@ type ActionResult = {
   ok: boolean;
   message: string;
   email_sent?: boolean;
+  reconciled?: boolean;
+  sent_message_id?: string;
   updated_status?: string;
+  feedback_label?: Classification;
+  feedback_error?: string;
 };
 
-const execFileAsync = promisify(execFile);
-
-const DEFAULT_DRAFTS_TABLE = "crm_drafts";
-const DEFAULT_ACTIVITIES_TABLE = "crm_activities";
-
-function parseArgs(argv: string[]): CliArgs {
-  const tokens = argv.slice(2);
-  const command = tokens.shift();
-  const flags: Record<string, string | boolean> = {};
-
-  for (let i = 0; i < tokens.length; i += 1) {
-    const token = tokens[i];
-    if (!token.startsWith("--")) {
-      continue;
-    }
-
-    const key = token.slice(2);
-    const next = tokens[i + 1];
-    if (!next || next.startsWith("--")) {
-      flags[key] = true;
-      continue;
-    }
-
-    flags[key] = next;
-    i += 1;
-  }
-
-  return { command, flags };
-}
-
-function asString(value: string | boolean | undefined): string | undefined {
-  return typeof value === "string" ? value : undefined;
-}
+type SendTarget = {
+  accountEmail: string;
+  toEmail: string;
+  subject: string;
+  body: string;
+  replyToMessageId?: string;
+  messageId: string;
+};
 
-function clean(value: string | undefined): string | undefined {
-  const trimmed = value?.trim();
-  return trimmed ? trimmed : undefined;
-}
+const NOT_A_LEAD_PATTERN =
+  /\b(?:not (?:a |really a )?(?:lead|sales|prospect)|spam|newsletter|automated|auto-?reply|cold pitch|vendor pitch|recruit\w*|wrong (?:label|classification))\b/i;
 
 function parseAction(value: string | undefined): ApprovalAction | undefined {
   const normalized = clean(value)?.toLowerCase();
@@ -80,50 +77,8 @@ function parseAction(value: string | undefined): ApprovalAction | undefined {
   return undefined;
 }
 
-function getRecord(value: unknown): Record<string, unknown> | undefined {
-  if (!value || typeof value !== "object") {
-    return undefined;
-  }
-  return value as Record<string, unknown>;
-}
-
-async function supabaseRequest<T>(options: {
-  supabaseUrl: string;
-  serviceKey: string;
-  method: "GET" | "PATCH";
-  table: string;
-  query?: URLSearchParams;
-  body?: unknown;
-  prefer?: string;
-}): Promise<T> {
-  const suffix = options.query ? `?${options.query.toString()}` : "";
-  const response = await fetch(`${options.supabaseUrl}/rest/v1/${options.table}${suffix}`, {
-    method: options.method,
-    headers: {
-      apikey: options.serviceKey,
-      Authorization: `Bearer ${options.serviceKey}`,
-      "Content-Type": "application/json",
-      Accept: "application/json",
-      ...(options.prefer ? { Prefer: options.prefer } : {}),
-    },
-    body: options.body === undefined ? undefined : JSON.stringify(options.body),
-  });
-
-  const text = await response.text();
-  const data = text.trim() ? (JSON.parse(text) as T) : ({} as T);
-
-  if (!response.ok) {
-    throw new Error(
-      `Supabase ${options.method} ${options.table} failed (${response.status}): ${text}`,
-    );
-  }
-
-  return data;
-}
-
 async function fetchDraft(
-  supabaseUrl: string,
-  serviceKey: string,
+  storage: StorageClient,
   table: string,
   draftId: string,
 ): Promise<DraftRecord | undefined> {
@@ -132,126 +87,131 @@ async function fetchDraft(
   query.set("id", `eq.${draftId}`);
   query.set("limit", "1");
 
-  const response = await supabaseRequest<unknown>({
-    supabaseUrl,
-    serviceKey,
-    method: "GET",
-    table,
-    query,
-  });
-
-  if (!Array.isArray(response) || response.length === 0) {
-    return undefined;
-  }
-
-  const row = getRecord(response[0]);
+  const rows = await storage.select(table, query);
+  const row = rows[0];
   if (!row || typeof row.id !== "string") {
     return undefined;
   }
 
   return {
     id: row.id,
-    activity_id: typeof row.activity_id === "string" ? row.activity_id : undefined,
-    account_email: typeof row.account_email === "string" ? row.account_email : undefined,
-    to_email: typeof row.to_email === "string" ? row.to_email : undefined,
-    subject: typeof row.subject === "string" ? row.subject : undefined,
-    body: typeof row.body === "string" ? row.body : undefined,
-    status: typeof row.status === "string" ? row.status : undefined,
-    reply_to_message_id:
-      typeof row.reply_to_message_id === "string" ? row.reply_to_message_id : undefined,
+    activity_id: getOptionalString(row, "activity_id"),
+    account_email: getOptionalString(row, "account_email"),
+    to_email: getOptionalString(row, "to_email"),
+    subject: getOptionalString(row, "subject"),
+    body: getOptionalString(row, "body"),
+    status: getOptionalString(row, "status"),
+    reply_to_message_id: getOptionalString(row, "reply_to_message_id"),
+    idempotency_key: getOptionalString(row, "idempotency_key"),
+    send_claimed_at: getOptionalString(row, "send_claimed_at"),
   };
 }
 
-async function fetchActivityMessageId(
-  supabaseUrl: string,
-  serviceKey: string,
+async function fetchActivity(
+  storage: StorageClient,
   table: string,
   activityId: string,
-): Promise<string | undefined> {
+): Promise<ActivityRecord | undefined> {
   const query = new URLSearchParams();
-  query.set("select", "message_id");
+  query.set("select", "message_id,account_email,classification,from_email,subject,snippet");
   query.set("id", `eq.${activityId}`);
   query.set("limit", "1");
 
-  const response = await supabaseRequest<unknown>({
-    supabaseUrl,
-    serviceKey,
-    method: "GET",
-    table,
-    query,
-  });
-
-  if (!Array.isArray(response) || response.length === 0) {
+  const rows = await storage.select(table, query);
+  const row = rows[0];
+  if (!row) {
     return undefined;
   }
+  return {
+    message_id: getOptionalString(row, "message_id"),
+    account_email: getOptionalString(row, "account_email"),
+    classification: getOptionalString(row, "classification"),
+    from_email: getOptionalString(row, "from_email"),
+    subject: getOptionalString(row, "subject"),
+    snippet: getOptionalString(row, "snippet"),
+  };
+}
 
-  const row = getRecord(response[0]);
-  const messageId = row?.message_id;
-  return typeof messageId === "string" ? messageId : undefined;
+async function recordFeedback(
+  storage: StorageClient,
+  tables: { activities: string; feedback: string },
+  draft: DraftRecord,
+  entry: { source: FeedbackSource; label?: Classification; reason?: string; createdBy?: string },
+): Promise<Pick<ActionResult, "feedback_label" | "feedback_error">> {
+  if (!draft.activity_id) {
+    return { feedback_error: "Draft has no activity_id" };
+  }
+  try {
+    const activity = await fetchActivity(storage, tables.activities, draft.activity_id);
+    const label = entry.label ?? activity?.classification ?? "sales";
+    await recordClassificationFeedback(storage, tables.feedback, {
+      activity_id: draft.activity_id,
+      draft_id: draft.id,
+      account_email: activity?.account_email ?? draft.account_email ?? "",
+      source: entry.source,
+      predicted_label: activity?.classification,
+      label,
+      reason: entry.reason,
+      from_email: activity?.from_email,
+      subject: activity?.subject,
+      snippet: activity?.snippet,
+      created_by: entry.createdBy,
+    });
+    return { feedback_label: label };
+  } catch (error) {
+    return { feedback_error: error instanceof Error ? error.message : "unknown feedback error" };
+  }
 }
 
 async function patchDraft(
-  supabaseUrl: string,
-  serviceKey: string,
+  storage: StorageClient,
   table: string,
   draftId: string,
   patch: Record<string, unknown>,
 ): Promise<void> {
-  const query = new URLSearchParams();
-  query.set("id", `eq.${draftId}`);
-
-  await supabaseRequest<unknown>({
-    supabaseUrl,
-    serviceKey,
-    method: "PATCH",
-    table,
-    query,
-    body: patch,
-    prefer: "return=minimal",
-  });
+  await storage.patchRows(table, { id: draftId }, patch);
 }
 
-async function sendDraftEmail(args: {
-  accountEmail: string;
-  toEmail: string;
-  subject: string;
-  body: string;
-  replyToMessageId?: string;
-}) {
-  const tempDir = await mkdtemp(path.join(tmpdir(), "crm-draft-"));
-  const bodyPath = path.join(tempDir, `${randomUUID()}.txt`);
+async function claimDraft(
+  storage: StorageClient,
+  table: string,
+  draft: DraftRecord,
+  patch: Record<string, unknown>,
+): Promise<boolean> {
+  const filters: Record<string, string> = { id: draft.id, status: draft.status ?? "draft" };
+  if (draft.status === "sending" && draft.idempotency_key) {
+    filters.idempotency_key = draft.idempotency_key;
+  }
+  const rows = await storage.patchRows(table, filters, patch);
+  return rows.length > 0;
+}
 
-  try {
-    await writeFile(bodyPath, args.body, "utf8");
-    const commandArgs = [
-      "gmail",
-      "send",
-      "--account",
-      args.accountEmail,
-      "--to",
-      args.toEmail,
-      "--subject",
-      args.subject,
-      "--body-file",
-      bodyPath,
-      "--no-input",
-    ];
-
-    if (args.replyToMessageId) {
-      commandArgs.push("--reply-to-message-id", args.replyToMessageId);
-    }
+async function findSentCopy(mail: MailProvider, target: SendTarget): Promise<string | undefined> {
+  const messages = await mail.searchMessages({
+    account: target.accountEmail,
+    query: `in:sent rfc822msgid:${target.messageId}`,
+    maxResults: 1,
+    includeBody: false,
+  });
+  return messages[0]?.id;
+}
 
-    await execFileAsync("gog", commandArgs, { maxBuffer: 10 * 1024 * 1024 });
-  } finally {
-    await rm(tempDir, { recursive: true, force: true });
-  }
+async function sendDraftEmail(mail: MailProvider, target: SendTarget): Promise<string | undefined> {
+  const sent = await mail.sendMessage(target.accountEmail, {
+    to: target.toEmail,
+    subject: target.subject,
+    body: target.body,
+    replyToMessageId: target.replyToMessageId,
+    messageId: target.messageId,
+  });
+  return sent.id;
 }
 
 async function main() {
   const { command, flags } = parseArgs(process.argv);
   if (command !== "approval_action") {
     console.error(
-      "Usage: bun approval-action.ts approval_action --action <approve|revise|reject> --draft-id <id> [--approved-by <id>] [--notes <text>] [--reason <text>]",
+      "Usage: bun approval-action.ts approval_action --action <approve|revise|reject> --draft-id <id> [--approved-by <id>] [--notes <text>] [--reason <text>] [--label <label>]",
     );
     process.exit(1);
   }
@@ -269,17 +229,21 @@ async function main() {
   const approvedBy = clean(asString(flags["approved-by"]));
   const notes = clean(asString(flags.notes));
   const reason = clean(asString(flags.reason));
+  const label = clean(asString(flags.label))?.toLowerCase();
 
-  const supabaseUrl = clean(process.env.SUPABASE_URL);
-  const supabaseKey = clean(process.env.SUPABASE_SECRET_KEY);
-  if (!supabaseUrl || !supabaseKey) {
-    throw new Error("SUPABASE_URL and SUPABASE_SECRET_KEY are required");
+  const config = loadConfig({ flags, command: "approval_action" });
+  const labels = labelNames(buildTaxonomy(config.classificationLabels));
+  if (label && !labels.includes(label)) {
+    throw new Error(`--label must be one of: ${labels.join(", ")}`);
   }
+  const storage = createStorageClientFromConfig(config);
+  const mail = createMailProviderFromConfig(config);
+  await ensureSchemaVersion(storage);
 
-  const draftsTable = clean(process.env.CRM_DRAFTS_TABLE) || DEFAULT_DRAFTS_TABLE;
-  const activitiesTable = clean(process.env.CRM_ACTIVITIES_TABLE) || DEFAULT_ACTIVITIES_TABLE;
+  const { draftsTable, activitiesTable } = config;
+  const feedbackTables = { activities: activitiesTable, feedback: config.feedbackTable };
 
-  const draft = await fetchDraft(supabaseUrl, supabaseKey, draftsTable, draftId);
+  const draft = await fetchDraft(storage, draftsTable, draftId);
   if (!draft) {
     throw new Error(`Draft not found: ${draftId}`);
   }
@@ -297,8 +261,21 @@ async function main() {
     return;
   }
 
+  if (draft.status === "sending" && action !== "approve") {
+    const result: ActionResult = {
+      command: "approval_action",
+      action,
+      draft_id: draftId,
+      ok: false,
+      message: `Draft ${draftId} is being sent; re-run approve to reconcile it before any ${action}.`,
+      updated_status: draft.status,
+    };
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
   if (action === "approve") {
-    const accountEmail = draft.account_email || clean(process.env.GOG_ACCOUNT);
+    const accountEmail = draft.account_email || config.gogAccount;
     const toEmail = draft.to_email;
     const subject = draft.subject;
     const body = draft.body;
@@ -310,24 +287,108 @@ async function main() {
     const replyToMessageId =
       draft.reply_to_message_id ||
       (draft.activity_id
-        ? await fetchActivityMessageId(supabaseUrl, supabaseKey, activitiesTable, draft.activity_id)
+        ? (await fetchActivity(storage, activitiesTable, draft.activity_id))?.message_id
         : undefined);
-
-    await sendDraftEmail({
+    const idempotencyKey = draft.idempotency_key || `crm-draft-${draftId}-${randomUUID()}`;
+    const target: SendTarget = {
       accountEmail,
       toEmail,
       subject,
       body,
       replyToMessageId,
-    });
+      messageId: outgoingMessageId(idempotencyKey, accountEmail),
+    };
+
+    if (draft.status === "sending") {
+      const claimedAt = draft.send_claimed_at || new Date(0).toISOString();
+      const sentMessageId = draft.idempotency_key ? await findSentCopy(mail, target) : undefined;
+      if (sentMessageId) {
+        await patchDraft(storage, draftsTable, draftId, {
+          status: "sent",
+          sent_at: new Date().toISOString(),
+          sent_message_id: sentMessageId,
+          send_error: null,
+          updated_at: new Date().toISOString(),
+        });
+
+        const result: ActionResult = {
+          command: "approval_action",
+          action,
+          draft_id: draftId,
+          ok: true,
+          message: `Draft ${draftId} was already sent; marked as sent without resending.`,
+          email_sent: false,
+          reconciled: true,
+          sent_message_id: sentMessageId,
+          updated_status: "sent",
+          ...(await recordFeedback(storage, feedbackTables, draft, {
+            source: "approve",
+            createdBy: approvedBy,
+          })),
+        };
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      if (Date.now() - Date.parse(claimedAt) < config.sendStaleMinutes * 60 * 1000) {
+        const result: ActionResult = {
+          command: "approval_action",
+          action,
+          draft_id: draftId,
+          ok: false,
+          message: `Draft ${draftId} is already being sent (claimed at ${claimedAt}); try again later.`,
+          updated_status: "sending",
+        };
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+    }
 
-    await patchDraft(supabaseUrl, supabaseKey, draftsTable, draftId, {
-      status: "sent",
+    const claimed = await claimDraft(storage, draftsTable, draft, {
+      status: "sending",
+      idempotency_key: idempotencyKey,
+      send_claimed_at: new Date().toISOString(),
       approved_by: approvedBy,
       approved_at: new Date().toISOString(),
-      sent_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     });
+    if (!claimed) {
+      const current = await fetchDraft(storage, draftsTable, draftId);
+      const result: ActionResult = {
+        command: "approval_action",
+        action,
+        draft_id: draftId,
+        ok: false,
+        message: `Draft ${draftId} changed to ${current?.status ?? "missing"} before it could be claimed; not sent.`,
+        updated_status: current?.status,
+      };
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    let sentMessageId: string | undefined;
+    try {
+      sentMessageId = await sendDraftEmail(mail, target);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "unknown send error";
+      await patchDraft(storage, draftsTable, draftId, {
+        send_error: reason,
+        updated_at: new Date().toISOString(),
+      });
+      throw error;
+    }
+
+    await storage.patchRows(
+      draftsTable,
+      { id: draftId, status: "sending", idempotency_key: idempotencyKey },
+      {
+        status: "sent",
+        sent_at: new Date().toISOString(),
+        sent_message_id: sentMessageId,
+        send_error: null,
+        updated_at: new Date().toISOString(),
+      },
+    );
 
     const result: ActionResult = {
       command: "approval_action",
@@ -336,7 +397,12 @@ async function main() {
       ok: true,
       message: `Draft ${draftId} approved and sent.`,
       email_sent: true,
+      ...(sentMessageId ? { sent_message_id: sentMessageId } : {}),
       updated_status: "sent",
+      ...(await recordFeedback(storage, feedbackTables, draft, {
+        source: "approve",
+        createdBy: approvedBy,
+      })),
     };
     console.log(JSON.stringify(result, null, 2));
     return;
@@ -349,7 +415,7 @@ async function main() {
 
     const revisedBody = [draft.body ?? "", "", "[Revision requested]", notes].join("\n").trim();
 
-    await patchDraft(supabaseUrl, supabaseKey, draftsTable, draftId, {
+    await patchDraft(storage, draftsTable, draftId, {
       status: "draft",
       revision_notes: notes,
       body: revisedBody,
@@ -372,7 +438,7 @@ async function main() {
     throw new Error("--reason is required for action=reject");
   }
 
-  await patchDraft(supabaseUrl, supabaseKey, draftsTable, draftId, {
+  await patchDraft(storage, draftsTable, draftId, {
     status: "rejected",
     rejected_reason: reason,
     rejected_at: new Date().toISOString(),
@@ -386,6 +452,12 @@ async function main() {
     ok: true,
     message: `Draft ${draftId} rejected.`,
     updated_status: "rejected",
+    ...(await recordFeedback(storage, feedbackTables, draft, {
+      source: "reject",
+      label: label ?? (NOT_A_LEAD_PATTERN.test(reason) ? "ignore" : undefined),
+      reason,
+      createdBy: approvedBy,
+    })),
   };
   console.log(JSON.stringify(result, null, 2));
 }
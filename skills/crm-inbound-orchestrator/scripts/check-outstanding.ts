@@ -1,11 +1,25 @@
 import { randomUUID } from "node:crypto";
-import { mkdir, writeFile } from "node:fs/promises";
-import path from "node:path";
 
-type CliArgs = {
-  command?: string;
-  flags: Record<string, string | boolean>;
-};
+import {
+  asNumber,
+  asString,
+  buildTaxonomy,
+  clean,
+  createSlackClientFromConfig,
+  createStorageClientFromConfig,
+  ensureSchemaVersion,
+  getRecord,
+  isMainModule,
+  loadConfig,
+  parseArgs,
+  writeJson,
+  type ClassificationLabel,
+  type CrmConfig,
+  type SlackBlock,
+  type SlackClient,
+  type SlackMessage,
+  type StorageClient,
+} from "./crm-core/index.ts";
 
 type DraftRow = {
   id: string;
@@ -26,17 +40,11 @@ type ActivityRow = {
   subject?: string;
   received_at?: string;
   classification?: string;
+  thread_draft_id?: string;
   crm_drafts?: Array<{ id?: string; status?: string; updated_at?: string }> | null;
 };
 
-type SlackBlock = Record<string, unknown>;
-
-type SlackMessage = {
-  text: string;
-  blocks?: SlackBlock[];
-};
-
-type OutstandingResult = {
+export type OutstandingResult = {
   command: "check_outstanding";
   run_id: string;
   started_at: string;
@@ -47,6 +55,7 @@ type OutstandingResult = {
     unsent_drafts: number;
     stale_drafts: number;
     unanswered_sales_leads: number;
+    unanswered_by_label: Record<string, number>;
   };
   posted: boolean;
   post_error?: string;
@@ -56,60 +65,8 @@ type OutstandingResult = {
 };
 
 const DEFAULT_OUTPUT_FILE = "/tmp/crm-outstanding.json";
-const DEFAULT_LOOKBACK_DAYS = 7;
-const DEFAULT_STALE_HOURS = 24;
 const DEFAULT_MAX_ROWS = 200;
 
-function parseArgs(argv: string[]): CliArgs {
-  const tokens = argv.slice(2);
-  const command = tokens.shift();
-  const flags: Record<string, string | boolean> = {};
-
-  for (let i = 0; i < tokens.length; i += 1) {
-    const token = tokens[i];
-    if (!token.startsWith("--")) {
-      continue;
-    }
-
-    const key = token.slice(2);
-    const next = tokens[i + 1];
-    if (!next || next.startsWith("--")) {
-      flags[key] = true;
-      continue;
-    }
-
-    flags[key] = next;
-    i += 1;
-  }
-
-  return { command, flags };
-}
-
-function asString(value: string | boolean | undefined): string | undefined {
-  return typeof value === "string" ? value : undefined;
-}
-
-function asNumber(value: string | boolean | undefined): number | undefined {
-  const text = asString(value);
-  if (!text) {
-    return undefined;
-  }
-  const parsed = Number.parseInt(text, 10);
-  return Number.isFinite(parsed) ? parsed : undefined;
-}
-
-function clean(value: string | undefined): string | undefined {
-  const trimmed = value?.trim();
-  return trimmed ? trimmed : undefined;
-}
-
-function getRecord(value: unknown): Record<string, unknown> | undefined {
-  if (!value || typeof value !== "object") {
-    return undefined;
-  }
-  return value as Record<string, unknown>;
-}
-
 function asDraftRow(value: unknown): DraftRow | undefined {
   const row = getRecord(value);
   if (!row || typeof row.id !== "string") {
@@ -170,6 +127,7 @@ function asActivityRow(value: unknown): ActivityRow | undefined {
     subject: typeof row.subject === "string" ? row.subject : undefined,
     received_at: typeof row.received_at === "string" ? row.received_at : undefined,
     classification: typeof row.classification === "string" ? row.classification : undefined,
+    thread_draft_id: typeof row.thread_draft_id === "string" ? row.thread_draft_id : undefined,
     crm_drafts: normalizeRelatedDrafts(row.crm_drafts),
   };
 }
@@ -257,34 +215,6 @@ function isLikelyBusinessLead(activity: ActivityRow): boolean {
   return includesAny(text, leadSignals);
 }
 
-async function supabaseRequest<T>(options: {
-  supabaseUrl: string;
-  serviceKey: string;
-  table: string;
-  query: URLSearchParams;
-}): Promise<T> {
-  const response = await fetch(
-    `${options.supabaseUrl}/rest/v1/${options.table}?${options.query.toString()}`,
-    {
-      method: "GET",
-      headers: {
-        apikey: options.serviceKey,
-        Authorization: `Bearer ${options.serviceKey}`,
-        Accept: "application/json",
-      },
-    },
-  );
-
-  const text = await response.text();
-  const body = text.trim() ? (JSON.parse(text) as T) : ([] as T);
-
-  if (!response.ok) {
-    throw new Error(`Supabase GET ${options.table} failed (${response.status}): ${text}`);
-  }
-
-  return body;
-}
-
 function ageHours(isoDate: string | undefined): number {
   if (!isoDate) {
     return 0;
@@ -296,6 +226,11 @@ function ageHours(isoDate: string | undefined): number {
   return Math.max(0, Math.floor((Date.now() - ts) / 3_600_000));
 }
 
+function leadTag(activity: ActivityRow): string {
+  const label = activity.classification;
+  return label && label !== "sales" && label !== "ignore" ? ` • [${label}]` : "";
+}
+
 function clamp(text: string | undefined, max = 90): string {
   if (!text) {
     return "(no subject)";
@@ -307,6 +242,17 @@ function clamp(text: string | undefined, max = 90): string {
   return `${normalized.slice(0, max - 1)}…`;
 }
 
+function countByLabel(activities: ActivityRow[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const activity of activities) {
+    const label = activity.classification === "ignore" ? "sales" : activity.classification;
+    if (label) {
+      counts[label] = (counts[label] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
 function buildOutstandingSlackMessage(args: {
   lookbackDays: number;
   staleHours: number;
@@ -332,7 +278,7 @@ function buildOutstandingSlackMessage(args: {
     .map((lead) => {
       const from = lead.from_email || lead.from_name || "unknown";
       const age = ageHours(lead.received_at);
-      return `• \`${lead.id}\` • ${from} • ${clamp(lead.subject)} • ${age}h old`;
+      return `• \`${lead.id}\`${leadTag(lead)} • ${from} • ${clamp(lead.subject)} • ${age}h old`;
     })
     .join("\n");
 
@@ -354,6 +300,9 @@ function buildOutstandingSlackMessage(args: {
         .filter(Boolean)
         .join("\n");
 
+  const byLabel = Object.entries(countByLabel(args.unansweredLeads))
+    .filter(([label]) => label !== "sales")
+    .map(([label, count]) => `${label}: ${count}`);
   const blocks: SlackBlock[] = [
     {
       type: "header",
@@ -371,6 +320,9 @@ function buildOutstandingSlackMessage(args: {
           text: `*Stale Drafts (>${args.staleHours}h):*\n${args.staleDrafts.length}`,
         },
         { type: "mrkdwn", text: `*Unanswered Sales Leads:*\n${args.unansweredLeads.length}` },
+        ...(byLabel.length > 0
+          ? [{ type: "mrkdwn", text: `*Unanswered by Label:*\n${byLabel.join("\n")}` }]
+          : []),
       ],
     },
   ];
@@ -408,80 +360,24 @@ function buildOutstandingSlackMessage(args: {
   return { text, blocks };
 }
 
-async function maybePostSlack(message: SlackMessage): Promise<{ posted: boolean; error?: string }> {
-  const token = clean(process.env.SLACK_BOT_TOKEN);
-  const channel =
-    clean(process.env.CRM_SLACK_CHANNEL_ID) ||
-    clean(process.env.SLACK_CHANNEL_ID) ||
-    clean(process.env.CRM_SLACK_CHANNEL);
-
-  if (!token || !channel) {
-    return { posted: false, error: "CRM_SLACK_CHANNEL_ID or SLACK_BOT_TOKEN missing" };
-  }
-
-  const response = await fetch("https://slack.com/api/chat.postMessage", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json; charset=utf-8",
-    },
-    body: JSON.stringify({
-      channel,
-      text: message.text,
-      ...(Array.isArray(message.blocks) && message.blocks.length > 0
-        ? { blocks: message.blocks }
-        : {}),
-      unfurl_links: false,
-      unfurl_media: false,
-    }),
-  });
-
-  const data = (await response.json()) as Record<string, unknown>;
-  if (response.ok && data.ok === true) {
-    return { posted: true };
-  }
-
-  const error = typeof data.error === "string" ? data.error : `slack-error-${response.status}`;
-  return { posted: false, error };
-}
-
-async function writeJson(filePath: string, payload: unknown): Promise<void> {
-  await mkdir(path.dirname(filePath), { recursive: true });
-  await writeFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
-}
-
-async function main() {
-  const { command, flags } = parseArgs(process.argv);
-  if (command !== "check_outstanding") {
-    console.error(
-      "Usage: tsx check-outstanding.ts check_outstanding [--lookback-days <n>] [--stale-hours <n>] [--output <path>]",
-    );
-    process.exit(1);
-  }
+export type CheckOutstandingOptions = {
+  lookbackDays: number;
+  staleHours: number;
+  maxRows: number;
+  notifyWhenEmpty: boolean;
+  postToSlack: boolean;
+  storage: StorageClient;
+  slack: SlackClient;
+  draftsTable: string;
+  activitiesTable: string;
+  taxonomy: ClassificationLabel[];
+  runId?: string;
+};
 
-  const outputFile = clean(asString(flags.output)) || DEFAULT_OUTPUT_FILE;
-  const lookbackDays =
-    asNumber(flags["lookback-days"]) ||
-    asNumber(process.env.CRM_OUTSTANDING_LOOKBACK_DAYS) ||
-    DEFAULT_LOOKBACK_DAYS;
-  const staleHours =
-    asNumber(flags["stale-hours"]) ||
-    asNumber(process.env.CRM_OUTSTANDING_STALE_HOURS) ||
-    DEFAULT_STALE_HOURS;
-  const maxRows = asNumber(flags.limit) || DEFAULT_MAX_ROWS;
-  const notifyEmptyFlag = clean(asString(flags["notify-empty"]));
-  const notifyWhenEmpty =
-    notifyEmptyFlag !== undefined
-      ? ["1", "true", "yes", "on"].includes(notifyEmptyFlag.toLowerCase())
-      : ["1", "true", "yes", "on"].includes(
-          (clean(process.env.CRM_OUTSTANDING_NOTIFY_EMPTY) || "false").toLowerCase(),
-        );
-
-  const supabaseUrl = clean(process.env.SUPABASE_URL);
-  const supabaseKey = clean(process.env.SUPABASE_SECRET_KEY);
-  if (!supabaseUrl || !supabaseKey) {
-    throw new Error("SUPABASE_URL and SUPABASE_SECRET_KEY are required");
-  }
+export async function checkOutstanding(
+  options: CheckOutstandingOptions,
+): Promise<OutstandingResult> {
+  const { lookbackDays, staleHours, maxRows, notifyWhenEmpty, storage, draftsTable } = options;
 
   const sinceIso = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString();
   const startedAt = new Date().toISOString();
@@ -491,17 +387,12 @@ async function main() {
     "select",
     "id,activity_id,account_email,to_email,subject,status,created_at,updated_at",
   );
-  draftsQuery.set("status", "eq.draft");
+  draftsQuery.set("status", "in.(draft,sending)");
   draftsQuery.set("created_at", `gte.${sinceIso}`);
   draftsQuery.set("order", "updated_at.desc");
   draftsQuery.set("limit", String(maxRows));
 
-  const rawDrafts = await supabaseRequest<unknown[]>({
-    supabaseUrl,
-    serviceKey: supabaseKey,
-    table: "crm_drafts",
-    query: draftsQuery,
-  });
+  const rawDrafts = await storage.select(draftsTable, draftsQuery);
   const unsentDrafts = rawDrafts
     .map((row) => asDraftRow(row))
     .filter((row): row is DraftRow => Boolean(row));
@@ -509,25 +400,24 @@ async function main() {
   const activitiesQuery = new URLSearchParams();
   activitiesQuery.set(
     "select",
-    "id,account_email,from_email,from_name,subject,received_at,classification,crm_drafts(id,status,updated_at)",
+    `id,account_email,from_email,from_name,subject,received_at,classification,thread_draft_id,crm_drafts:${draftsTable}(id,status,updated_at)`,
   );
-  activitiesQuery.set("classification", "in.(sales,ignore)");
+  const draftLabels = options.taxonomy
+    .filter((label) => label.policy === "draft" && label.name !== "sales")
+    .map((label) => label.name);
+  activitiesQuery.set("classification", `in.(${["sales", "ignore", ...draftLabels].join(",")})`);
   activitiesQuery.set("received_at", `gte.${sinceIso}`);
   activitiesQuery.set("order", "received_at.desc");
   activitiesQuery.set("limit", String(maxRows));
 
-  const rawActivities = await supabaseRequest<unknown[]>({
-    supabaseUrl,
-    serviceKey: supabaseKey,
-    table: "crm_activities",
-    query: activitiesQuery,
-  });
+  const rawActivities = await storage.select(options.activitiesTable, activitiesQuery);
   const salesActivities = rawActivities
     .map((row) => asActivityRow(row))
     .filter((row): row is ActivityRow => Boolean(row));
 
   const unansweredSalesLeads = salesActivities.filter((activity) => {
-    if (!isLikelyBusinessLead(activity)) {
+    const drafted = draftLabels.includes(activity.classification ?? "");
+    if ((!drafted && !isLikelyBusinessLead(activity)) || activity.thread_draft_id) {
       return false;
     }
     const drafts = Array.isArray(activity.crm_drafts) ? activity.crm_drafts : [];
@@ -539,25 +429,27 @@ async function main() {
     return ageHours(baseTs) >= staleHours;
   });
 
-  const slackMessage = buildOutstandingSlackMessage({
-    lookbackDays,
-    staleHours,
-    staleDrafts,
-    unansweredLeads: unansweredSalesLeads,
-    notifyWhenEmpty,
-  });
+  const slackMessage = options.postToSlack
+    ? buildOutstandingSlackMessage({
+        lookbackDays,
+        staleHours,
+        staleDrafts,
+        unansweredLeads: unansweredSalesLeads,
+        notifyWhenEmpty,
+      })
+    : undefined;
 
   let posted = false;
   let postError: string | undefined;
   if (slackMessage) {
-    const postedResult = await maybePostSlack(slackMessage);
+    const postedResult = await options.slack.postMessage(slackMessage);
     posted = postedResult.posted;
     postError = postedResult.error;
   }
 
-  const result: OutstandingResult = {
+  return {
     command: "check_outstanding",
-    run_id: randomUUID(),
+    run_id: options.runId || randomUUID(),
     started_at: startedAt,
     finished_at: new Date().toISOString(),
     lookback_days: lookbackDays,
@@ -566,6 +458,7 @@ async function main() {
       unsent_drafts: unsentDrafts.length,
       stale_drafts: staleDrafts.length,
       unanswered_sales_leads: unansweredSalesLeads.length,
+      unanswered_by_label: countByLabel(unansweredSalesLeads),
     },
     posted,
     ...(postError ? { post_error: postError } : {}),
@@ -573,9 +466,47 @@ async function main() {
     stale_drafts: staleDrafts,
     unanswered_sales_leads: unansweredSalesLeads,
   };
+}
+
+export function resolveCheckOutstandingOptions(
+  config: CrmConfig,
+  flags: Record<string, string | boolean> = {},
+): CheckOutstandingOptions {
+  return {
+    lookbackDays: config.outstandingLookbackDays,
+    staleHours: config.outstandingStaleHours,
+    maxRows: asNumber(flags.limit) || DEFAULT_MAX_ROWS,
+    notifyWhenEmpty: config.outstandingNotifyEmpty,
+    postToSlack: true,
+    storage: createStorageClientFromConfig(config),
+    slack: createSlackClientFromConfig(config),
+    draftsTable: config.draftsTable,
+    activitiesTable: config.activitiesTable,
+    taxonomy: buildTaxonomy(config.classificationLabels),
+  };
+}
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command !== "check_outstanding") {
+    console.error(
+      "Usage: tsx check-outstanding.ts check_outstanding [--lookback-days <n>] [--stale-hours <n>] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const outputFile = clean(asString(flags.output)) || DEFAULT_OUTPUT_FILE;
+  const options = resolveCheckOutstandingOptions(
+    loadConfig({ flags, command: "check_outstanding" }),
+    flags,
+  );
+  await ensureSchemaVersion(options.storage);
+  const result = await checkOutstanding(options);
 
   await writeJson(outputFile, result);
   console.log(JSON.stringify(result, null, 2));
 }
 
-await main();
+if (isMainModule(import.meta.url)) {
+  await main();
+}
@@ -0,0 +1,178 @@
+import {
+  asString,
+  clean,
+  createStorageClientFromConfig,
+  CRM_COMMANDS,
+  describeConfig,
+  getConfigField,
+  isMainModule,
+  loadClassifierRules,
+  parseArgs,
+  readJsonFile,
+  readSchemaVersion,
+  REQUIRED_SCHEMA_VERSION,
+  requiredSettings,
+  resolveConfig,
+  resolveRetryPolicy,
+  RETRY_SERVICES,
+  writeJson,
+  type ConfigEntry,
+  type ConfigProblem,
+  type CrmCommand,
+  type SopSnapshot,
+} from "./crm-core/index.ts";
+
+type DoctorResult = {
+  command: "config_doctor";
+  status: "ok" | "warnings" | "errors";
+  checked_for: CrmCommand;
+  config_file?: string;
+  settings: ConfigEntry[];
+  retry_policies: Record<
+    string,
+    { max_attempts: number; base_delay_ms: number; max_delay_ms: number; budget_ms: number }
+  >;
+  classifier_rules?: { version: number; hash: string; sources: string[] };
+  schema_version?: number;
+  required_schema_version: number;
+  problems: ConfigProblem[];
+};
+
+const DEFAULT_OUTPUT_FILE = "/tmp/crm-config-doctor.json";
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command !== "doctor") {
+    console.error(
+      "Usage: tsx config.ts doctor [--for <command>] [--config <path>] [--skip-storage] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const target = (clean(asString(flags.for)) || "run_cycle") as CrmCommand;
+  if (!CRM_COMMANDS.includes(target)) {
+    throw new Error(`--for must be one of: ${CRM_COMMANDS.join(", ")}`);
+  }
+  const outputFile = clean(asString(flags.output)) || DEFAULT_OUTPUT_FILE;
+
+  const resolved = resolveConfig({ flags, command: target });
+  const { config, problems } = resolved;
+
+  for (const other of CRM_COMMANDS.filter((entry) => entry !== target)) {
+    for (const key of requiredSettings(config, other)) {
+      const setting = getConfigField(key).env;
+      const value = config[key];
+      const missing = value === undefined || (Array.isArray(value) && value.length === 0);
+      if (missing && !problems.some((problem) => problem.setting === setting)) {
+        problems.push({
+          level: "warning",
+          setting,
+          message: `Not set; ${other} will fail without it`,
+        });
+      }
+    }
+  }
+
+  if ((config.useModelClassifier || config.useModelReplyWriter) && !config.openaiApiKey) {
+    problems.push({
+      level: "warning",
+      setting: "OPENAI_API_KEY",
+      message: "Not set; classification and replies fall back to the rule-based templates",
+    });
+  }
+  if (!config.slackBotToken || !config.slackChannelId) {
+    problems.push({
+      level: "warning",
+      setting: config.slackBotToken ? "CRM_SLACK_CHANNEL_ID" : "SLACK_BOT_TOKEN",
+      message: "Not set; Slack notifications are skipped",
+    });
+  }
+  for (const account of Object.keys(config.mailboxProfiles ?? {})) {
+    if (!config.monitoredEmails?.includes(account)) {
+      problems.push({
+        level: "warning",
+        setting: "CRM_MAILBOX_PROFILES",
+        message: `Profile for ${account} does not match any CRM_MONITORED_EMAILS account`,
+      });
+    }
+  }
+
+  let classifierRules: DoctorResult["classifier_rules"];
+  try {
+    const sop = await readJsonFile<SopSnapshot>(config.sopCacheFile).catch(() => undefined);
+    const { rules, warnings } = await loadClassifierRules({ file: config.rulesFile, sop });
+    classifierRules = { version: rules.version, hash: rules.hash, sources: rules.sources };
+    for (const message of warnings) {
+      problems.push({ level: "warning", setting: "CRM_SOP_CACHE_FILE", message });
+    }
+  } catch (error) {
+    problems.push({
+      level: "error",
+      setting: "CRM_RULES_FILE",
+      message: error instanceof Error ? error.message : "Classifier rules could not be loaded",
+    });
+  }
+
+  const result: DoctorResult = {
+    command: "config_doctor",
+    status: "ok",
+    checked_for: target,
+    ...(resolved.file ? { config_file: resolved.file } : {}),
+    settings: describeConfig(resolved),
+    retry_policies: Object.fromEntries(
+      RETRY_SERVICES.map((service) => {
+        const policy = resolveRetryPolicy(service, config);
+        return [
+          service,
+          {
+            max_attempts: policy.maxAttempts,
+            base_delay_ms: policy.baseDelayMs,
+            max_delay_ms: policy.maxDelayMs,
+            budget_ms: policy.budgetMs,
+            timeout_ms: policy.timeoutMs,
+          },
+        ];
+      }),
+    ),
+    ...(classifierRules ? { classifier_rules: classifierRules } : {}),
+    required_schema_version: REQUIRED_SCHEMA_VERSION,
+    problems,
+  };
+
+  const storageReady = requiredSettings(config, "process_inbound").every((key) => config[key]);
+  if (flags["skip-storage"] !== true && target !== "fetch_sop" && storageReady) {
+    try {
+      result.schema_version = await readSchemaVersion(createStorageClientFromConfig(config));
+      if (result.schema_version < REQUIRED_SCHEMA_VERSION) {
+        problems.push({
+          level: "error",
+          setting: "crm_schema_migrations",
+          message: `Schema is at version ${result.schema_version}; run: tsx scripts/migrate.ts migrate`,
+        });
+      }
+    } catch (error) {
+      problems.push({
+        level: "error",
+        setting: config.storageBackend === "sqlite" ? "CRM_SQLITE_FILE" : "SUPABASE_URL",
+        message: `Storage check failed: ${error instanceof Error ? error.message : "unknown error"}`,
+      });
+    }
+  }
+
+  result.status = problems.some((problem) => problem.level === "error")
+    ? "errors"
+    : problems.length > 0
+      ? "warnings"
+      : "ok";
+
+  await writeJson(outputFile, result);
+  console.log(JSON.stringify(result, null, 2));
+
+  if (result.status === "errors") {
+    process.exitCode = 1;
+  }
+}
+
+if (isMainModule(import.meta.url)) {
+  await main();
+}
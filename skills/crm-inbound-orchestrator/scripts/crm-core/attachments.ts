@@ -0,0 +1,93 @@
+import { loadConfig, type CrmConfig } from "./config.ts";
+import { createFileStoreFromConfig, type FileStore } from "./file-store.ts";
+import type { MailAttachment, MailMessage, MailProvider } from "./mail.ts";
+import { extractPdfText } from "./pdf.ts";
+import type { PollAttachment } from "./types.ts";
+
+export type AttachmentOptions = {
+  store?: FileStore;
+  maxBytes: number;
+  extractText: boolean;
+};
+
+const MAX_ATTACHMENT_TEXT = 4_000;
+
+export function resolveAttachmentOptions(config: CrmConfig = loadConfig()): AttachmentOptions {
+  return {
+    store: createFileStoreFromConfig(config),
+    maxBytes: config.attachmentMaxBytes,
+    extractText: config.attachmentExtractText,
+  };
+}
+
+export function toPollAttachment(attachment: MailAttachment): PollAttachment {
+  return {
+    filename: attachment.filename,
+    mime_type: attachment.mimeType,
+    size: attachment.size,
+    ...(attachment.contentId ? { content_id: attachment.contentId } : {}),
+    ...(attachment.inline ? { inline: true } : {}),
+  };
+}
+
+function isPdf(attachment: MailAttachment): boolean {
+  return (
+    attachment.mimeType.toLowerCase() === "application/pdf" ||
+    Boolean(attachment.filename?.toLowerCase().endsWith(".pdf"))
+  );
+}
+
+export async function collectAttachments(
+  account: string,
+  message: MailMessage,
+  options: AttachmentOptions,
+  provider?: Pick<MailProvider, "getAttachment">,
+): Promise<PollAttachment[]> {
+  const attachments: PollAttachment[] = [];
+
+  for (const [index, attachment] of (message.attachments ?? []).entries()) {
+    const entry = toPollAttachment(attachment);
+    attachments.push(entry);
+
+    const skipInline = attachment.inline && attachment.mimeType.toLowerCase().startsWith("image/");
+    const wantsText = options.extractText && isPdf(attachment);
+    if (skipInline || (!options.store && !wantsText)) {
+      continue;
+    }
+    if (attachment.size > options.maxBytes) {
+      entry.error = `larger than ${options.maxBytes} bytes`;
+      continue;
+    }
+
+    try {
+      const content =
+        attachment.content ??
+        (provider?.getAttachment
+          ? await provider.getAttachment(account, message.id, attachment)
+          : undefined);
+      if (!content) {
+        entry.error = "attachment content is not available";
+        continue;
+      }
+      if (options.store) {
+        const stored = await options.store.put(
+          `${account}/${message.id}/${index + 1}-${attachment.filename || "attachment"}`,
+          content,
+          attachment.mimeType,
+        );
+        entry.storage_key = stored.key;
+        entry.storage_url = stored.url;
+      }
+      if (wantsText) {
+        const text = extractPdfText(content);
+        if (text) {
+          entry.text = text.slice(0, MAX_ATTACHMENT_TEXT);
+        }
+      }
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : "unknown attachment error";
+    }
+  }
+
+  return attachments;
+}
@@ -0,0 +1,191 @@
+export type BodyParts = {
+  text: string;
+  quoted?: string;
+  signature?: string;
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  copy: "©",
+  reg: "®",
+  euro: "€",
+  pound: "£",
+  bull: "•",
+};
+
+const QUOTE_OPEN = "\u0001";
+const QUOTE_CLOSE = "\u0002";
+
+const REPLY_HEADERS = [
+  /^On\s.+\bwrote:\s*$/i,
+  /^Am\s.+\bschrieb\b.*:\s*$/i,
+  /^Le\s.+\ba\s[ée]crit\s*:\s*$/i,
+  /^El\s.+\bescribi[óo]\s*:\s*$/i,
+  /^-{2,}\s*Original Message\s*-{2,}\s*$/i,
+];
+const HEADER_FROM = /^\*?(?:From|De|Von|Van):\*?\s.+/i;
+const HEADER_DETAIL = /^\*?(?:Sent|Date|Envoy[ée]|Gesendet|Datum|To|Subject|Objet|Betreff):\*?\s/i;
+const SIGNATURE_DELIMITER = /^(?:--|__)\s*$/;
+const MOBILE_SIGNATURE =
+  /^(?:Sent from my |Sent from Mail for |Sent from Outlook|Get Outlook for |Sent via )/i;
+const LEGAL_FOOTER =
+  /^(?:This (?:e-?mail|message|communication)\b.{0,60}\b(?:confidential|intended (?:solely |only )?for)|CONFIDENTIALITY(?: NOTICE)?\b|The information (?:contained )?in this (?:e-?mail|message)|DISCLAIMER\b)/i;
+const VALEDICTION =
+  /^(?:best|best regards|best wishes|regards|kind regards|warm regards|warmly|many thanks|thanks|thank you|thanks again|cheers|sincerely|all the best|talk soon)[,.!]?$/i;
+
+export function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code < 0x110000
+        ? String.fromCodePoint(code)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+export function looksLikeHtml(value: string): boolean {
+  return /<(?:html|body|div|p|br|span|table|td|a|b|strong|blockquote)\b[^>]*>/i.test(value);
+}
+
+export function bodyToText(value: string): string {
+  return looksLikeHtml(value)
+    ? htmlToText(value)
+    : tidyLines(value.replace(/\r\n?/g, "\n").split("\n"));
+}
+
+export function htmlToText(html: string): string {
+  const marked = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|style|script|title)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<div\b[^>]*class="[^"]*\bgmail_signature\b[^"]*"[^>]*>/gi, "\n--\n")
+    .replace(/<blockquote\b[^>]*>/gi, `\n${QUOTE_OPEN}\n`)
+    .replace(/<\/blockquote>/gi, `\n${QUOTE_CLOSE}\n`)
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(
+      /<\/?(?:p|div|tr|table|ul|ol|h[1-6]|hr|section|article|header|footer|pre)\b[^>]*>/gi,
+      "\n",
+    )
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(/<[^>]+>/g, "");
+
+  const lines: string[] = [];
+  let depth = 0;
+  for (const raw of decodeHtmlEntities(marked).split("\n")) {
+    if (raw.trim() === QUOTE_OPEN) {
+      depth += 1;
+      continue;
+    }
+    if (raw.trim() === QUOTE_CLOSE) {
+      depth = Math.max(0, depth - 1);
+      continue;
+    }
+    const line = raw.replace(/[^\S\n]+/g, " ").trim();
+    lines.push(depth > 0 && line ? `${"> ".repeat(depth)}${line}` : line);
+  }
+  return tidyLines(lines);
+}
+
+function tidyLines(lines: string[]): string {
+  return lines
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function startsReplyHeader(lines: string[], index: number): boolean {
+  const line = lines[index].trim();
+  if (REPLY_HEADERS.some((pattern) => pattern.test(line))) {
+    return true;
+  }
+  if (/^On\s/i.test(line) && /\bwrote:\s*$/i.test(`${line} ${lines[index + 1]?.trim() ?? ""}`)) {
+    return true;
+  }
+  if (/^_{10,}$/.test(line) && HEADER_FROM.test(lines[index + 1]?.trim() ?? "")) {
+    return true;
+  }
+  if (HEADER_FROM.test(line)) {
+    return lines.slice(index + 1, index + 5).some((next) => HEADER_DETAIL.test(next.trim()));
+  }
+  return false;
+}
+
+function findQuoteStart(lines: string[]): number {
+  for (let index = 0; index < lines.length; index += 1) {
+    if (lines[index].trimStart().startsWith(">") || startsReplyHeader(lines, index)) {
+      return index;
+    }
+  }
+  return lines.length;
+}
+
+function findSignatureStart(lines: string[]): number {
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index].trim();
+    if (
+      SIGNATURE_DELIMITER.test(line) ||
+      MOBILE_SIGNATURE.test(line) ||
+      (index > 0 && LEGAL_FOOTER.test(line))
+    ) {
+      return index;
+    }
+  }
+
+  for (let index = lines.length - 2; index > 0; index -= 1) {
+    const after = lines.slice(index + 1).filter((line) => line.trim()).length;
+    if (after > 6) {
+      break;
+    }
+    if (after > 0 && VALEDICTION.test(lines[index].trim())) {
+      return index + 1;
+    }
+  }
+  return lines.length;
+}
+
+export function splitBody(text: string | undefined): BodyParts | undefined {
+  const normalized = text?.replace(/\r\n?/g, "\n").trim();
+  if (!normalized) {
+    return undefined;
+  }
+
+  const lines = normalized.split("\n");
+  const quoteStart = findQuoteStart(lines);
+  let head = lines.slice(0, quoteStart);
+  let quoted = lines.slice(quoteStart);
+  if (!head.some((line) => line.trim())) {
+    head = quoted.filter((line) => !line.trimStart().startsWith(">"));
+    quoted = quoted.filter((line) => line.trimStart().startsWith(">"));
+    if (head.length > 0 && startsReplyHeader(head, 0)) {
+      quoted.unshift(head.shift() ?? "");
+    }
+  }
+
+  const signatureStart = findSignatureStart(head);
+  const signature = head.slice(signatureStart).filter((line) => !SIGNATURE_DELIMITER.test(line));
+  const quotedText = tidyLines(quoted);
+  const signatureText = tidyLines(signature);
+  return {
+    text: tidyLines(head.slice(0, signatureStart)),
+    ...(quotedText ? { quoted: quotedText } : {}),
+    ...(signatureText ? { signature: signatureText } : {}),
+  };
+}
@@ -0,0 +1,77 @@
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+export type CliArgs = {
+  command?: string;
+  flags: Record<string, string | boolean>;
+};
+
+export function parseArgs(argv: string[]): CliArgs {
+  const tokens = argv.slice(2);
+  const command = tokens.shift();
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    if (!token.startsWith("--")) {
+      continue;
+    }
+
+    const key = token.slice(2);
+    const next = tokens[i + 1];
+    if (!next || next.startsWith("--")) {
+      flags[key] = true;
+      continue;
+    }
+
+    flags[key] = next;
+    i += 1;
+  }
+
+  return { command, flags };
+}
+
+export function asString(value: string | boolean | undefined): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+export function asNumber(value: string | boolean | undefined): number | undefined {
+  const text = asString(value);
+  if (!text) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(text, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function clean(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+export function getBool(value: string | undefined, fallback: boolean): boolean {
+  if (!value) {
+    return fallback;
+  }
+  const normalized = value.trim().toLowerCase();
+  return normalized === "1" || normalized === "true" || normalized === "yes" || normalized === "on";
+}
+
+export function parseEmails(value: string | undefined): string[] {
+  const text = clean(value);
+  if (!text) {
+    return [];
+  }
+  return text
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry.length > 0);
+}
+
+export function isMainModule(moduleUrl: string): boolean {
+  const entry = process.argv[1];
+  if (!entry) {
+    return false;
+  }
+  return moduleUrl === pathToFileURL(path.resolve(entry)).href;
+}
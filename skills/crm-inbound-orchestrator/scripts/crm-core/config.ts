@@ -0,0 +1,781 @@
+import { readFileSync } from "node:fs";
+
+import { clean, parseEmails } from "./cli.ts";
+import { DEFAULT_GMAIL_API_BASE } from "./gmail.ts";
+import { DEFAULT_GRAPH_API_BASE, DEFAULT_GRAPH_AUTH_BASE } from "./graph.ts";
+import { getRecord } from "./json.ts";
+import { MAIL_PROVIDER_KINDS, type MailProviderKind } from "./mail.ts";
+import type { MailSecurity } from "./mail-socket.ts";
+import { DEFAULT_MIGRATIONS_DIR } from "./migrations.ts";
+import { parseMailboxProfiles, type MailboxProfile } from "./profiles.ts";
+import {
+  configureRetryPolicies,
+  RETRY_SERVICES,
+  RETRY_SETTINGS,
+  retrySettingKey,
+  type RetrySettings,
+} from "./retry.ts";
+import { buildTaxonomy, labelNames, parseCustomLabels, type CustomLabel } from "./taxonomy.ts";
+
+export type CrmConfig = {
+  storageBackend: "supabase" | "sqlite";
+  supabaseUrl?: string;
+  supabaseSecretKey?: string;
+  supabaseDbUrl?: string;
+  sqliteFile: string;
+  migrationsDir: string;
+  notionApiKey?: string;
+  sopPageId: string;
+  sopCacheFile: string;
+  monitoredEmails: string[];
+  pollQuery: string;
+  pollOverlapMinutes: number;
+  pollMaxResults: number;
+  pollMaxAgeHours: number;
+  mailboxProfiles?: Record<string, MailboxProfile>;
+  rulesFile?: string;
+  classificationLabels?: Record<string, CustomLabel>;
+  contactsTable: string;
+  activitiesTable: string;
+  draftsTable: string;
+  accountingTable: string;
+  jobRunsTable: string;
+  pollStateTable: string;
+  deadLettersTable: string;
+  locksTable: string;
+  feedbackTable: string;
+  auditTable: string;
+  deadLetterMaxRetries: number;
+  openaiApiKey?: string;
+  classifierModel: string;
+  replyModel: string;
+  useModelClassifier: boolean;
+  useModelReplyWriter: boolean;
+  feedbackExamples: number;
+  feedbackLookbackDays: number;
+  gmailLabelApply: boolean;
+  gmailLeadLabel: string;
+  mailProvider: MailProviderKind;
+  mailAccountProviders?: Record<string, MailProviderKind>;
+  gmailTokensFile?: string;
+  gmailClientId?: string;
+  gmailClientSecret?: string;
+  gmailApiBase: string;
+  imapHost?: string;
+  imapPort: number;
+  imapSecurity: MailSecurity;
+  imapUser?: string;
+  imapPassword?: string;
+  imapMailbox: string;
+  imapSentMailbox: string;
+  smtpHost?: string;
+  smtpPort: number;
+  smtpSecurity: MailSecurity;
+  smtpUser?: string;
+  smtpPassword?: string;
+  graphTenantId?: string;
+  graphClientId?: string;
+  graphClientSecret?: string;
+  graphApiBase: string;
+  graphAuthBase: string;
+  slackBotToken?: string;
+  slackChannelId?: string;
+  gogAccount?: string;
+  sendStaleMinutes: number;
+  outstandingLookbackDays: number;
+  outstandingStaleHours: number;
+  outstandingNotifyEmpty: boolean;
+  lockBackend: "storage" | "file";
+  lockName: string;
+  lockTtlSeconds: number;
+  lockFile: string;
+  pushHost: string;
+  pushPort: number;
+  pushPath: string;
+  pushToken?: string;
+  attachmentStore: "none" | "local" | "supabase";
+  attachmentDir: string;
+  attachmentBucket: string;
+  attachmentMaxBytes: number;
+  attachmentExtractText: boolean;
+} & RetrySettings;
+
+export type ConfigKey = keyof CrmConfig;
+
+export type ConfigField = {
+  key: ConfigKey;
+  env: string;
+  type: "string" | "number" | "boolean" | "emails" | "enum" | "map" | "profiles" | "labels";
+  default?: string | number | boolean;
+  values?: string[];
+  min?: number;
+  flag?: string;
+  aliases?: string[];
+  legacy?: string[];
+  secret?: boolean;
+};
+
+export type CrmCommand =
+  | "fetch_sop"
+  | "poll_inboxes"
+  | "process_inbound"
+  | "approval_action"
+  | "check_outstanding"
+  | "reclassify"
+  | "retry_dead_letters"
+  | "run_cycle"
+  | "serve_push"
+  | "migrate";
+
+export type ConfigSource = "flag" | "env" | "file" | "default" | "unset";
+
+export type ConfigProblem = {
+  level: "error" | "warning";
+  setting: string;
+  message: string;
+};
+
+export type ResolvedConfig = {
+  config: CrmConfig;
+  file?: string;
+  sources: Record<ConfigKey, { source: ConfigSource; name?: string }>;
+  problems: ConfigProblem[];
+};
+
+export type ConfigOptions = {
+  env?: NodeJS.ProcessEnv;
+  flags?: Record<string, string | boolean>;
+  command?: CrmCommand;
+};
+
+export type ConfigEntry = {
+  setting: string;
+  value:
+    | string
+    | number
+    | boolean
+    | string[]
+    | Record<string, string>
+    | Record<string, MailboxProfile>
+    | Record<string, CustomLabel>
+    | null;
+  source: ConfigSource;
+  from?: string;
+};
+
+export const CRM_COMMANDS: CrmCommand[] = [
+  "fetch_sop",
+  "poll_inboxes",
+  "process_inbound",
+  "approval_action",
+  "check_outstanding",
+  "reclassify",
+  "retry_dead_letters",
+  "run_cycle",
+  "serve_push",
+  "migrate",
+];
+
+export const CONFIG_FIELDS: ConfigField[] = [
+  {
+    key: "storageBackend",
+    env: "CRM_STORAGE_BACKEND",
+    type: "enum",
+    values: ["supabase", "sqlite"],
+    default: "supabase",
+  },
+  { key: "supabaseUrl", env: "SUPABASE_URL", type: "string" },
+  { key: "supabaseSecretKey", env: "SUPABASE_SECRET_KEY", type: "string", secret: true },
+  { key: "supabaseDbUrl", env: "SUPABASE_DB_URL", type: "string", secret: true },
+  { key: "sqliteFile", env: "CRM_SQLITE_FILE", type: "string", default: "crm-inbound.sqlite" },
+  {
+    key: "migrationsDir",
+    env: "CRM_MIGRATIONS_DIR",
+    type: "string",
+    flag: "migrations-dir",
+    default: DEFAULT_MIGRATIONS_DIR,
+  },
+  { key: "notionApiKey", env: "NOTION_API_KEY", type: "string", secret: true },
+  {
+    key: "sopPageId",
+    env: "CRM_SOP_PAGE_ID",
+    type: "string",
+    flag: "page-id",
+    default: "31288fb313488013924ade7bf704ab6f",
+  },
+  {
+    key: "sopCacheFile",
+    env: "CRM_SOP_CACHE_FILE",
+    type: "string",
+    flag: "cache-file",
+    default: "/tmp/crm-inbound-sop-cache.json",
+  },
+  { key: "monitoredEmails", env: "CRM_MONITORED_EMAILS", type: "emails", flag: "accounts" },
+  {
+    key: "pollQuery",
+    env: "CRM_POLL_QUERY",
+    type: "string",
+    flag: "query",
+    default:
+      "in:inbox is:unread -in:spam -in:trash -category:promotions -category:social -category:updates -category:forums",
+  },
+  {
+    key: "pollOverlapMinutes",
+    env: "CRM_POLL_OVERLAP_MINUTES",
+    type: "number",
+    min: 0,
+    flag: "overlap-minutes",
+    default: 120,
+  },
+  {
+    key: "pollMaxResults",
+    env: "CRM_POLL_MAX_RESULTS",
+    type: "number",
+    flag: "max-results",
+    default: 200,
+  },
+  {
+    key: "pollMaxAgeHours",
+    env: "CRM_POLL_MAX_AGE_HOURS",
+    type: "number",
+    flag: "max-age-hours",
+    default: 36,
+  },
+  { key: "mailboxProfiles", env: "CRM_MAILBOX_PROFILES", type: "profiles" },
+  { key: "rulesFile", env: "CRM_RULES_FILE", type: "string", flag: "rules-file" },
+  { key: "classificationLabels", env: "CRM_LABELS", type: "labels" },
+  { key: "contactsTable", env: "CRM_CONTACTS_TABLE", type: "string", default: "crm_contacts" },
+  {
+    key: "activitiesTable",
+    env: "CRM_ACTIVITIES_TABLE",
+    type: "string",
+    default: "crm_activities",
+  },
+  { key: "draftsTable", env: "CRM_DRAFTS_TABLE", type: "string", default: "crm_drafts" },
+  {
+    key: "accountingTable",
+    env: "CRM_ACCOUNTING_TABLE",
+    type: "string",
+    default: "accounting_entries",
+  },
+  { key: "jobRunsTable", env: "CRM_JOB_RUNS_TABLE", type: "string", default: "crm_job_runs" },
+  {
+    key: "pollStateTable",
+    env: "CRM_POLL_STATE_TABLE",
+    type: "string",
+    default: "crm_poll_state",
+  },
+  {
+    key: "deadLettersTable",
+    env: "CRM_DEAD_LETTERS_TABLE",
+    type: "string",
+    default: "crm_dead_letters",
+  },
+  { key: "locksTable", env: "CRM_LOCKS_TABLE", type: "string", default: "crm_run_locks" },
+  {
+    key: "feedbackTable",
+    env: "CRM_FEEDBACK_TABLE",
+    type: "string",
+    default: "crm_classification_feedback",
+  },
+  { key: "auditTable", env: "CRM_AUDIT_TABLE", type: "string", default: "crm_activity_audit" },
+  {
+    key: "deadLetterMaxRetries",
+    env: "CRM_DEAD_LETTER_MAX_RETRIES",
+    type: "number",
+    flag: "max-retries",
+    default: 5,
+  },
+  { key: "openaiApiKey", env: "OPENAI_API_KEY", type: "string", secret: true },
+  {
+    key: "classifierModel",
+    env: "CRM_CLASSIFIER_MODEL",
+    type: "string",
+    legacy: ["OPENCLAW_CRM_CLASSIFIER_MODEL"],
+    default: "gpt-5-nano",
+  },
+  {
+    key: "replyModel",
+    env: "CRM_REPLY_MODEL",
+    type: "string",
+    legacy: ["OPENCLAW_CRM_REPLY_MODEL"],
+    default: "gpt-5.2",
+  },
+  {
+    key: "useModelClassifier",
+    env: "CRM_USE_MODEL_CLASSIFIER",
+    type: "boolean",
+    legacy: ["OPENCLAW_CRM_USE_MODEL_CLASSIFIER"],
+    default: true,
+  },
+  {
+    key: "useModelReplyWriter",
+    env: "CRM_USE_MODEL_REPLY_WRITER",
+    type: "boolean",
+    legacy: ["OPENCLAW_CRM_USE_MODEL_REPLY_WRITER"],
+    default: true,
+  },
+  {
+    key: "feedbackExamples",
+    env: "CRM_FEEDBACK_EXAMPLES",
+    type: "number",
+    min: 0,
+    default: 5,
+  },
+  {
+    key: "feedbackLookbackDays",
+    env: "CRM_FEEDBACK_LOOKBACK_DAYS",
+    type: "number",
+    default: 90,
+  },
+  { key: "gmailLabelApply", env: "CRM_GMAIL_LABEL_APPLY", type: "boolean", default: true },
+  { key: "gmailLeadLabel", env: "CRM_GMAIL_LABEL_LEAD", type: "string", default: "CRM/Lead" },
+  {
+    key: "mailProvider",
+    env: "CRM_MAIL_PROVIDER",
+    type: "enum",
+    values: MAIL_PROVIDER_KINDS,
+    default: "gog",
+  },
+  {
+    key: "mailAccountProviders",
+    env: "CRM_MAIL_ACCOUNT_PROVIDERS",
+    type: "map",
+    values: MAIL_PROVIDER_KINDS,
+  },
+  { key: "gmailTokensFile", env: "CRM_GMAIL_TOKENS_FILE", type: "string" },
+  { key: "gmailClientId", env: "CRM_GMAIL_CLIENT_ID", type: "string" },
+  { key: "gmailClientSecret", env: "CRM_GMAIL_CLIENT_SECRET", type: "string", secret: true },
+  {
+    key: "gmailApiBase",
+    env: "CRM_GMAIL_API_BASE",
+    type: "string",
+    default: DEFAULT_GMAIL_API_BASE,
+  },
+  { key: "imapHost", env: "CRM_IMAP_HOST", type: "string" },
+  { key: "imapPort", env: "CRM_IMAP_PORT", type: "number", default: 993, min: 1 },
+  {
+    key: "imapSecurity",
+    env: "CRM_IMAP_SECURITY",
+    type: "enum",
+    values: ["tls", "starttls", "none"],
+    default: "tls",
+  },
+  { key: "imapUser", env: "CRM_IMAP_USER", type: "string" },
+  { key: "imapPassword", env: "CRM_IMAP_PASSWORD", type: "string", secret: true },
+  { key: "imapMailbox", env: "CRM_IMAP_MAILBOX", type: "string", default: "INBOX" },
+  { key: "imapSentMailbox", env: "CRM_IMAP_SENT_MAILBOX", type: "string", default: "Sent" },
+  { key: "smtpHost", env: "CRM_SMTP_HOST", type: "string" },
+  { key: "smtpPort", env: "CRM_SMTP_PORT", type: "number", default: 587, min: 1 },
+  {
+    key: "smtpSecurity",
+    env: "CRM_SMTP_SECURITY",
+    type: "enum",
+    values: ["tls", "starttls", "none"],
+    default: "starttls",
+  },
+  { key: "smtpUser", env: "CRM_SMTP_USER", type: "string" },
+  { key: "smtpPassword", env: "CRM_SMTP_PASSWORD", type: "string", secret: true },
+  { key: "graphTenantId", env: "CRM_GRAPH_TENANT_ID", type: "string" },
+  { key: "graphClientId", env: "CRM_GRAPH_CLIENT_ID", type: "string" },
+  { key: "graphClientSecret", env: "CRM_GRAPH_CLIENT_SECRET", type: "string", secret: true },
+  {
+    key: "graphApiBase",
+    env: "CRM_GRAPH_API_BASE",
+    type: "string",
+    default: DEFAULT_GRAPH_API_BASE,
+  },
+  {
+    key: "graphAuthBase",
+    env: "CRM_GRAPH_AUTH_BASE",
+    type: "string",
+    default: DEFAULT_GRAPH_AUTH_BASE,
+  },
+  { key: "slackBotToken", env: "SLACK_BOT_TOKEN", type: "string", secret: true },
+  {
+    key: "slackChannelId",
+    env: "CRM_SLACK_CHANNEL_ID",
+    type: "string",
+    aliases: ["SLACK_CHANNEL_ID", "CRM_SLACK_CHANNEL"],
+  },
+  { key: "gogAccount", env: "GOG_ACCOUNT", type: "string" },
+  { key: "sendStaleMinutes", env: "CRM_SEND_STALE_MINUTES", type: "number", default: 10 },
+  {
+    key: "outstandingLookbackDays",
+    env: "CRM_OUTSTANDING_LOOKBACK_DAYS",
+    type: "number",
+    flag: "lookback-days",
+    default: 7,
+  },
+  {
+    key: "outstandingStaleHours",
+    env: "CRM_OUTSTANDING_STALE_HOURS",
+    type: "number",
+    flag: "stale-hours",
+    default: 24,
+  },
+  {
+    key: "outstandingNotifyEmpty",
+    env: "CRM_OUTSTANDING_NOTIFY_EMPTY",
+    type: "boolean",
+    flag: "notify-empty",
+    default: false,
+  },
+  {
+    key: "lockBackend",
+    env: "CRM_LOCK_BACKEND",
+    type: "enum",
+    values: ["storage", "file"],
+    default: "storage",
+  },
+  { key: "lockName", env: "CRM_LOCK_NAME", type: "string", default: "crm-inbound-pipeline" },
+  { key: "lockTtlSeconds", env: "CRM_LOCK_TTL_SECONDS", type: "number", default: 50 * 60 },
+  { key: "lockFile", env: "CRM_LOCK_FILE", type: "string", default: "/tmp/crm-inbound.lock" },
+  { key: "pushHost", env: "CRM_PUSH_HOST", type: "string", flag: "host", default: "127.0.0.1" },
+  { key: "pushPort", env: "CRM_PUSH_PORT", type: "number", flag: "port", default: 8787 },
+  { key: "pushPath", env: "CRM_PUSH_PATH", type: "string", default: "/push/gmail" },
+  { key: "pushToken", env: "CRM_PUSH_TOKEN", type: "string", secret: true },
+  {
+    key: "attachmentStore",
+    env: "CRM_ATTACHMENT_STORE",
+    type: "enum",
+    values: ["none", "local", "supabase"],
+    default: "none",
+  },
+  { key: "attachmentDir", env: "CRM_ATTACHMENT_DIR", type: "string", default: "crm-attachments" },
+  {
+    key: "attachmentBucket",
+    env: "CRM_ATTACHMENT_BUCKET",
+    type: "string",
+    default: "crm-attachments",
+  },
+  {
+    key: "attachmentMaxBytes",
+    env: "CRM_ATTACHMENT_MAX_BYTES",
+    type: "number",
+    min: 0,
+    default: 10 * 1024 * 1024,
+  },
+  {
+    key: "attachmentExtractText",
+    env: "CRM_ATTACHMENT_EXTRACT_TEXT",
+    type: "boolean",
+    default: true,
+  },
+  { key: "retryMaxAttempts", env: "CRM_RETRY_MAX_ATTEMPTS", type: "number", min: 1 },
+  ...RETRY_SERVICES.flatMap((service) =>
+    RETRY_SETTINGS.map((setting): ConfigField => ({
+      key: retrySettingKey(service, setting),
+      env: `CRM_RETRY_${service.toUpperCase()}_${setting.replace(/(?<!^)([A-Z])/g, "_$1").toUpperCase()}`,
+      type: "number",
+      min: setting === "MaxAttempts" ? 1 : 0,
+    })),
+  ),
+];
+
+const CONFIG_FILE_ENV = "CRM_CONFIG_FILE";
+const TRUE_VALUES = ["1", "true", "yes", "on"];
+const FALSE_VALUES = ["0", "false", "no", "off"];
+
+export function getConfigField(key: ConfigKey): ConfigField {
+  const field = CONFIG_FIELDS.find((entry) => entry.key === key);
+  if (!field) {
+    throw new Error(`Unknown config key: ${key}`);
+  }
+  return field;
+}
+
+function parseMap(field: ConfigField, raw: unknown): { value: unknown } | { error: string } {
+  const record = getRecord(raw);
+  const entries =
+    typeof raw === "string"
+      ? raw
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+          .map((entry) => {
+            const equals = entry.indexOf("=");
+            return equals === -1
+              ? [entry, ""]
+              : [entry.slice(0, equals).trim(), entry.slice(equals + 1).trim()];
+          })
+      : record && !Array.isArray(raw)
+        ? Object.entries(record).map(([key, value]) => [key.trim(), String(value).trim()])
+        : undefined;
+  if (!entries) {
+    return { error: "expected <key>=<value> pairs" };
+  }
+
+  const value: Record<string, string> = {};
+  for (const [key, entryValue] of entries) {
+    if (!key || !entryValue) {
+      return { error: `expected <key>=<value>, got "${key}=${entryValue}"` };
+    }
+    if (field.values && !field.values.includes(entryValue)) {
+      return { error: `${key}: expected one of ${field.values.join(", ")}, got "${entryValue}"` };
+    }
+    value[key.toLowerCase()] = entryValue;
+  }
+  return { value };
+}
+
+function parseValue(field: ConfigField, raw: unknown): { value: unknown } | { error: string } {
+  if (field.type === "map") {
+    return parseMap(field, raw);
+  }
+  if (field.type === "profiles") {
+    return parseMailboxProfiles(raw);
+  }
+  if (field.type === "labels") {
+    return parseCustomLabels(raw);
+  }
+  if (typeof raw === "boolean") {
+    return field.type === "boolean" ? { value: raw } : { error: "expects a value" };
+  }
+  if (Array.isArray(raw) && field.type === "emails") {
+    return parseValue(field, raw.join(","));
+  }
+  if (typeof raw === "number" && field.type !== "boolean") {
+    return parseValue(field, String(raw));
+  }
+  if (typeof raw !== "string") {
+    return { error: `expected a ${field.type === "emails" ? "list of emails" : field.type}` };
+  }
+
+  const text = raw.trim();
+  switch (field.type) {
+    case "number": {
+      const parsed = Number(text);
+      const min = field.min ?? 1;
+      if (!Number.isInteger(parsed)) {
+        return { error: `expected an integer, got "${text}"` };
+      }
+      return parsed < min ? { error: `must be at least ${min}, got ${parsed}` } : { value: parsed };
+    }
+    case "boolean": {
+      const normalized = text.toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) {
+        return { value: true };
+      }
+      if (FALSE_VALUES.includes(normalized)) {
+        return { value: false };
+      }
+      return { error: `expected one of ${[...TRUE_VALUES, ...FALSE_VALUES].join(", ")}` };
+    }
+    case "enum":
+      return field.values?.includes(text)
+        ? { value: text }
+        : { error: `expected one of ${field.values?.join(", ")}, got "${text}"` };
+    case "emails": {
+      const emails = parseEmails(text);
+      const invalid = emails.filter((email) => !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email));
+      return invalid.length > 0
+        ? { error: `invalid email address: ${invalid.join(", ")}` }
+        : { value: emails };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+function isPresent(value: unknown): boolean {
+  if (typeof value === "string") {
+    return value.trim().length > 0;
+  }
+  return value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0);
+}
+
+function readConfigFile(file: string, problems: ConfigProblem[]): Record<string, unknown> {
+  try {
+    const parsed = getRecord(JSON.parse(readFileSync(file, "utf8")));
+    if (!parsed || Array.isArray(parsed)) {
+      throw new Error("expected a JSON object of setting names to values");
+    }
+    return parsed;
+  } catch (error) {
+    problems.push({
+      level: "error",
+      setting: CONFIG_FILE_ENV,
+      message: `Could not read ${file}: ${error instanceof Error ? error.message : "unknown error"}`,
+    });
+    return {};
+  }
+}
+
+export function mailProvidersInUse(config: CrmConfig): MailProviderKind[] {
+  return [...new Set([config.mailProvider, ...Object.values(config.mailAccountProviders ?? {})])];
+}
+
+export function requiredSettings(config: CrmConfig, command: CrmCommand): ConfigKey[] {
+  const storage: ConfigKey[] =
+    config.storageBackend === "supabase" ? ["supabaseUrl", "supabaseSecretKey"] : [];
+  const attachments: ConfigKey[] =
+    config.attachmentStore === "supabase" && config.storageBackend !== "supabase"
+      ? ["supabaseUrl", "supabaseSecretKey"]
+      : [];
+  const providers = mailProvidersInUse(config);
+  const mail: ConfigKey[] = [
+    ...(providers.includes("gmail-api") ? (["gmailTokensFile"] as const) : []),
+    ...(providers.includes("imap") ? (["imapHost", "imapPassword"] as const) : []),
+    ...(providers.includes("graph")
+      ? (["graphTenantId", "graphClientId", "graphClientSecret"] as const)
+      : []),
+  ];
+  switch (command) {
+    case "fetch_sop":
+      return ["notionApiKey"];
+    case "poll_inboxes":
+    case "run_cycle":
+    case "serve_push":
+      return ["monitoredEmails", ...storage, ...attachments, ...mail];
+    case "approval_action":
+      return config.mailProvider === "imap"
+        ? [...storage, ...mail, "smtpHost"]
+        : [...storage, ...mail];
+    case "process_inbound":
+    case "reclassify":
+      return config.gmailLabelApply ? [...storage, ...mail] : storage;
+    case "migrate":
+      return config.storageBackend === "supabase" ? ["supabaseDbUrl"] : [];
+    default:
+      return storage;
+  }
+}
+
+export function resolveConfig(options: ConfigOptions = {}): ResolvedConfig {
+  const env = options.env ?? process.env;
+  const flags = options.flags ?? {};
+  const problems: ConfigProblem[] = [];
+
+  const file =
+    clean(typeof flags.config === "string" ? flags.config : undefined) ||
+    clean(env[CONFIG_FILE_ENV]);
+  const fileValues = file ? readConfigFile(file, problems) : {};
+
+  const values: Record<string, unknown> = {};
+  const sources = {} as ResolvedConfig["sources"];
+
+  for (const field of CONFIG_FIELDS) {
+    const names = [field.env, ...(field.aliases ?? []), ...(field.legacy ?? [])];
+    const candidates: Array<{ source: ConfigSource; name: string; raw: unknown }> = [];
+    if (field.flag && flags[field.flag] !== undefined) {
+      candidates.push({ source: "flag", name: `--${field.flag}`, raw: flags[field.flag] });
+    }
+    for (const name of names) {
+      candidates.push({ source: "env", name, raw: env[name] });
+    }
+    for (const name of names) {
+      candidates.push({ source: "file", name, raw: fileValues[name] });
+    }
+
+    const chosen = candidates.find((candidate) => isPresent(candidate.raw));
+    values[field.key] = field.default;
+    sources[field.key] = { source: field.default === undefined ? "unset" : "default" };
+    if (!chosen) {
+      continue;
+    }
+
+    const parsed = parseValue(field, chosen.raw);
+    if ("error" in parsed) {
+      problems.push({ level: "error", setting: chosen.name, message: parsed.error });
+      continue;
+    }
+    values[field.key] = parsed.value;
+    sources[field.key] = { source: chosen.source, name: chosen.name };
+
+    if (field.legacy?.includes(chosen.name)) {
+      problems.push({
+        level: "warning",
+        setting: chosen.name,
+        message: `${chosen.name} is a legacy name; rename it to ${field.env}`,
+      });
+    }
+  }
+
+  const known = new Set([
+    CONFIG_FILE_ENV,
+    ...CONFIG_FIELDS.flatMap((field) => [
+      field.env,
+      ...(field.aliases ?? []),
+      ...(field.legacy ?? []),
+    ]),
+  ]);
+  for (const name of Object.keys(env)) {
+    if (name.startsWith("CRM_") && !known.has(name)) {
+      problems.push({ level: "warning", setting: name, message: "Unknown setting (typo?)" });
+    }
+  }
+  for (const name of Object.keys(fileValues)) {
+    if (!known.has(name)) {
+      problems.push({
+        level: "warning",
+        setting: name,
+        message: `Unknown setting in ${file}`,
+      });
+    }
+  }
+
+  const config = values as CrmConfig;
+  const labels = labelNames(buildTaxonomy(config.classificationLabels));
+  for (const [account, profile] of Object.entries(config.mailboxProfiles ?? {})) {
+    const unknown = profile.classifications?.filter((label) => !labels.includes(label)) ?? [];
+    if (unknown.length > 0) {
+      problems.push({
+        level: "error",
+        setting: getConfigField("mailboxProfiles").env,
+        message: `${account}: unknown classification "${unknown.join(", ")}"; expected ${labels.join(", ")}`,
+      });
+    }
+  }
+  if (options.command) {
+    for (const key of requiredSettings(config, options.command)) {
+      if (!isPresent(config[key])) {
+        problems.push({
+          level: "error",
+          setting: getConfigField(key).env,
+          message: `Required by ${options.command}`,
+        });
+      }
+    }
+  }
+
+  return { config, file, sources, problems };
+}
+
+export function formatConfigProblems(problems: ConfigProblem[]): string {
+  return problems.map((problem) => `- ${problem.setting}: ${problem.message}`).join("\n");
+}
+
+export function loadConfig(options: ConfigOptions = {}): CrmConfig {
+  const resolved = resolveConfig(options);
+  const errors = resolved.problems.filter((problem) => problem.level === "error");
+  if (errors.length > 0) {
+    throw new Error(`Invalid CRM configuration:\n${formatConfigProblems(errors)}`);
+  }
+  configureRetryPolicies(resolved.config);
+  return resolved.config;
+}
+
+export function requireSetting<K extends ConfigKey>(
+  config: CrmConfig,
+  key: K,
+): NonNullable<CrmConfig[K]> {
+  const value = config[key];
+  if (!isPresent(value)) {
+    throw new Error(`${getConfigField(key).env} is required`);
+  }
+  return value as NonNullable<CrmConfig[K]>;
+}
+
+export function describeConfig(resolved: ResolvedConfig): ConfigEntry[] {
+  return CONFIG_FIELDS.map((field) => {
+    const value = resolved.config[field.key];
+    const { source, name } = resolved.sources[field.key];
+    return {
+      setting: field.env,
+      value: value === undefined ? null : field.secret ? "[redacted]" : value,
+      source,
+      ...(name && name !== field.env ? { from: name } : {}),
+    };
+  });
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from "node:crypto";
+
+import type { SlackClient, SlackMessage } from "./slack.ts";
+import type { StorageClient, StorageRequestOptions } from "./storage.ts";
+
+export type PlannedWrite =
+  | {
+      operation: "upsert";
+      table: string;
+      on_conflict: string;
+      row: Record<string, unknown>;
+    }
+  | {
+      operation: "patch";
+      table: string;
+      filters: Record<string, string>;
+      patch: Record<string, unknown>;
+    };
+
+export type PlannedLabelChange = {
+  account_email: string;
+  thread_id?: string;
+  add_labels: string[];
+  remove_labels: string[];
+};
+
+export type DryRunPlan = {
+  storage_writes: PlannedWrite[];
+  slack_messages: SlackMessage[];
+  label_changes: PlannedLabelChange[];
+};
+
+export function createDryRunPlan(): DryRunPlan {
+  return { storage_writes: [], slack_messages: [], label_changes: [] };
+}
+
+export function createRecordingStorageClient(
+  plan: DryRunPlan,
+  reader: StorageClient,
+): StorageClient {
+  return {
+    backend: "dry-run",
+    async request<T>(options: StorageRequestOptions): Promise<T> {
+      if (options.method !== "GET") {
+        throw new Error("Raw storage writes are not available in dry-run mode");
+      }
+      return reader.request<T>(options);
+    },
+    async select(table, query) {
+      return reader.select(table, query);
+    },
+    async upsertRow(table, onConflict, row) {
+      plan.storage_writes.push({ operation: "upsert", table, on_conflict: onConflict, row });
+      return { ...row, id: typeof row.id === "string" ? row.id : `dry-run:${randomUUID()}` };
+    },
+    async patchRows(table, filters, patch) {
+      plan.storage_writes.push({ operation: "patch", table, filters, patch });
+      return [];
+    },
+  };
+}
+
+export function createRecordingSlackClient(plan: DryRunPlan): SlackClient {
+  return {
+    async postMessage(message) {
+      plan.slack_messages.push(message);
+      return { posted: true };
+    },
+  };
+}
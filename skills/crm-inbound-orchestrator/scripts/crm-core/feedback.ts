@@ -0,0 +1,155 @@
+import { getOptionalString } from "./json.ts";
+import type { StorageClient } from "./storage.ts";
+import type { PollMessage } from "./types.ts";
+
+export type FeedbackSource = "approve" | "reject" | "reclassify";
+
+export type FeedbackExample = {
+  activity_id: string;
+  account_email: string;
+  source: FeedbackSource;
+  predicted_label?: string;
+  label: string;
+  reason?: string;
+  from_email?: string;
+  subject?: string;
+  snippet?: string;
+  updated_at?: string;
+};
+
+export type FeedbackEntry = FeedbackExample & {
+  draft_id?: string;
+  created_by?: string;
+};
+
+const FEEDBACK_COLUMNS = [
+  "activity_id",
+  "account_email",
+  "source",
+  "predicted_label",
+  "label",
+  "reason",
+  "from_email",
+  "subject",
+  "snippet",
+  "updated_at",
+];
+const MAX_FEEDBACK_ROWS = 500;
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "you",
+  "your",
+  "with",
+  "this",
+  "that",
+  "are",
+  "from",
+  "have",
+  "our",
+  "can",
+  "will",
+  "would",
+  "about",
+  "hello",
+  "thanks",
+]);
+
+export async function recordClassificationFeedback(
+  storage: StorageClient,
+  table: string,
+  entry: FeedbackEntry,
+): Promise<void> {
+  await storage.upsertRow(table, "activity_id", {
+    ...entry,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+export async function loadFeedbackExamples(
+  storage: StorageClient,
+  table: string,
+  options: { lookbackDays: number; limit?: number },
+): Promise<FeedbackExample[]> {
+  const since = new Date(Date.now() - options.lookbackDays * 24 * 60 * 60 * 1000);
+  const query = new URLSearchParams();
+  query.set("select", FEEDBACK_COLUMNS.join(","));
+  query.set("updated_at", `gte.${since.toISOString()}`);
+  query.set("order", "updated_at.desc");
+  query.set("limit", String(options.limit ?? MAX_FEEDBACK_ROWS));
+
+  const examples: FeedbackExample[] = [];
+  for (const row of await storage.select(table, query)) {
+    const activityId = getOptionalString(row, "activity_id");
+    const label = getOptionalString(row, "label");
+    if (!activityId || !label) {
+      continue;
+    }
+    examples.push({
+      activity_id: activityId,
+      account_email: getOptionalString(row, "account_email") ?? "",
+      source: (getOptionalString(row, "source") ?? "reclassify") as FeedbackSource,
+      predicted_label: getOptionalString(row, "predicted_label"),
+      label,
+      reason: getOptionalString(row, "reason"),
+      from_email: getOptionalString(row, "from_email"),
+      subject: getOptionalString(row, "subject"),
+      snippet: getOptionalString(row, "snippet"),
+      updated_at: getOptionalString(row, "updated_at"),
+    });
+  }
+  return examples;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9][a-z0-9'-]{2,}/g) ?? []).filter(
+      (word) => !STOP_WORDS.has(word),
+    ),
+  );
+}
+
+function senderDomain(from: string | undefined): string | undefined {
+  return from?.match(/@([a-z0-9.-]+\.[a-z]{2,})/i)?.[1].toLowerCase();
+}
+
+export function pickFeedbackExamples(
+  examples: FeedbackExample[],
+  message: PollMessage,
+  options: { limit: number; excludeActivityId?: string },
+): FeedbackExample[] {
+  if (options.limit <= 0 || examples.length === 0) {
+    return [];
+  }
+
+  const words = tokenize(`${message.subject ?? ""} ${message.body_text || message.snippet || ""}`);
+  const domain = senderDomain(message.from);
+  const scored: Array<{ example: FeedbackExample; score: number }> = [];
+  for (const example of examples) {
+    if (example.activity_id === options.excludeActivityId) {
+      continue;
+    }
+    const exampleWords = tokenize(`${example.subject ?? ""} ${example.snippet ?? ""}`);
+    let shared = 0;
+    for (const word of exampleWords) {
+      shared += words.has(word) ? 1 : 0;
+    }
+    const union = words.size + exampleWords.size - shared;
+    let score = union === 0 ? 0 : shared / union;
+    if (domain && domain === senderDomain(example.from_email)) {
+      score += 0.3;
+    }
+    if (score > 0 && example.account_email === message.account_email) {
+      score += 0.05;
+    }
+    if (score > 0) {
+      scored.push({ example, score });
+    }
+  }
+
+  return scored
+    .sort((left, right) => right.score - left.score)
+    .slice(0, options.limit)
+    .map((entry) => entry.example);
+}
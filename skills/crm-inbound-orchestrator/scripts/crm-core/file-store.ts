@@ -0,0 +1,107 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { loadConfig, type CrmConfig } from "./config.ts";
+import { fetchWithRetry } from "./retry.ts";
+
+export type StoredFile = {
+  key: string;
+  url?: string;
+};
+
+export type FileStore = {
+  kind: "local" | "supabase";
+  put(key: string, content: Buffer, contentType: string): Promise<StoredFile>;
+  get(key: string): Promise<Buffer>;
+};
+
+function safeKey(key: string): string {
+  return key
+    .split("/")
+    .map((segment) => segment.replace(/[^\w.@+-]+/g, "_").replace(/^\.+/, "_"))
+    .filter(Boolean)
+    .join("/");
+}
+
+export function createLocalFileStore(dir: string): FileStore {
+  const root = path.resolve(dir);
+
+  return {
+    kind: "local",
+    async put(key, content) {
+      const stored = safeKey(key);
+      const file = path.join(root, stored);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, content);
+      return { key: stored, url: `file://${file}` };
+    },
+    async get(key) {
+      return readFile(path.join(root, safeKey(key)));
+    },
+  };
+}
+
+export function createSupabaseFileStore(options: {
+  supabaseUrl: string;
+  serviceKey: string;
+  bucket: string;
+}): FileStore {
+  const baseUrl = options.supabaseUrl.replace(/\/+$/, "");
+  const headers = {
+    apikey: options.serviceKey,
+    Authorization: `Bearer ${options.serviceKey}`,
+  };
+
+  function objectUrl(key: string): string {
+    return `${baseUrl}/storage/v1/object/${encodeURIComponent(options.bucket)}/${key
+      .split("/")
+      .map(encodeURIComponent)
+      .join("/")}`;
+  }
+
+  return {
+    kind: "supabase",
+    async put(key, content, contentType) {
+      const stored = safeKey(key);
+      const response = await fetchWithRetry("supabase", "POST storage object", objectUrl(stored), {
+        method: "POST",
+        headers: { ...headers, "Content-Type": contentType, "x-upsert": "true" },
+        body: new Uint8Array(content),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Supabase storage upload failed (${response.status}): ${await response.text()}`,
+        );
+      }
+      return { key: stored, url: `supabase://${options.bucket}/${stored}` };
+    },
+    async get(key) {
+      const response = await fetchWithRetry(
+        "supabase",
+        "GET storage object",
+        objectUrl(safeKey(key)),
+        { method: "GET", headers },
+      );
+      if (!response.ok) {
+        throw new Error(
+          `Supabase storage download failed (${response.status}): ${await response.text()}`,
+        );
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+  };
+}
+
+export function createFileStoreFromConfig(config: CrmConfig = loadConfig()): FileStore | undefined {
+  if (config.attachmentStore === "local") {
+    return createLocalFileStore(config.attachmentDir);
+  }
+  if (config.attachmentStore === "supabase") {
+    const { supabaseUrl, supabaseSecretKey: serviceKey } = config;
+    if (!supabaseUrl || !serviceKey) {
+      throw new Error("SUPABASE_URL and SUPABASE_SECRET_KEY are required for attachment storage");
+    }
+    return createSupabaseFileStore({ supabaseUrl, serviceKey, bucket: config.attachmentBucket });
+  }
+  return undefined;
+}
@@ -0,0 +1,533 @@
+import { readFile } from "node:fs/promises";
+
+import { htmlToText } from "./body.ts";
+import { getRecord } from "./json.ts";
+import {
+  buildMimeMessage,
+  buildReferences,
+  decodeBase64Url,
+  encodeBase64Url,
+  parseMailQuery,
+  type MailAttachment,
+  type MailChanges,
+  type MailMessage,
+  type MailProvider,
+  type MailSearch,
+  type OutgoingMail,
+  type SentMail,
+} from "./mail.ts";
+import { fetchWithRetry, resolveRetryPolicy, type RetryPolicy } from "./retry.ts";
+
+type GmailCredentials = {
+  refresh_token?: string;
+  access_token?: string;
+};
+
+type GmailFormat = "full" | "metadata";
+
+export const DEFAULT_GMAIL_API_BASE = "https://gmail.googleapis.com";
+
+const GMAIL_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const FETCH_CONCURRENCY = 8;
+const GMAIL_SYSTEM_LABELS = [
+  "INBOX",
+  "SPAM",
+  "TRASH",
+  "SENT",
+  "DRAFT",
+  "UNREAD",
+  "STARRED",
+  "IMPORTANT",
+];
+
+function findHeader(headers: unknown, name: string): string | undefined {
+  if (!Array.isArray(headers)) {
+    return undefined;
+  }
+  for (const header of headers) {
+    const record = getRecord(header);
+    if (
+      record &&
+      typeof record.name === "string" &&
+      record.name.toLowerCase() === name &&
+      typeof record.value === "string"
+    ) {
+      return record.value;
+    }
+  }
+  return undefined;
+}
+
+function collectParts(part: Record<string, unknown>, mimeType: string, out: string[]): void {
+  const body = getRecord(part.body);
+  if (part.mimeType === mimeType && typeof body?.data === "string") {
+    out.push(decodeBase64Url(body.data).toString("utf8"));
+  }
+  if (Array.isArray(part.parts)) {
+    for (const child of part.parts) {
+      const record = getRecord(child);
+      if (record) {
+        collectParts(record, mimeType, out);
+      }
+    }
+  }
+}
+
+function extractGmailBody(payload: Record<string, unknown> | undefined): string | undefined {
+  if (!payload) {
+    return undefined;
+  }
+  const plain: string[] = [];
+  collectParts(payload, "text/plain", plain);
+  if (plain.length > 0) {
+    return plain.join("\n").trim() || undefined;
+  }
+  const html: string[] = [];
+  collectParts(payload, "text/html", html);
+  return html.length > 0 ? htmlToText(html.join("\n")) || undefined : undefined;
+}
+
+export function gmailAttachments(payload: Record<string, unknown> | undefined): MailAttachment[] {
+  const attachments: MailAttachment[] = [];
+  const walk = (part: Record<string, unknown>) => {
+    const body = getRecord(part.body);
+    const filename = typeof part.filename === "string" ? part.filename : "";
+    const attachmentId = typeof body?.attachmentId === "string" ? body.attachmentId : undefined;
+    if (filename || attachmentId) {
+      attachments.push({
+        id: attachmentId,
+        filename: filename || undefined,
+        mimeType: typeof part.mimeType === "string" ? part.mimeType : "application/octet-stream",
+        size: typeof body?.size === "number" ? body.size : 0,
+        contentId: findHeader(part.headers, "content-id")?.replace(/^<|>$/g, ""),
+        inline: /^\s*inline/i.test(findHeader(part.headers, "content-disposition") ?? ""),
+        content:
+          !attachmentId && typeof body?.data === "string" ? decodeBase64Url(body.data) : undefined,
+      });
+    }
+    for (const child of Array.isArray(part.parts) ? part.parts : []) {
+      const record = getRecord(child);
+      if (record) {
+        walk(record);
+      }
+    }
+  };
+  if (payload) {
+    walk(payload);
+  }
+  return attachments;
+}
+
+export function parseGmailMessage(resource: Record<string, unknown>): MailMessage | undefined {
+  if (typeof resource.id !== "string") {
+    return undefined;
+  }
+  const payload = getRecord(resource.payload);
+  const headers = payload?.headers;
+  const internalTs = Number(resource.internalDate);
+
+  return {
+    id: resource.id,
+    threadId: typeof resource.threadId === "string" ? resource.threadId : undefined,
+    subject: findHeader(headers, "subject"),
+    from: findHeader(headers, "from"),
+    to: findHeader(headers, "to"),
+    snippet: typeof resource.snippet === "string" ? resource.snippet : undefined,
+    bodyText: extractGmailBody(payload),
+    internalTs: Number.isFinite(internalTs) && internalTs > 0 ? internalTs : undefined,
+    messageIdHeader: findHeader(headers, "message-id"),
+    references: findHeader(headers, "references"),
+    labelIds: Array.isArray(resource.labelIds)
+      ? resource.labelIds.filter((entry): entry is string => typeof entry === "string")
+      : undefined,
+    attachments: gmailAttachments(payload),
+    raw: resource,
+  };
+}
+
+export function matchesGmailLabels(labelIds: string[] | undefined, query: string): boolean {
+  const labels = new Set((labelIds ?? []).map((label) => label.toUpperCase()));
+  return parseMailQuery(query).every(({ operator, value, negated }) => {
+    const name = value.toUpperCase();
+    switch (operator) {
+      case "in":
+      case "is":
+        if (name === "READ") {
+          return labels.has("UNREAD") === negated;
+        }
+        return GMAIL_SYSTEM_LABELS.includes(name) ? labels.has(name) !== negated : true;
+      case "category":
+        return labels.has(`CATEGORY_${name}`) !== negated;
+      default:
+        return true;
+    }
+  });
+}
+
+function needsGmailSearch(query: string): boolean {
+  return parseMailQuery(query).some(({ operator, value }) => {
+    const name = value.toUpperCase();
+    switch (operator) {
+      case "in":
+      case "is":
+        return name !== "READ" && !GMAIL_SYSTEM_LABELS.includes(name);
+      case "category":
+        return false;
+      default:
+        return true;
+    }
+  });
+}
+
+export function createGmailApiProvider(options: {
+  tokensFile: string;
+  clientId?: string;
+  clientSecret?: string;
+  apiBase?: string;
+}): MailProvider {
+  const apiBase = (options.apiBase || DEFAULT_GMAIL_API_BASE).replace(/\/+$/, "");
+  const accessTokens = new Map<string, { token: string; expiresAt: number }>();
+  const labelIds = new Map<string, string>();
+  let credentials: Promise<Record<string, GmailCredentials>> | undefined;
+
+  async function loadCredentials(account: string): Promise<GmailCredentials> {
+    credentials ??= readFile(options.tokensFile, "utf8").then((text) => {
+      const parsed = getRecord(JSON.parse(text)) ?? {};
+      return Object.fromEntries(
+        Object.entries(parsed).map(([key, value]) => [
+          key.toLowerCase(),
+          typeof value === "string" ? { refresh_token: value } : (getRecord(value) ?? {}),
+        ]),
+      ) as Record<string, GmailCredentials>;
+    });
+    const entry = (await credentials)[account.toLowerCase()];
+    if (!entry?.refresh_token && !entry?.access_token) {
+      throw new Error(`No Gmail credentials for ${account} in ${options.tokensFile}`);
+    }
+    return entry;
+  }
+
+  async function accessToken(account: string): Promise<string> {
+    const cached = accessTokens.get(account);
+    if (cached && cached.expiresAt > Date.now() + 60_000) {
+      return cached.token;
+    }
+
+    const entry = await loadCredentials(account);
+    if (!entry.refresh_token) {
+      return entry.access_token as string;
+    }
+    if (!options.clientId || !options.clientSecret) {
+      throw new Error(
+        "CRM_GMAIL_CLIENT_ID and CRM_GMAIL_CLIENT_SECRET are required to refresh Gmail tokens",
+      );
+    }
+
+    const response = await fetchWithRetry("gmail", `token ${account}`, GMAIL_TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: options.clientId,
+        client_secret: options.clientSecret,
+        refresh_token: entry.refresh_token,
+        grant_type: "refresh_token",
+      }).toString(),
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Gmail token refresh for ${account} failed (${response.status}): ${text}`);
+    }
+
+    const data = getRecord(JSON.parse(text)) ?? {};
+    if (typeof data.access_token !== "string") {
+      throw new Error(`Gmail token refresh for ${account} returned no access_token`);
+    }
+    const expiresIn = typeof data.expires_in === "number" ? data.expires_in : 3600;
+    accessTokens.set(account, {
+      token: data.access_token,
+      expiresAt: Date.now() + expiresIn * 1000,
+    });
+    return data.access_token;
+  }
+
+  async function request(
+    account: string,
+    method: "GET" | "POST",
+    resource: string,
+    init: {
+      query?: URLSearchParams;
+      body?: unknown;
+      policy?: RetryPolicy;
+      notFound?: Record<string, unknown>;
+    } = {},
+  ): Promise<Record<string, unknown>> {
+    const suffix = init.query ? `?${init.query.toString()}` : "";
+    const response = await fetchWithRetry(
+      "gmail",
+      `${method} ${resource}`,
+      `${apiBase}/gmail/v1/users/me/${resource}${suffix}`,
+      {
+        method,
+        headers: {
+          Authorization: `Bearer ${await accessToken(account)}`,
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      },
+      init.policy,
+    );
+
+    const text = await response.text();
+    if (response.status === 404 && init.notFound) {
+      return init.notFound;
+    }
+    if (!response.ok) {
+      throw new Error(`Gmail ${method} ${resource} failed (${response.status}): ${text}`);
+    }
+    return (text.trim() ? getRecord(JSON.parse(text)) : undefined) ?? {};
+  }
+
+  async function fetchMessage(
+    account: string,
+    messageId: string,
+    format: GmailFormat,
+    notFound?: Record<string, unknown>,
+  ): Promise<MailMessage | undefined> {
+    const query = new URLSearchParams();
+    query.set("format", format);
+    return parseGmailMessage(
+      await request(account, "GET", `messages/${encodeURIComponent(messageId)}`, {
+        query,
+        notFound,
+      }),
+    );
+  }
+
+  async function fetchMessages(
+    account: string,
+    ids: string[],
+    format: GmailFormat,
+    notFound?: Record<string, unknown>,
+  ): Promise<MailMessage[]> {
+    const messages: MailMessage[] = [];
+    for (let index = 0; index < ids.length; index += FETCH_CONCURRENCY) {
+      const batch = await Promise.all(
+        ids
+          .slice(index, index + FETCH_CONCURRENCY)
+          .map((id) => fetchMessage(account, id, format, notFound)),
+      );
+      messages.push(...batch.filter((message): message is MailMessage => Boolean(message)));
+    }
+    return messages;
+  }
+
+  async function searchIds(account: string, q: string, maxResults: number): Promise<string[]> {
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const query = new URLSearchParams();
+      query.set("q", q);
+      query.set("maxResults", String(Math.min(maxResults - ids.length, 500)));
+      if (pageToken) {
+        query.set("pageToken", pageToken);
+      }
+      const page = await request(account, "GET", "messages", { query });
+      for (const entry of Array.isArray(page.messages) ? page.messages : []) {
+        const id = getRecord(entry)?.id;
+        if (typeof id === "string") {
+          ids.push(id);
+        }
+      }
+      pageToken = typeof page.nextPageToken === "string" ? page.nextPageToken : undefined;
+    } while (pageToken && ids.length < maxResults);
+    return ids;
+  }
+
+  async function searchMessages(search: MailSearch): Promise<MailMessage[]> {
+    const ids = await searchIds(search.account, search.query, search.maxResults);
+    return fetchMessages(search.account, ids, search.includeBody === false ? "metadata" : "full");
+  }
+
+  async function currentCursor(account: string): Promise<string | undefined> {
+    const profile = await request(account, "GET", "profile");
+    return profile.historyId === undefined ? undefined : String(profile.historyId);
+  }
+
+  async function listChanges(account: string, cursor: string, query = ""): Promise<MailChanges> {
+    const ids = new Set<string>();
+    let latest = cursor;
+    let pageToken: string | undefined;
+    do {
+      const query = new URLSearchParams();
+      query.set("startHistoryId", cursor);
+      query.set("historyTypes", "messageAdded");
+      query.set("labelId", "INBOX");
+      query.set("maxResults", "500");
+      if (pageToken) {
+        query.set("pageToken", pageToken);
+      }
+      const page = await request(account, "GET", "history", { query, notFound: {} });
+      if (page.historyId === undefined) {
+        return { messages: [], expired: true };
+      }
+      for (const entry of Array.isArray(page.history) ? page.history : []) {
+        const added = getRecord(entry)?.messagesAdded;
+        for (const item of Array.isArray(added) ? added : []) {
+          const id = getRecord(getRecord(item)?.message)?.id;
+          if (typeof id === "string") {
+            ids.add(id);
+          }
+        }
+      }
+      latest = String(page.historyId);
+      pageToken = typeof page.nextPageToken === "string" ? page.nextPageToken : undefined;
+    } while (pageToken);
+
+    const messages = (await fetchMessages(account, [...ids], "full", {})).filter((message) =>
+      matchesGmailLabels(message.labelIds, query),
+    );
+    let matched: Set<string> | undefined;
+    if (messages.length > 0 && needsGmailSearch(query)) {
+      const oldest = Math.min(...messages.map((message) => message.internalTs ?? 0));
+      const after = Math.max(Math.floor(oldest / 1000) - 1, 0);
+      matched = new Set(await searchIds(account, `${query} after:${after}`, Infinity));
+    }
+    return {
+      messages: messages
+        .filter((message) => !matched || matched.has(message.id))
+        .sort((left, right) => (left.internalTs ?? 0) - (right.internalTs ?? 0)),
+      cursor: latest,
+    };
+  }
+
+  async function getAttachment(
+    account: string,
+    messageId: string,
+    attachment: MailAttachment,
+  ): Promise<Buffer> {
+    if (attachment.content) {
+      return attachment.content;
+    }
+    if (!attachment.id) {
+      throw new Error(`Gmail attachment ${attachment.filename ?? ""} has no attachment id`);
+    }
+    const data = await request(
+      account,
+      "GET",
+      `messages/${encodeURIComponent(messageId)}/attachments/${encodeURIComponent(attachment.id)}`,
+    );
+    if (typeof data.data !== "string") {
+      throw new Error(`Gmail attachment ${attachment.id} returned no data`);
+    }
+    return decodeBase64Url(data.data);
+  }
+
+  async function findLabel(account: string, labelName: string): Promise<string | undefined> {
+    const cacheKey = `${account}:${labelName.toLowerCase()}`;
+    const cached = labelIds.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const list = await request(account, "GET", "labels");
+    const id = (Array.isArray(list.labels) ? list.labels : [])
+      .map((entry) => getRecord(entry))
+      .find(
+        (entry) =>
+          typeof entry?.name === "string" && entry.name.toLowerCase() === labelName.toLowerCase(),
+      )?.id;
+    if (typeof id !== "string") {
+      return undefined;
+    }
+    labelIds.set(cacheKey, id);
+    return id;
+  }
+
+  async function ensureLabel(account: string, labelName: string): Promise<string> {
+    const existing = await findLabel(account, labelName);
+    if (existing) {
+      return existing;
+    }
+
+    const created = await request(account, "POST", "labels", {
+      body: {
+        name: labelName,
+        labelListVisibility: "labelShow",
+        messageListVisibility: "show",
+      },
+    });
+    if (typeof created.id !== "string") {
+      throw new Error(`Gmail label ${labelName} could not be resolved for ${account}`);
+    }
+    labelIds.set(`${account}:${labelName.toLowerCase()}`, created.id);
+    return created.id;
+  }
+
+  async function labelThread(account: string, threadId: string, labelNames: string[]) {
+    const addLabelIds: string[] = [];
+    for (const labelName of labelNames) {
+      addLabelIds.push(await ensureLabel(account, labelName));
+    }
+    await request(account, "POST", `threads/${encodeURIComponent(threadId)}/modify`, {
+      body: { addLabelIds },
+    });
+  }
+
+  async function unlabelThread(account: string, threadId: string, labelNames: string[]) {
+    const removeLabelIds: string[] = [];
+    for (const labelName of labelNames) {
+      const id = await findLabel(account, labelName);
+      if (id) {
+        removeLabelIds.push(id);
+      }
+    }
+    if (removeLabelIds.length === 0) {
+      return;
+    }
+    await request(account, "POST", `threads/${encodeURIComponent(threadId)}/modify`, {
+      body: { removeLabelIds },
+    });
+  }
+
+  async function sendMessage(account: string, mail: OutgoingMail): Promise<SentMail> {
+    const original = mail.replyToMessageId
+      ? await fetchMessage(account, mail.replyToMessageId, "metadata")
+      : undefined;
+
+    const raw = buildMimeMessage({
+      from: account,
+      to: mail.to,
+      subject: mail.subject,
+      body: mail.body,
+      messageId: mail.messageId,
+      inReplyTo: original?.messageIdHeader,
+      references: original ? buildReferences(original) : undefined,
+    });
+
+    const sent = await request(account, "POST", "messages/send", {
+      body: {
+        raw: encodeBase64Url(raw),
+        ...(original?.threadId ? { threadId: original.threadId } : {}),
+      },
+      policy: { ...resolveRetryPolicy("gmail"), retryStatuses: [429], retryNetworkErrors: false },
+    });
+
+    return {
+      id: typeof sent.id === "string" ? sent.id : undefined,
+      threadId: typeof sent.threadId === "string" ? sent.threadId : undefined,
+    };
+  }
+
+  return {
+    kind: "gmail-api",
+    searchMessages,
+    listChanges,
+    currentCursor,
+    getMessage: (account, messageId) => fetchMessage(account, messageId, "full"),
+    getAttachment,
+    labelThread,
+    unlabelThread,
+    sendMessage,
+  };
+}
@@ -0,0 +1,335 @@
+import { execFile } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+
+import { bodyToText } from "./body.ts";
+import { gmailAttachments } from "./gmail.ts";
+import { getRecord, getString } from "./json.ts";
+import {
+  decodeBase64Url,
+  type MailMessage,
+  type MailProvider,
+  type MailSearch,
+  type OutgoingMail,
+  type SentMail,
+} from "./mail.ts";
+
+const execFileAsync = promisify(execFile);
+
+function getEpochMillis(record: Record<string, unknown>): number | undefined {
+  const candidates = [record.internalDate, record.internal_date, record.receivedAt, record.date];
+  for (const candidate of candidates) {
+    if (typeof candidate === "number" && Number.isFinite(candidate)) {
+      if (candidate > 1_000_000_000_000) {
+        return candidate;
+      }
+      if (candidate > 1_000_000_000) {
+        return candidate * 1000;
+      }
+    }
+    if (typeof candidate === "string" && candidate.trim()) {
+      if (/^\d+$/.test(candidate.trim())) {
+        const parsed = Number.parseInt(candidate.trim(), 10);
+        if (Number.isFinite(parsed)) {
+          if (parsed > 1_000_000_000_000) {
+            return parsed;
+          }
+          if (parsed > 1_000_000_000) {
+            return parsed * 1000;
+          }
+        }
+      }
+      const parsedDate = Date.parse(candidate);
+      if (Number.isFinite(parsedDate)) {
+        return parsedDate;
+      }
+    }
+  }
+  return undefined;
+}
+
+function decodeBase64UrlText(value: string): string | undefined {
+  const compact = value.trim();
+  if (compact.length < 24 || !/^[A-Za-z0-9+/_=-]+$/.test(compact)) {
+    return undefined;
+  }
+
+  try {
+    const decoded = decodeBase64Url(compact).toString("utf8");
+    const cleaned = bodyToText(decoded);
+    if (!cleaned) {
+      return undefined;
+    }
+    const printableRatio =
+      cleaned.replace(/[^\x09\x0A\x0D\x20-\x7E]/g, "").length / Math.max(cleaned.length, 1);
+    if (printableRatio < 0.75) {
+      return undefined;
+    }
+    return cleaned;
+  } catch {
+    return undefined;
+  }
+}
+
+function collectBodyText(value: unknown, out: string[], depth = 0): void {
+  if (depth > 5 || out.length > 40 || value === undefined || value === null) {
+    return;
+  }
+
+  if (typeof value === "string") {
+    const cleaned = bodyToText(value);
+    if (cleaned) {
+      out.push(cleaned);
+    }
+    const decoded = decodeBase64UrlText(value);
+    if (decoded) {
+      out.push(decoded);
+    }
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collectBodyText(item, out, depth + 1);
+    }
+    return;
+  }
+
+  const record = getRecord(value);
+  if (!record) {
+    return;
+  }
+
+  const keys = [
+    "snippet",
+    "preview",
+    "bodySnippet",
+    "body",
+    "textBody",
+    "plainTextBody",
+    "bodyText",
+    "content",
+    "text",
+    "value",
+    "data",
+    "payload",
+    "parts",
+    "mimeParts",
+    "message",
+    "messages",
+    "raw",
+  ];
+  for (const key of keys) {
+    if (key in record) {
+      collectBodyText(record[key], out, depth + 1);
+    }
+  }
+}
+
+function extractBodyText(raw: Record<string, unknown>): string | undefined {
+  const segments: string[] = [];
+  collectBodyText(raw, segments, 0);
+  if (segments.length === 0) {
+    return undefined;
+  }
+
+  const unique = Array.from(new Set(segments.map((segment) => segment.trim()).filter(Boolean)));
+  if (unique.length === 0) {
+    return undefined;
+  }
+
+  unique.sort((a, b) => b.length - a.length);
+  return unique[0]?.slice(0, 4_000);
+}
+
+export function parseGogMessages(rawJson: string): Record<string, unknown>[] {
+  const parsed = JSON.parse(rawJson) as unknown;
+
+  if (Array.isArray(parsed)) {
+    return parsed.filter((item): item is Record<string, unknown> => Boolean(getRecord(item)));
+  }
+
+  const record = getRecord(parsed);
+  if (!record) {
+    return [];
+  }
+
+  const listCandidates = [
+    record.messages,
+    record.items,
+    record.data,
+    record.results,
+    record.rows,
+    record.threads,
+  ];
+
+  for (const candidate of listCandidates) {
+    if (!Array.isArray(candidate)) {
+      continue;
+    }
+    return candidate.filter((item): item is Record<string, unknown> => Boolean(getRecord(item)));
+  }
+
+  return [];
+}
+
+export function normalizeGogMessage(raw: Record<string, unknown>): MailMessage | undefined {
+  const id = getString(raw, ["id", "messageId", "message_id"]);
+  if (!id) {
+    return undefined;
+  }
+
+  const bodyText = extractBodyText(raw);
+  return {
+    id,
+    threadId: getString(raw, ["threadId", "thread_id"]),
+    subject: getString(raw, ["subject"]),
+    from: getString(raw, ["from", "sender"]),
+    to: getString(raw, ["to"]),
+    snippet: getString(raw, ["snippet", "preview", "bodySnippet"]) || bodyText?.slice(0, 600),
+    bodyText,
+    internalTs: getEpochMillis(raw),
+    attachments: gmailAttachments(getRecord(raw.payload)),
+    raw,
+  };
+}
+
+export async function searchGogMessages(args: MailSearch): Promise<Record<string, unknown>[]> {
+  const commandArgs = [
+    "gmail",
+    "messages",
+    "search",
+    args.query,
+    "--max",
+    String(args.maxResults),
+    "--account",
+    args.account,
+    "--json",
+    "--no-input",
+  ];
+  if (args.includeBody !== false) {
+    commandArgs.push("--include-body");
+  }
+
+  const { stdout } = await execFileAsync("gog", commandArgs, {
+    maxBuffer: 15 * 1024 * 1024,
+  });
+
+  return parseGogMessages(stdout);
+}
+
+export function createGogMailProvider(): MailProvider {
+  const ensuredLabels = new Set<string>();
+
+  async function gog(args: string[], maxBuffer = 4 * 1024 * 1024): Promise<string> {
+    const { stdout } = await execFileAsync("gog", [...args, "--json", "--no-input"], {
+      maxBuffer,
+    });
+    return stdout;
+  }
+
+  async function searchMessages(search: MailSearch): Promise<MailMessage[]> {
+    return (await searchGogMessages(search))
+      .map((row) => normalizeGogMessage(row))
+      .filter((message): message is MailMessage => Boolean(message));
+  }
+
+  async function getMessage(account: string, messageId: string) {
+    const parsed = getRecord(
+      JSON.parse(await gog(["gmail", "get", messageId, "--account", account], 15 * 1024 * 1024)),
+    );
+    const message = getRecord(parsed?.message) ?? parsed;
+    return message ? normalizeGogMessage(message) : undefined;
+  }
+
+  async function ensureLabel(account: string, labelName: string): Promise<void> {
+    const cacheKey = `${account}:${labelName.toLowerCase()}`;
+    if (ensuredLabels.has(cacheKey)) {
+      return;
+    }
+
+    try {
+      await gog(["gmail", "labels", "get", labelName, "--account", account]);
+    } catch {
+      await gog(["gmail", "labels", "create", labelName, "--account", account]);
+    }
+    ensuredLabels.add(cacheKey);
+  }
+
+  async function labelThread(account: string, threadId: string, labelNames: string[]) {
+    for (const labelName of labelNames) {
+      await ensureLabel(account, labelName);
+    }
+    await gog([
+      "gmail",
+      "labels",
+      "modify",
+      threadId,
+      ...labelNames.flatMap((labelName) => ["--add", labelName]),
+      "--account",
+      account,
+    ]);
+  }
+
+  async function unlabelThread(account: string, threadId: string, labelNames: string[]) {
+    await gog([
+      "gmail",
+      "labels",
+      "modify",
+      threadId,
+      ...labelNames.flatMap((labelName) => ["--remove", labelName]),
+      "--account",
+      account,
+    ]);
+  }
+
+  async function sendMessage(account: string, mail: OutgoingMail): Promise<SentMail> {
+    const tempDir = await mkdtemp(path.join(tmpdir(), "crm-draft-"));
+    const bodyPath = path.join(tempDir, `${randomUUID()}.txt`);
+
+    try {
+      await writeFile(bodyPath, mail.body, "utf8");
+      const stdout = await gog(
+        [
+          "gmail",
+          "send",
+          "--account",
+          account,
+          "--to",
+          mail.to,
+          "--subject",
+          mail.subject,
+          "--body-file",
+          bodyPath,
+          ...(mail.replyToMessageId ? ["--reply-to-message-id", mail.replyToMessageId] : []),
+        ],
+        10 * 1024 * 1024,
+      );
+      try {
+        const parsed = getRecord(JSON.parse(stdout));
+        return parsed
+          ? {
+              id: getString(parsed, ["id", "messageId", "message_id"]),
+              threadId: getString(parsed, ["threadId", "thread_id"]),
+            }
+          : {};
+      } catch {
+        return {};
+      }
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  return {
+    kind: "gog",
+    searchMessages,
+    getMessage,
+    labelThread,
+    unlabelThread,
+    sendMessage,
+  };
+}
@@ -0,0 +1,512 @@
+import { getRecord } from "./json.ts";
+import {
+  parseMailQuery,
+  parseMailQueryDate,
+  type MailAttachment,
+  type MailChanges,
+  type MailMessage,
+  type MailProvider,
+  type MailSearch,
+  type OutgoingMail,
+  type SentMail,
+} from "./mail.ts";
+import { fetchWithRetry, resolveRetryPolicy, type RetryPolicy } from "./retry.ts";
+
+type GraphFilter = {
+  folder: string;
+  filters: string[];
+};
+
+export const DEFAULT_GRAPH_API_BASE = "https://graph.microsoft.com";
+export const DEFAULT_GRAPH_AUTH_BASE = "https://login.microsoftonline.com";
+
+const GRAPH_PAGE_SIZE = 100;
+const GRAPH_DEFAULT_PREFER = 'IdType="ImmutableId", outlook.body-content-type="text"';
+const GRAPH_MESSAGE_FIELDS = [
+  "id",
+  "conversationId",
+  "subject",
+  "from",
+  "toRecipients",
+  "bodyPreview",
+  "body",
+  "receivedDateTime",
+  "internetMessageId",
+  "categories",
+  "isRead",
+  "hasAttachments",
+].join(",");
+
+function odataString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export function buildGraphFilter(query: string): GraphFilter {
+  const plan: GraphFilter = { folder: "inbox", filters: [] };
+  const dateFilters: string[] = [];
+  for (const { operator, value, negated } of parseMailQuery(query)) {
+    if (negated) {
+      continue;
+    }
+
+    switch (operator) {
+      case "in":
+        plan.folder =
+          value.toLowerCase() === "sent"
+            ? "sentitems"
+            : value.toLowerCase() === "inbox"
+              ? "inbox"
+              : value;
+        break;
+      case "is":
+        if (value === "unread" || value === "read") {
+          plan.filters.push(`isRead eq ${value === "read"}`);
+        } else if (value === "starred") {
+          plan.filters.push("flag/flagStatus eq 'flagged'");
+        }
+        break;
+      case "from":
+        plan.filters.push(`from/emailAddress/address eq ${odataString(value)}`);
+        break;
+      case "to":
+        plan.filters.push(
+          `toRecipients/any(recipient:recipient/emailAddress/address eq ${odataString(value)})`,
+        );
+        break;
+      case "subject":
+        plan.filters.push(`contains(subject,${odataString(value)})`);
+        break;
+      case "rfc822msgid":
+        plan.filters.push(`internetMessageId eq ${odataString(value)}`);
+        break;
+      case "after": {
+        const afterMs = parseMailQueryDate(value);
+        if (afterMs !== undefined) {
+          dateFilters.push(`receivedDateTime ge ${new Date(afterMs).toISOString()}`);
+        }
+        break;
+      }
+      case "before": {
+        const beforeMs = parseMailQueryDate(value);
+        if (beforeMs !== undefined) {
+          dateFilters.push(`receivedDateTime lt ${new Date(beforeMs).toISOString()}`);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  plan.filters = [...dateFilters, ...plan.filters];
+  return plan;
+}
+
+function formatRecipient(value: unknown): string | undefined {
+  const address = getRecord(getRecord(value)?.emailAddress);
+  if (typeof address?.address !== "string") {
+    return undefined;
+  }
+  return typeof address.name === "string" && address.name && address.name !== address.address
+    ? `${address.name} <${address.address}>`
+    : address.address;
+}
+
+function toRecipients(to: string): Array<{ emailAddress: { address: string } }> {
+  return to
+    .split(",")
+    .map((entry) => (entry.match(/<([^>]+)>/)?.[1] ?? entry).trim())
+    .filter(Boolean)
+    .map((address) => ({ emailAddress: { address } }));
+}
+
+export function parseGraphMessage(resource: Record<string, unknown>): MailMessage | undefined {
+  if (typeof resource.id !== "string") {
+    return undefined;
+  }
+  const body = getRecord(resource.body);
+  const receivedTs =
+    typeof resource.receivedDateTime === "string" ? Date.parse(resource.receivedDateTime) : NaN;
+  const recipients = Array.isArray(resource.toRecipients)
+    ? resource.toRecipients.map(formatRecipient).filter(Boolean)
+    : [];
+
+  return {
+    id: resource.id,
+    threadId: typeof resource.conversationId === "string" ? resource.conversationId : undefined,
+    subject: typeof resource.subject === "string" ? resource.subject : undefined,
+    from: formatRecipient(resource.from),
+    to: recipients.length > 0 ? recipients.join(", ") : undefined,
+    snippet: typeof resource.bodyPreview === "string" ? resource.bodyPreview : undefined,
+    bodyText: typeof body?.content === "string" ? body.content.trim() || undefined : undefined,
+    internalTs: Number.isFinite(receivedTs) ? receivedTs : undefined,
+    messageIdHeader:
+      typeof resource.internetMessageId === "string" ? resource.internetMessageId : undefined,
+    labelIds: Array.isArray(resource.categories)
+      ? resource.categories.filter((entry): entry is string => typeof entry === "string")
+      : undefined,
+    raw: resource,
+  };
+}
+
+export function matchesGraphQuery(message: MailMessage, query: string): boolean {
+  return parseMailQuery(query).every(({ operator, value, negated }) => {
+    const name = value.toLowerCase();
+    if (operator === "is" && (name === "read" || name === "unread")) {
+      return (message.raw.isRead === (name === "read")) !== negated;
+    }
+    if (operator === "from") {
+      return (message.from ?? "").toLowerCase().includes(name) !== negated;
+    }
+    return true;
+  });
+}
+
+export function createGraphMailProvider(options: {
+  tenantId: string;
+  clientId: string;
+  clientSecret: string;
+  apiBase?: string;
+  authBase?: string;
+}): MailProvider {
+  const apiBase = (options.apiBase || DEFAULT_GRAPH_API_BASE).replace(/\/+$/, "");
+  const authBase = (options.authBase || DEFAULT_GRAPH_AUTH_BASE).replace(/\/+$/, "");
+  const ensuredCategories = new Set<string>();
+  let cachedToken: { token: string; expiresAt: number } | undefined;
+
+  async function accessToken(): Promise<string> {
+    if (cachedToken && cachedToken.expiresAt > Date.now() + 60_000) {
+      return cachedToken.token;
+    }
+
+    const response = await fetchWithRetry(
+      "graph",
+      "token",
+      `${authBase}/${encodeURIComponent(options.tenantId)}/oauth2/v2.0/token`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          client_id: options.clientId,
+          client_secret: options.clientSecret,
+          scope: `${DEFAULT_GRAPH_API_BASE}/.default`,
+          grant_type: "client_credentials",
+        }).toString(),
+      },
+    );
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Graph token request failed (${response.status}): ${text}`);
+    }
+
+    const data = getRecord(JSON.parse(text)) ?? {};
+    if (typeof data.access_token !== "string") {
+      throw new Error("Graph token response has no access_token");
+    }
+    const expiresIn = typeof data.expires_in === "number" ? data.expires_in : 3600;
+    cachedToken = { token: data.access_token, expiresAt: Date.now() + expiresIn * 1000 };
+    return data.access_token;
+  }
+
+  async function request(
+    method: "GET" | "POST" | "PATCH",
+    url: string,
+    init: {
+      body?: unknown;
+      policy?: RetryPolicy;
+      prefer?: string;
+      gone?: Record<string, unknown>;
+    } = {},
+  ): Promise<Record<string, unknown>> {
+    const target = url.startsWith("http") ? url : `${apiBase}/v1.0/${url}`;
+    const response = await fetchWithRetry(
+      "graph",
+      `${method} ${url.split("?")[0]}`,
+      target,
+      {
+        method,
+        headers: {
+          Authorization: `Bearer ${await accessToken()}`,
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          Prefer: init.prefer ? `${GRAPH_DEFAULT_PREFER}, ${init.prefer}` : GRAPH_DEFAULT_PREFER,
+        },
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      },
+      init.policy,
+    );
+
+    const text = await response.text();
+    if (response.status === 410 && init.gone) {
+      return init.gone;
+    }
+    if (!response.ok) {
+      throw new Error(`Graph ${method} ${url.split("?")[0]} failed (${response.status}): ${text}`);
+    }
+    return (text.trim() ? getRecord(JSON.parse(text)) : undefined) ?? {};
+  }
+
+  async function withAttachments(account: string, messages: MailMessage[]) {
+    for (const message of messages) {
+      if (message.raw.hasAttachments !== true) {
+        continue;
+      }
+      const query = new URLSearchParams();
+      query.set("$select", "id,name,contentType,size,isInline");
+      const page = await request(
+        "GET",
+        `${userPath(account)}/messages/${encodeURIComponent(message.id)}/attachments?${graphQuery(query)}`,
+      );
+      message.attachments = (Array.isArray(page.value) ? page.value : [])
+        .map((entry) => getRecord(entry))
+        .filter((entry): entry is Record<string, unknown> => typeof entry?.id === "string")
+        .map((entry) => ({
+          id: String(entry.id),
+          filename: typeof entry.name === "string" ? entry.name : undefined,
+          mimeType:
+            typeof entry.contentType === "string" ? entry.contentType : "application/octet-stream",
+          size: typeof entry.size === "number" ? entry.size : 0,
+          inline: entry.isInline === true,
+        }));
+    }
+    return messages;
+  }
+
+  async function getAttachment(
+    account: string,
+    messageId: string,
+    attachment: MailAttachment,
+  ): Promise<Buffer> {
+    if (attachment.content) {
+      return attachment.content;
+    }
+    const resource = `${userPath(account)}/messages/${encodeURIComponent(messageId)}/attachments/${encodeURIComponent(attachment.id ?? "")}/$value`;
+    const response = await fetchWithRetry(
+      "graph",
+      "GET attachment",
+      `${apiBase}/v1.0/${resource}`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${await accessToken()}` },
+      },
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Graph attachment download failed (${response.status}): ${await response.text()}`,
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  function graphQuery(query: URLSearchParams): string {
+    return query.toString().replace(/\+/g, "%20");
+  }
+
+  function userPath(account: string): string {
+    return `users/${encodeURIComponent(account)}`;
+  }
+
+  async function searchMessages(search: MailSearch): Promise<MailMessage[]> {
+    const plan = buildGraphFilter(search.query);
+    const query = new URLSearchParams();
+    query.set("$select", GRAPH_MESSAGE_FIELDS);
+    query.set("$top", String(Math.min(search.maxResults, GRAPH_PAGE_SIZE)));
+    if (plan.filters.length > 0) {
+      query.set("$filter", plan.filters.join(" and "));
+    }
+    if (plan.filters[0]?.startsWith("receivedDateTime") || plan.filters.length === 0) {
+      query.set("$orderby", "receivedDateTime desc");
+    }
+
+    const messages: MailMessage[] = [];
+    let next: string | undefined =
+      `${userPath(search.account)}/mailFolders/${encodeURIComponent(plan.folder)}/messages?${graphQuery(query)}`;
+    while (next && messages.length < search.maxResults) {
+      const page = await request("GET", next);
+      for (const entry of Array.isArray(page.value) ? page.value : []) {
+        const record = getRecord(entry);
+        const message = record ? parseGraphMessage(record) : undefined;
+        if (message && messages.length < search.maxResults) {
+          messages.push(message);
+        }
+      }
+      next = typeof page["@odata.nextLink"] === "string" ? page["@odata.nextLink"] : undefined;
+    }
+    return withAttachments(search.account, messages);
+  }
+
+  async function walkDelta(url: string): Promise<MailChanges> {
+    const messages: MailMessage[] = [];
+    let next = url;
+    for (;;) {
+      const page = await request("GET", next, {
+        prefer: `odata.maxpagesize=${GRAPH_PAGE_SIZE}`,
+        gone: {},
+      });
+      const nextLink = page["@odata.nextLink"];
+      const deltaLink = page["@odata.deltaLink"];
+      if (typeof nextLink !== "string" && typeof deltaLink !== "string") {
+        return { messages: [], expired: true };
+      }
+      for (const entry of Array.isArray(page.value) ? page.value : []) {
+        const record = getRecord(entry);
+        const message = record && !record["@removed"] ? parseGraphMessage(record) : undefined;
+        if (message) {
+          messages.push(message);
+        }
+      }
+      if (typeof nextLink !== "string") {
+        return { messages, cursor: String(deltaLink) };
+      }
+      next = nextLink;
+    }
+  }
+
+  async function currentCursor(account: string, query = ""): Promise<string | undefined> {
+    const params = new URLSearchParams();
+    params.set("$select", GRAPH_MESSAGE_FIELDS);
+    params.set("$filter", `receivedDateTime ge ${new Date().toISOString()}`);
+    const folder = encodeURIComponent(buildGraphFilter(query).folder);
+    const changes = await walkDelta(
+      `${userPath(account)}/mailFolders/${folder}/messages/delta?${graphQuery(params)}`,
+    );
+    return changes.cursor;
+  }
+
+  async function listChanges(account: string, cursor: string, query = ""): Promise<MailChanges> {
+    const changes = await walkDelta(cursor);
+    const messages = changes.messages
+      .filter((message) => matchesGraphQuery(message, query))
+      .sort((left, right) => (left.internalTs ?? 0) - (right.internalTs ?? 0));
+    return { ...changes, messages: await withAttachments(account, messages) };
+  }
+
+  async function getMessage(account: string, messageId: string) {
+    const query = new URLSearchParams();
+    query.set("$select", GRAPH_MESSAGE_FIELDS);
+    const message = parseGraphMessage(
+      await request(
+        "GET",
+        `${userPath(account)}/messages/${encodeURIComponent(messageId)}?${graphQuery(query)}`,
+      ),
+    );
+    return message ? (await withAttachments(account, [message]))[0] : undefined;
+  }
+
+  async function ensureCategory(account: string, name: string): Promise<void> {
+    const cacheKey = `${account}:${name.toLowerCase()}`;
+    if (ensuredCategories.has(cacheKey)) {
+      return;
+    }
+    const list = await request("GET", `${userPath(account)}/outlook/masterCategories`);
+    const exists = (Array.isArray(list.value) ? list.value : []).some((entry) => {
+      const displayName = getRecord(entry)?.displayName;
+      return typeof displayName === "string" && displayName.toLowerCase() === name.toLowerCase();
+    });
+    if (!exists) {
+      await request("POST", `${userPath(account)}/outlook/masterCategories`, {
+        body: { displayName: name, color: "preset7" },
+      });
+    }
+    ensuredCategories.add(cacheKey);
+  }
+
+  async function conversationMessages(
+    account: string,
+    threadId: string,
+  ): Promise<Array<{ id: string; categories: string[] }>> {
+    const query = new URLSearchParams();
+    query.set("$select", "id,categories");
+    query.set("$filter", `conversationId eq ${odataString(threadId)}`);
+    const page = await request("GET", `${userPath(account)}/messages?${graphQuery(query)}`);
+    return (Array.isArray(page.value) ? page.value : [])
+      .map((entry) => getRecord(entry))
+      .filter((entry): entry is Record<string, unknown> => typeof entry?.id === "string")
+      .map((entry) => ({
+        id: String(entry.id),
+        categories: Array.isArray(entry.categories)
+          ? entry.categories.filter((category): category is string => typeof category === "string")
+          : [],
+      }));
+  }
+
+  async function setCategories(account: string, messageId: string, categories: string[]) {
+    await request("PATCH", `${userPath(account)}/messages/${encodeURIComponent(messageId)}`, {
+      body: { categories },
+    });
+  }
+
+  async function labelThread(account: string, threadId: string, labelNames: string[]) {
+    for (const name of labelNames) {
+      await ensureCategory(account, name);
+    }
+
+    const messages = await conversationMessages(account, threadId);
+    if (messages.length === 0) {
+      throw new Error(`No Outlook messages found for conversation ${threadId}`);
+    }
+
+    for (const message of messages) {
+      const categories = [...new Set([...message.categories, ...labelNames])];
+      if (categories.length !== message.categories.length) {
+        await setCategories(account, message.id, categories);
+      }
+    }
+  }
+
+  async function unlabelThread(account: string, threadId: string, labelNames: string[]) {
+    const removed = new Set(labelNames.map((name) => name.toLowerCase()));
+    for (const message of await conversationMessages(account, threadId)) {
+      const categories = message.categories.filter(
+        (category) => !removed.has(category.toLowerCase()),
+      );
+      if (categories.length !== message.categories.length) {
+        await setCategories(account, message.id, categories);
+      }
+    }
+  }
+
+  async function sendMessage(account: string, mail: OutgoingMail): Promise<SentMail> {
+    const content = {
+      subject: mail.subject,
+      body: { contentType: "Text", content: mail.body },
+      toRecipients: toRecipients(mail.to),
+      ...(mail.messageId ? { internetMessageId: mail.messageId } : {}),
+    };
+    const draft = mail.replyToMessageId
+      ? await request(
+          "POST",
+          `${userPath(account)}/messages/${encodeURIComponent(mail.replyToMessageId)}/createReply`,
+        )
+      : await request("POST", `${userPath(account)}/messages`, { body: content });
+    if (typeof draft.id !== "string") {
+      throw new Error(`Graph did not return a draft id for ${account}`);
+    }
+    if (mail.replyToMessageId) {
+      await request("PATCH", `${userPath(account)}/messages/${encodeURIComponent(draft.id)}`, {
+        body: content,
+      });
+    }
+
+    await request("POST", `${userPath(account)}/messages/${encodeURIComponent(draft.id)}/send`, {
+      policy: { ...resolveRetryPolicy("graph"), retryStatuses: [429], retryNetworkErrors: false },
+    });
+
+    return {
+      id: draft.id,
+      threadId: typeof draft.conversationId === "string" ? draft.conversationId : undefined,
+    };
+  }
+
+  return {
+    kind: "graph",
+    searchMessages,
+    listChanges,
+    currentCursor,
+    getMessage,
+    getAttachment,
+    labelThread,
+    unlabelThread,
+    sendMessage,
+  };
+}
@@ -0,0 +1,515 @@
+import { randomUUID } from "node:crypto";
+import type { Socket } from "node:net";
+
+import {
+  buildMimeMessage,
+  buildReferences,
+  parseMailQuery,
+  parseMailQueryDate,
+  type MailMessage,
+  type MailProvider,
+  type MailSearch,
+  type OutgoingMail,
+  type SentMail,
+} from "./mail.ts";
+import {
+  connectMailSocket,
+  createSocketReader,
+  DEFAULT_MAIL_TIMEOUT_MS,
+  extractAddress,
+  upgradeMailSocket,
+  type MailServer,
+  type SocketReader,
+} from "./mail-socket.ts";
+import { mimeAttachments, mimeBodyText, mimeThreadId, parseMimeMessage } from "./mime.ts";
+import { sendSmtpMail } from "./smtp.ts";
+
+type ImapResponse = {
+  text: string;
+  literals: Buffer[];
+};
+
+type ImapArgument = string | Buffer;
+
+export type ImapFetchRow = {
+  uid: number;
+  flags: string[];
+  internalDate?: string;
+  body?: Buffer;
+};
+
+export type ImapSession = {
+  capabilities: Set<string>;
+  select(mailbox: string): Promise<{ uidValidity: number; exists: number }>;
+  uidSearch(criteria: ImapArgument[]): Promise<number[]>;
+  uidFetch(uids: number[], items: string): Promise<ImapFetchRow[]>;
+  uidStore(uids: number[], flags: string): Promise<void>;
+  append(
+    mailbox: string,
+    message: string,
+    flags: string[],
+  ): Promise<{ uidValidity?: number; uid?: number }>;
+  logout(): Promise<void>;
+};
+
+export type ImapSearchPlan = {
+  mailbox: string;
+  criteria: ImapArgument[];
+  afterMs?: number;
+};
+
+const FETCH_BATCH_SIZE = 50;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export function imapString(value: string): ImapArgument {
+  if (/[^\x20-\x7E]/.test(value)) {
+    return Buffer.from(value, "utf8");
+  }
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+function imapDate(epochMs: number): string {
+  const date = new Date(epochMs);
+  return `${date.getUTCDate()}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+}
+
+function imapKeyword(label: string): string {
+  return label.replace(/[(){ %*"\\\]\x00-\x20\x7F]/g, "_");
+}
+
+export function buildImapSearch(
+  query: string,
+  mailboxes: { inbox: string; sent: string },
+): ImapSearchPlan {
+  const plan: ImapSearchPlan = { mailbox: mailboxes.inbox, criteria: [] };
+  for (const { operator, value, negated } of parseMailQuery(query)) {
+    if (negated) {
+      continue;
+    }
+
+    switch (operator) {
+      case "in":
+        plan.mailbox =
+          value.toLowerCase() === "inbox"
+            ? mailboxes.inbox
+            : value.toLowerCase() === "sent"
+              ? mailboxes.sent
+              : value;
+        break;
+      case "is":
+        if (value === "unread") {
+          plan.criteria.push("UNSEEN");
+        } else if (value === "read") {
+          plan.criteria.push("SEEN");
+        } else if (value === "starred") {
+          plan.criteria.push("FLAGGED");
+        }
+        break;
+      case "from":
+      case "to":
+      case "subject":
+        plan.criteria.push(operator.toUpperCase(), imapString(value));
+        break;
+      case "rfc822msgid":
+        plan.criteria.push("HEADER Message-ID", imapString(value));
+        break;
+      case "after": {
+        const afterMs = parseMailQueryDate(value);
+        if (afterMs !== undefined) {
+          plan.afterMs = afterMs;
+          plan.criteria.push("SINCE", imapDate(afterMs));
+        }
+        break;
+      }
+      case "before": {
+        const beforeMs = parseMailQueryDate(value);
+        if (beforeMs !== undefined) {
+          plan.criteria.push("BEFORE", imapDate(beforeMs));
+        }
+        break;
+      }
+      case undefined:
+        plan.criteria.push("TEXT", imapString(value));
+        break;
+      default:
+        break;
+    }
+  }
+
+  return plan;
+}
+
+export async function openImapSession(
+  server: MailServer,
+  timeoutMs = DEFAULT_MAIL_TIMEOUT_MS,
+): Promise<ImapSession> {
+  let socket: Socket = await connectMailSocket(server, timeoutMs);
+  let reader: SocketReader = createSocketReader(socket, timeoutMs);
+  let tagCounter = 0;
+  const capabilities = new Set<string>();
+
+  async function readResponse(): Promise<ImapResponse> {
+    let text = await reader.readLine();
+    const literals: Buffer[] = [];
+    for (;;) {
+      const literal = text.match(/\{(\d+)\+?\}$/);
+      if (!literal) {
+        return { text, literals };
+      }
+      literals.push(await reader.readBytes(Number(literal[1])));
+      text += await reader.readLine();
+    }
+  }
+
+  async function run(args: ImapArgument[]): Promise<{ untagged: ImapResponse[]; tagged: string }> {
+    const tag = `A${++tagCounter}`;
+    const verb = String(args[0]).split(" ")[0];
+    const untagged: ImapResponse[] = [];
+    let line = `${tag}`;
+
+    for (const arg of args) {
+      if (typeof arg === "string") {
+        line += ` ${arg}`;
+        continue;
+      }
+      socket.write(`${line} {${arg.length}}\r\n`);
+      for (;;) {
+        const response = await readResponse();
+        if (response.text.startsWith("+")) {
+          break;
+        }
+        if (response.text.startsWith(`${tag} `)) {
+          throw new Error(`IMAP ${verb} failed: ${response.text.slice(tag.length + 1)}`);
+        }
+        untagged.push(response);
+      }
+      socket.write(arg);
+      line = "";
+    }
+    socket.write(`${line}\r\n`);
+
+    for (;;) {
+      const response = await readResponse();
+      if (!response.text.startsWith(`${tag} `)) {
+        if (!response.text.startsWith("+")) {
+          untagged.push(response);
+        }
+        continue;
+      }
+      const status = response.text.slice(tag.length + 1);
+      if (!/^OK\b/i.test(status)) {
+        throw new Error(`IMAP ${verb} failed: ${status}`);
+      }
+      return { untagged, tagged: status };
+    }
+  }
+
+  async function refreshCapabilities(): Promise<void> {
+    const { untagged } = await run(["CAPABILITY"]);
+    capabilities.clear();
+    for (const response of untagged) {
+      const match = response.text.match(/^\* CAPABILITY (.*)$/i);
+      for (const entry of match?.[1].split(" ") ?? []) {
+        capabilities.add(entry.toUpperCase());
+      }
+    }
+  }
+
+  try {
+    const greeting = await readResponse();
+    if (!/^\* (OK|PREAUTH)\b/i.test(greeting.text)) {
+      throw new Error(`IMAP greeting rejected: ${greeting.text}`);
+    }
+
+    if (server.security === "starttls") {
+      await run(["STARTTLS"]);
+      reader.detach();
+      socket = await upgradeMailSocket(socket, server.host, timeoutMs);
+      reader = createSocketReader(socket, timeoutMs);
+    }
+
+    if (!/^\* PREAUTH\b/i.test(greeting.text)) {
+      await run(["LOGIN", imapString(server.user ?? ""), imapString(server.password ?? "")]);
+    }
+    await refreshCapabilities();
+  } catch (error) {
+    reader.detach();
+    socket.destroy();
+    throw error;
+  }
+
+  async function select(mailbox: string) {
+    const { untagged } = await run(["SELECT", imapString(mailbox)]);
+    let uidValidity = 0;
+    let exists = 0;
+    for (const response of untagged) {
+      const validity = response.text.match(/\[UIDVALIDITY (\d+)\]/i);
+      if (validity) {
+        uidValidity = Number(validity[1]);
+      }
+      const count = response.text.match(/^\* (\d+) EXISTS/i);
+      if (count) {
+        exists = Number(count[1]);
+      }
+    }
+    return { uidValidity, exists };
+  }
+
+  async function uidSearch(criteria: ImapArgument[]): Promise<number[]> {
+    const charset = criteria.some((entry) => typeof entry !== "string") ? ["CHARSET UTF-8"] : [];
+    const { untagged } = await run([
+      "UID SEARCH",
+      ...charset,
+      ...(criteria.length > 0 ? criteria : ["ALL"]),
+    ]);
+    const uids: number[] = [];
+    for (const response of untagged) {
+      const match = response.text.match(/^\* SEARCH\b(.*)$/i);
+      for (const entry of match?.[1].trim().split(/\s+/) ?? []) {
+        if (/^\d+$/.test(entry)) {
+          uids.push(Number(entry));
+        }
+      }
+    }
+    return uids;
+  }
+
+  async function uidFetch(uids: number[], items: string): Promise<ImapFetchRow[]> {
+    const rows: ImapFetchRow[] = [];
+    for (let index = 0; index < uids.length; index += FETCH_BATCH_SIZE) {
+      const batch = uids.slice(index, index + FETCH_BATCH_SIZE);
+      const { untagged } = await run(["UID FETCH", batch.join(","), `(${items})`]);
+      for (const response of untagged) {
+        if (!/^\* \d+ FETCH\b/i.test(response.text)) {
+          continue;
+        }
+        const uid = response.text.match(/\bUID (\d+)/i);
+        if (!uid) {
+          continue;
+        }
+        rows.push({
+          uid: Number(uid[1]),
+          flags:
+            response.text
+              .match(/\bFLAGS \(([^)]*)\)/i)?.[1]
+              .split(/\s+/)
+              .filter(Boolean) ?? [],
+          internalDate: response.text.match(/\bINTERNALDATE "([^"]+)"/i)?.[1],
+          body: response.literals[0],
+        });
+      }
+    }
+    return rows;
+  }
+
+  async function uidStore(uids: number[], flags: string): Promise<void> {
+    if (uids.length > 0) {
+      await run(["UID STORE", uids.join(","), flags]);
+    }
+  }
+
+  async function append(mailbox: string, message: string, flags: string[]) {
+    const { tagged } = await run([
+      "APPEND",
+      imapString(mailbox),
+      `(${flags.join(" ")})`,
+      Buffer.from(message, "utf8"),
+    ]);
+    const appended = tagged.match(/\[APPENDUID (\d+) (\d+)\]/i);
+    return appended ? { uidValidity: Number(appended[1]), uid: Number(appended[2]) } : {};
+  }
+
+  async function logout(): Promise<void> {
+    await run(["LOGOUT"]).catch(() => undefined);
+    reader.detach();
+    socket.destroy();
+  }
+
+  return { capabilities, select, uidSearch, uidFetch, uidStore, append, logout };
+}
+
+function parseImapMessageId(
+  id: string,
+): { mailbox: string; uidValidity: number; uid: number } | undefined {
+  const match = id.match(/^(.+):(\d+):(\d+)$/);
+  return match
+    ? { mailbox: match[1], uidValidity: Number(match[2]), uid: Number(match[3]) }
+    : undefined;
+}
+
+function toMailMessage(mailbox: string, uidValidity: number, row: ImapFetchRow): MailMessage {
+  const parsed = parseMimeMessage(row.body ?? Buffer.alloc(0));
+  const internalTs = Date.parse(row.internalDate ?? parsed.date ?? "");
+
+  return {
+    id: `${mailbox}:${uidValidity}:${row.uid}`,
+    threadId: mimeThreadId(parsed),
+    subject: parsed.subject,
+    from: parsed.from,
+    to: parsed.to,
+    bodyText: mimeBodyText(parsed),
+    internalTs: Number.isFinite(internalTs) ? internalTs : undefined,
+    messageIdHeader: parsed.messageId,
+    references: parsed.references,
+    labelIds: row.flags,
+    uid: row.uid,
+    uidValidity,
+    attachments: mimeAttachments(parsed),
+    raw: {
+      mailbox,
+      uid: row.uid,
+      uid_validity: uidValidity,
+      flags: row.flags,
+      message_id: parsed.messageId,
+      in_reply_to: parsed.inReplyTo,
+    },
+  };
+}
+
+export function createImapMailProvider(options: {
+  imap: MailServer;
+  smtp: MailServer;
+  mailbox: string;
+  sentMailbox?: string;
+}): MailProvider {
+  const mailboxes = { inbox: options.mailbox, sent: options.sentMailbox || "Sent" };
+
+  async function withSession<T>(account: string, run: (session: ImapSession) => Promise<T>) {
+    const session = await openImapSession({
+      ...options.imap,
+      user: options.imap.user || account,
+    });
+    try {
+      return await run(session);
+    } finally {
+      await session.logout();
+    }
+  }
+
+  async function searchMessages(search: MailSearch): Promise<MailMessage[]> {
+    const plan = buildImapSearch(search.query, mailboxes);
+    return withSession(search.account, async (session) => {
+      const { uidValidity } = await session.select(plan.mailbox);
+      const watermark =
+        search.sinceUid && search.sinceUid.uidValidity === uidValidity
+          ? search.sinceUid.uid
+          : undefined;
+
+      const criteria =
+        watermark === undefined
+          ? plan.criteria
+          : [
+              `UID ${watermark + 1}:*`,
+              ...plan.criteria.filter(
+                (entry, index) => entry !== "SINCE" && plan.criteria[index - 1] !== "SINCE",
+              ),
+            ];
+      const uids = (await session.uidSearch(criteria))
+        .filter((uid) => watermark === undefined || uid > watermark)
+        .sort((left, right) => left - right)
+        .slice(0, search.maxResults);
+
+      const items =
+        search.includeBody === false
+          ? "UID FLAGS INTERNALDATE BODY.PEEK[HEADER]"
+          : "UID FLAGS INTERNALDATE BODY.PEEK[]";
+      return (await session.uidFetch(uids, items))
+        .map((row) => toMailMessage(plan.mailbox, uidValidity, row))
+        .filter(
+          (message) =>
+            watermark !== undefined ||
+            plan.afterMs === undefined ||
+            (message.internalTs ?? 0) >= plan.afterMs,
+        );
+    });
+  }
+
+  async function getMessage(account: string, messageId: string) {
+    const target = parseImapMessageId(messageId);
+    if (!target) {
+      return undefined;
+    }
+    return withSession(account, async (session) => {
+      const { uidValidity } = await session.select(target.mailbox);
+      if (uidValidity !== target.uidValidity) {
+        return undefined;
+      }
+      const [row] = await session.uidFetch([target.uid], "UID FLAGS INTERNALDATE BODY.PEEK[]");
+      return row ? toMailMessage(target.mailbox, uidValidity, row) : undefined;
+    });
+  }
+
+  async function threadUids(session: ImapSession, threadId: string): Promise<number[]> {
+    await session.select(mailboxes.inbox);
+    return session.uidSearch([
+      "OR",
+      "HEADER Message-ID",
+      imapString(threadId),
+      "HEADER References",
+      imapString(threadId),
+    ]);
+  }
+
+  async function labelThread(account: string, threadId: string, labelNames: string[]) {
+    await withSession(account, async (session) => {
+      const uids = await threadUids(session, threadId);
+      if (uids.length === 0) {
+        throw new Error(`No IMAP messages found for thread ${threadId}`);
+      }
+      await session.uidStore(uids, `+FLAGS.SILENT (${labelNames.map(imapKeyword).join(" ")})`);
+    });
+  }
+
+  async function unlabelThread(account: string, threadId: string, labelNames: string[]) {
+    await withSession(account, async (session) => {
+      const uids = await threadUids(session, threadId);
+      if (uids.length > 0) {
+        await session.uidStore(uids, `-FLAGS.SILENT (${labelNames.map(imapKeyword).join(" ")})`);
+      }
+    });
+  }
+
+  async function sendMessage(account: string, mail: OutgoingMail): Promise<SentMail> {
+    const original = mail.replyToMessageId
+      ? await getMessage(account, mail.replyToMessageId)
+      : undefined;
+    const domain = extractAddress(account).split("@")[1] || "localhost";
+    const messageId = mail.messageId ?? `<${randomUUID()}@${domain}>`;
+
+    const raw = buildMimeMessage({
+      from: account,
+      to: mail.to,
+      subject: mail.subject,
+      body: mail.body,
+      messageId,
+      inReplyTo: original?.messageIdHeader,
+      references: original ? buildReferences(original) : undefined,
+    });
+
+    await sendSmtpMail(
+      {
+        ...options.smtp,
+        user: options.smtp.user || options.imap.user || account,
+        password: options.smtp.password ?? options.imap.password,
+      },
+      {
+        from: extractAddress(account),
+        recipients: mail.to.split(",").map(extractAddress).filter(Boolean),
+        data: raw,
+      },
+    );
+
+    const appended = await withSession(account, (session) =>
+      session.append(mailboxes.sent, raw, ["\\Seen"]),
+    ).catch(() => undefined);
+
+    return {
+      ...(appended?.uid !== undefined
+        ? { id: `${mailboxes.sent}:${appended.uidValidity}:${appended.uid}` }
+        : {}),
+      threadId: original?.threadId ?? messageId,
+    };
+  }
+
+  return { kind: "imap", searchMessages, getMessage, labelThread, unlabelThread, sendMessage };
+}
@@ -0,0 +1,30 @@
+export * from "./attachments.ts";
+export * from "./body.ts";
+export * from "./cli.ts";
+export * from "./config.ts";
+export * from "./dry-run.ts";
+export * from "./feedback.ts";
+export * from "./file-store.ts";
+export * from "./gmail.ts";
+export * from "./gog.ts";
+export * from "./graph.ts";
+export * from "./imap.ts";
+export * from "./json.ts";
+export * from "./lock.ts";
+export * from "./mail-env.ts";
+export * from "./mail-socket.ts";
+export * from "./mail.ts";
+export * from "./migrations.ts";
+export * from "./mime.ts";
+export * from "./pdf.ts";
+export * from "./profiles.ts";
+export * from "./retry.ts";
+export * from "./rules.ts";
+export * from "./slack.ts";
+export * from "./smtp.ts";
+export * from "./sqlite.ts";
+export * from "./storage-env.ts";
+export * from "./storage.ts";
+export * from "./supabase.ts";
+export * from "./taxonomy.ts";
+export * from "./types.ts";
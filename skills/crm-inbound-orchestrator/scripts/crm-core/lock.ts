@@ -0,0 +1,308 @@
+import { randomUUID } from "node:crypto";
+import { link, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { hostname } from "node:os";
+
+import { loadConfig, type CrmConfig } from "./config.ts";
+import { getRecord } from "./json.ts";
+import type { StorageClient } from "./storage.ts";
+
+export type RunLease = {
+  name: string;
+  holder_id: string;
+  acquired_at: string;
+  expires_at: string;
+};
+
+export type LockAttempt =
+  | { acquired: true; lease: RunLease; renew(): Promise<boolean>; release(): Promise<void> }
+  | { acquired: false; held_by?: RunLease };
+
+export type RunLock = {
+  backend: "storage" | "file";
+  ttlSeconds: number;
+  acquire(holderId: string): Promise<LockAttempt>;
+};
+
+function buildLease(name: string, holderId: string, ttlSeconds: number): RunLease {
+  const now = Date.now();
+  return {
+    name,
+    holder_id: holderId,
+    acquired_at: new Date(now).toISOString(),
+    expires_at: new Date(now + ttlSeconds * 1000).toISOString(),
+  };
+}
+
+function asLease(value: unknown): RunLease | undefined {
+  const record = getRecord(value);
+  if (
+    !record ||
+    typeof record.name !== "string" ||
+    typeof record.holder_id !== "string" ||
+    typeof record.acquired_at !== "string" ||
+    typeof record.expires_at !== "string"
+  ) {
+    return undefined;
+  }
+  return {
+    name: record.name,
+    holder_id: record.holder_id,
+    acquired_at: record.acquired_at,
+    expires_at: record.expires_at,
+  };
+}
+
+export function buildLockHolderId(runId: string): string {
+  return `${hostname()}:${process.pid}:${runId}`;
+}
+
+export function createStorageRunLock(
+  storage: StorageClient,
+  options: { table: string; name: string; ttlSeconds: number },
+): RunLock {
+  const { table, name, ttlSeconds } = options;
+
+  async function release(holderId: string): Promise<void> {
+    const query = new URLSearchParams();
+    query.set("name", `eq.${name}`);
+    query.set("holder_id", `eq.${holderId}`);
+    await storage.request({ method: "DELETE", table, query });
+  }
+
+  async function renew(holderId: string): Promise<boolean> {
+    const query = new URLSearchParams();
+    query.set("name", `eq.${name}`);
+    query.set("holder_id", `eq.${holderId}`);
+    const renewed = await storage.request<unknown>({
+      method: "PATCH",
+      table,
+      query,
+      body: { expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString() },
+      prefer: "return=representation",
+    });
+    return Array.isArray(renewed) && renewed.length > 0;
+  }
+
+  async function acquire(holderId: string): Promise<LockAttempt> {
+    const lease = buildLease(name, holderId, ttlSeconds);
+
+    const insertQuery = new URLSearchParams();
+    insertQuery.set("on_conflict", "name");
+    const inserted = await storage.request<unknown>({
+      method: "POST",
+      table,
+      query: insertQuery,
+      body: [lease],
+      prefer: "resolution=ignore-duplicates,return=representation",
+    });
+
+    let won = Array.isArray(inserted) && inserted.length > 0;
+    if (!won) {
+      const takeoverQuery = new URLSearchParams();
+      takeoverQuery.set("name", `eq.${name}`);
+      takeoverQuery.set("expires_at", `lt.${lease.acquired_at}`);
+      const takenOver = await storage.request<unknown>({
+        method: "PATCH",
+        table,
+        query: takeoverQuery,
+        body: lease,
+        prefer: "return=representation",
+      });
+      won = Array.isArray(takenOver) && takenOver.length > 0;
+    }
+
+    if (won) {
+      return {
+        acquired: true,
+        lease,
+        renew: () => renew(holderId),
+        release: () => release(holderId),
+      };
+    }
+
+    const current = new URLSearchParams();
+    current.set("select", "name,holder_id,acquired_at,expires_at");
+    current.set("name", `eq.${name}`);
+    const rows = await storage.select(table, current);
+    return { acquired: false, held_by: asLease(rows[0]) };
+  }
+
+  return { backend: "storage", ttlSeconds, acquire };
+}
+
+export function createFileRunLock(options: {
+  path: string;
+  name: string;
+  ttlSeconds: number;
+}): RunLock {
+  const { path, name, ttlSeconds } = options;
+
+  async function readLease(file = path): Promise<RunLease | undefined> {
+    try {
+      return asLease(JSON.parse(await readFile(file, "utf8")));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async function release(holderId: string): Promise<void> {
+    const current = await readLease();
+    if (current?.holder_id === holderId) {
+      await unlink(path).catch(() => undefined);
+    }
+  }
+
+  async function writeTemp(lease: RunLease): Promise<string> {
+    const tempPath = `${path}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(tempPath, `${JSON.stringify(lease, null, 2)}\n`, "utf8");
+    return tempPath;
+  }
+
+  async function tryCreate(lease: RunLease): Promise<boolean> {
+    const tempPath = await writeTemp(lease);
+    try {
+      await link(tempPath, path);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        return false;
+      }
+      throw error;
+    } finally {
+      await unlink(tempPath).catch(() => undefined);
+    }
+  }
+
+  async function isExpired(current: RunLease | undefined): Promise<boolean> {
+    if (current) {
+      return Date.parse(current.expires_at) <= Date.now();
+    }
+    const info = await stat(path).catch(() => undefined);
+    return !info || info.mtimeMs + ttlSeconds * 1000 <= Date.now();
+  }
+
+  async function renew(holderId: string): Promise<boolean> {
+    const current = await readLease();
+    if (current?.holder_id !== holderId) {
+      return false;
+    }
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
+    await rename(await writeTemp({ ...current, expires_at: expiresAt }), path);
+    return true;
+  }
+
+  function held(lease: RunLease, holderId: string): LockAttempt {
+    return {
+      acquired: true,
+      lease,
+      renew: () => renew(holderId),
+      release: () => release(holderId),
+    };
+  }
+
+  async function acquire(holderId: string): Promise<LockAttempt> {
+    const lease = buildLease(name, holderId, ttlSeconds);
+    if (await tryCreate(lease)) {
+      return held(lease, holderId);
+    }
+
+    const current = await readLease();
+    if (!(await isExpired(current))) {
+      return { acquired: false, held_by: current };
+    }
+
+    const stalePath = `${path}.${process.pid}.stale`;
+    const moved = await rename(path, stalePath).then(
+      () => true,
+      () => false,
+    );
+    if (moved) {
+      const taken = await readLease(stalePath);
+      if (taken?.holder_id !== current?.holder_id) {
+        await link(stalePath, path).catch(() => undefined);
+        await unlink(stalePath).catch(() => undefined);
+        return { acquired: false, held_by: taken };
+      }
+      await unlink(stalePath).catch(() => undefined);
+    }
+    if (await tryCreate(lease)) {
+      const written = await readLease();
+      if (written?.holder_id === holderId) {
+        return held(lease, holderId);
+      }
+      return { acquired: false, held_by: written };
+    }
+    return { acquired: false, held_by: await readLease() };
+  }
+
+  return { backend: "file", ttlSeconds, acquire };
+}
+
+export function createRunLockFromConfig(
+  storage: StorageClient,
+  config: CrmConfig = loadConfig(),
+): RunLock {
+  const { lockName: name, lockTtlSeconds: ttlSeconds } = config;
+  if (config.lockBackend === "file") {
+    return createFileRunLock({ path: config.lockFile, name, ttlSeconds });
+  }
+  return createStorageRunLock(storage, { table: config.locksTable, name, ttlSeconds });
+}
+
+export function describeLockHolder(heldBy: RunLease | undefined): string {
+  return heldBy
+    ? `skipped: locked by ${heldBy.holder_id} until ${heldBy.expires_at}`
+    : "skipped: locked";
+}
+
+export type LockedRun<T> =
+  | { status: "acquired"; lease: RunLease; value: T }
+  | { status: "skipped"; reason: "locked"; message: string; held_by?: RunLease };
+
+export async function withRunLock<T>(
+  lock: RunLock,
+  holderId: string,
+  fn: (lease: RunLease, signal: AbortSignal) => Promise<T>,
+): Promise<LockedRun<T>> {
+  const attempt = await lock.acquire(holderId);
+  if (!attempt.acquired) {
+    return {
+      status: "skipped",
+      reason: "locked",
+      message: describeLockHolder(attempt.held_by),
+      ...(attempt.held_by ? { held_by: attempt.held_by } : {}),
+    };
+  }
+
+  const controller = new AbortController();
+  const lost = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), {
+      once: true,
+    });
+  });
+  lost.catch(() => undefined);
+  const heartbeat = setInterval(
+    () => {
+      attempt
+        .renew()
+        .then((renewed) => {
+          if (!renewed) {
+            throw new Error("lease is held by another run");
+          }
+        })
+        .catch((error) => {
+          const reason = error instanceof Error ? error.message : "unknown error";
+          controller.abort(new Error(`Run lock lost for ${holderId} (${reason})`));
+        });
+    },
+    Math.max((lock.ttlSeconds * 1000) / 3, 1000),
+  );
+
+  try {
+    const value = await Promise.race([fn(attempt.lease, controller.signal), lost]);
+    return { status: "acquired", lease: attempt.lease, value };
+  } finally {
+    clearInterval(heartbeat);
+    await attempt.release().catch(() => undefined);
+  }
+}
@@ -0,0 +1,69 @@
+import { loadConfig, requireSetting, type CrmConfig } from "./config.ts";
+import { createGmailApiProvider } from "./gmail.ts";
+import { createGogMailProvider } from "./gog.ts";
+import { createGraphMailProvider } from "./graph.ts";
+import { createImapMailProvider } from "./imap.ts";
+import { routeMailByAccount, type MailProvider, type MailProviderKind } from "./mail.ts";
+
+function createMailProvider(config: CrmConfig, kind: MailProviderKind): MailProvider {
+  switch (kind) {
+    case "gmail-api":
+      return createGmailApiProvider({
+        tokensFile: requireSetting(config, "gmailTokensFile"),
+        clientId: config.gmailClientId,
+        clientSecret: config.gmailClientSecret,
+        apiBase: config.gmailApiBase,
+      });
+    case "imap":
+      return createImapMailProvider({
+        imap: {
+          host: requireSetting(config, "imapHost"),
+          port: config.imapPort,
+          security: config.imapSecurity,
+          user: config.imapUser,
+          password: config.imapPassword,
+        },
+        smtp: {
+          host: config.smtpHost ?? config.imapHost ?? "",
+          port: config.smtpPort,
+          security: config.smtpSecurity,
+          user: config.smtpUser,
+          password: config.smtpPassword,
+        },
+        mailbox: config.imapMailbox,
+        sentMailbox: config.imapSentMailbox,
+      });
+    case "graph":
+      return createGraphMailProvider({
+        tenantId: requireSetting(config, "graphTenantId"),
+        clientId: requireSetting(config, "graphClientId"),
+        clientSecret: requireSetting(config, "graphClientSecret"),
+        apiBase: config.graphApiBase,
+        authBase: config.graphAuthBase,
+      });
+    default:
+      return createGogMailProvider();
+  }
+}
+
+export function createMailProviderFromConfig(config: CrmConfig = loadConfig()): MailProvider {
+  const providers = new Map<MailProviderKind, MailProvider>();
+  const providerFor = (kind: MailProviderKind) => {
+    const existing = providers.get(kind);
+    if (existing) {
+      return existing;
+    }
+    const created = createMailProvider(config, kind);
+    providers.set(kind, created);
+    return created;
+  };
+
+  const overrides = Object.entries(config.mailAccountProviders ?? {});
+  if (overrides.length === 0) {
+    return providerFor(config.mailProvider);
+  }
+  return routeMailByAccount(providerFor(config.mailProvider), (account) => {
+    const kind = config.mailAccountProviders?.[account.toLowerCase()];
+    return kind ? providerFor(kind) : undefined;
+  });
+}
@@ -0,0 +1,163 @@
+import net, { type Socket } from "node:net";
+import tls from "node:tls";
+
+export type MailSecurity = "tls" | "starttls" | "none";
+
+export type MailServer = {
+  host: string;
+  port: number;
+  security: MailSecurity;
+  user?: string;
+  password?: string;
+};
+
+export type SocketReader = {
+  readLine(): Promise<string>;
+  readBytes(count: number): Promise<Buffer>;
+  detach(): void;
+};
+
+export const DEFAULT_MAIL_TIMEOUT_MS = 30_000;
+
+function waitForSocket<T extends Socket>(
+  socket: T,
+  event: "connect" | "secureConnect",
+  label: string,
+  timeoutMs: number,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error(`Timed out connecting to ${label}`));
+    }, timeoutMs);
+    const onError = (error: Error) => {
+      clearTimeout(timer);
+      reject(error);
+    };
+    socket.once("error", onError);
+    socket.once(event, () => {
+      clearTimeout(timer);
+      socket.off("error", onError);
+      resolve(socket);
+    });
+  });
+}
+
+export function connectMailSocket(
+  server: MailServer,
+  timeoutMs = DEFAULT_MAIL_TIMEOUT_MS,
+): Promise<Socket> {
+  const label = `${server.host}:${server.port}`;
+  if (server.security === "tls") {
+    return waitForSocket(
+      tls.connect({ host: server.host, port: server.port, servername: server.host }),
+      "secureConnect",
+      label,
+      timeoutMs,
+    );
+  }
+  return waitForSocket(
+    net.connect({ host: server.host, port: server.port }),
+    "connect",
+    label,
+    timeoutMs,
+  );
+}
+
+export function upgradeMailSocket(
+  socket: Socket,
+  host: string,
+  timeoutMs = DEFAULT_MAIL_TIMEOUT_MS,
+): Promise<Socket> {
+  return waitForSocket(
+    tls.connect({ socket, servername: host }),
+    "secureConnect",
+    `${host} (STARTTLS)`,
+    timeoutMs,
+  );
+}
+
+export function createSocketReader(
+  socket: Socket,
+  timeoutMs = DEFAULT_MAIL_TIMEOUT_MS,
+): SocketReader {
+  let chunks: Buffer[] = [];
+  let length = 0;
+  let failure: Error | undefined;
+  let wake: (() => void) | undefined;
+
+  const onData = (chunk: Buffer) => {
+    chunks.push(chunk);
+    length += chunk.length;
+    wake?.();
+  };
+  const onClose = () => {
+    failure ??= new Error("Connection closed by server");
+    wake?.();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    wake?.();
+  };
+  socket.on("data", onData);
+  socket.on("close", onClose);
+  socket.on("error", onError);
+
+  function flatten(): Buffer {
+    if (chunks.length !== 1) {
+      chunks = [Buffer.concat(chunks, length)];
+    }
+    return chunks[0] ?? Buffer.alloc(0);
+  }
+
+  function consume(count: number, skip = 0): Buffer {
+    const buffer = flatten();
+    const taken = Buffer.from(buffer.subarray(0, count));
+    chunks = [buffer.subarray(count + skip)];
+    length -= count + skip;
+    return taken;
+  }
+
+  async function waitFor<T>(take: () => T | undefined): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const value = take();
+      if (value !== undefined) {
+        return value;
+      }
+      if (failure) {
+        throw failure;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(`Timed out after ${timeoutMs}ms waiting for the mail server`);
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remaining);
+        wake = () => {
+          clearTimeout(timer);
+          wake = undefined;
+          resolve();
+        };
+      });
+    }
+  }
+
+  return {
+    readLine: () =>
+      waitFor(() => {
+        const end = length > 0 ? flatten().indexOf("\r\n") : -1;
+        return end === -1 ? undefined : consume(end, 2).toString("utf8");
+      }),
+    readBytes: (count) => waitFor(() => (length >= count ? consume(count) : undefined)),
+    detach: () => {
+      socket.off("data", onData);
+      socket.off("close", onClose);
+      socket.off("error", onError);
+    },
+  };
+}
+
+export function extractAddress(value: string): string {
+  return (value.match(/<([^>]+)>/)?.[1] ?? value).trim();
+}
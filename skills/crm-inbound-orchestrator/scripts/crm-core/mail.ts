@@ -0,0 +1,201 @@
+export type MailProviderKind = "gog" | "gmail-api" | "imap" | "graph";
+
+export const MAIL_PROVIDER_KINDS: MailProviderKind[] = ["gog", "gmail-api", "imap", "graph"];
+
+export type MailAttachment = {
+  id?: string;
+  filename?: string;
+  mimeType: string;
+  size: number;
+  contentId?: string;
+  inline?: boolean;
+  content?: Buffer;
+};
+
+export type MailMessage = {
+  id: string;
+  threadId?: string;
+  subject?: string;
+  from?: string;
+  to?: string;
+  snippet?: string;
+  bodyText?: string;
+  internalTs?: number;
+  messageIdHeader?: string;
+  references?: string;
+  labelIds?: string[];
+  uid?: number;
+  uidValidity?: number;
+  attachments?: MailAttachment[];
+  raw: Record<string, unknown>;
+};
+
+export type MailSearch = {
+  account: string;
+  query: string;
+  maxResults: number;
+  includeBody?: boolean;
+  sinceUid?: { uidValidity: number; uid: number };
+};
+
+export type OutgoingMail = {
+  to: string;
+  subject: string;
+  body: string;
+  replyToMessageId?: string;
+  messageId?: string;
+};
+
+export type SentMail = {
+  id?: string;
+  threadId?: string;
+};
+
+export type MailChanges = {
+  messages: MailMessage[];
+  cursor?: string;
+  expired?: boolean;
+};
+
+export type MailProvider = {
+  kind: MailProviderKind;
+  searchMessages(search: MailSearch): Promise<MailMessage[]>;
+  listChanges?(account: string, cursor: string, query?: string): Promise<MailChanges>;
+  currentCursor?(account: string, query?: string): Promise<string | undefined>;
+  getMessage(account: string, messageId: string): Promise<MailMessage | undefined>;
+  getAttachment?(account: string, messageId: string, attachment: MailAttachment): Promise<Buffer>;
+  labelThread(account: string, threadId: string, labelNames: string[]): Promise<void>;
+  unlabelThread(account: string, threadId: string, labelNames: string[]): Promise<void>;
+  sendMessage(account: string, mail: OutgoingMail): Promise<SentMail>;
+};
+
+export type MailQueryTerm = {
+  operator?: string;
+  value: string;
+  negated: boolean;
+};
+
+export function parseMailQuery(query: string): MailQueryTerm[] {
+  return (query.match(/-?\w+:(?:"[^"]*"|\S+)|-?"[^"]*"|\S+/g) ?? []).map((token) => {
+    const negated = token.startsWith("-");
+    const body = negated ? token.slice(1) : token;
+    const match = body.match(/^(\w+):(.*)$/);
+    return {
+      operator: match?.[1].toLowerCase(),
+      value: (match ? match[2] : body).replace(/^"|"$/g, ""),
+      negated,
+    };
+  });
+}
+
+export function parseMailQueryDate(value: string): number | undefined {
+  if (/^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+  const parsed = Date.parse(value.replace(/\//g, "-"));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function stripHtml(value: string): string {
+  return value
+    .replace(/<style[\s\S]*?<\/style>/gi, " ")
+    .replace(/<script[\s\S]*?<\/script>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function decodeBase64Url(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+export function encodeBase64Url(value: string | Buffer): string {
+  return Buffer.from(value)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function headerValue(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, " ").trim();
+  return /^[\x20-\x7E]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, "utf8").toString("base64")}?=`;
+}
+
+export function buildMimeMessage(args: {
+  from: string;
+  to: string;
+  subject: string;
+  body: string;
+  inReplyTo?: string;
+  references?: string;
+  messageId?: string;
+}): string {
+  const headers = [
+    `From: ${headerValue(args.from)}`,
+    `To: ${headerValue(args.to)}`,
+    `Subject: ${headerValue(args.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    ...(args.messageId ? [`Message-ID: ${headerValue(args.messageId)}`] : []),
+    ...(args.inReplyTo ? [`In-Reply-To: ${headerValue(args.inReplyTo)}`] : []),
+    ...(args.references ? [`References: ${headerValue(args.references)}`] : []),
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+  const body =
+    Buffer.from(args.body, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? "";
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n`;
+}
+
+export function outgoingMessageId(key: string, account: string): string {
+  const domain = account.match(/@([^\s>]+)/)?.[1] || "localhost";
+  return `<${key}@${domain}>`;
+}
+
+export function buildReferences(
+  original: Pick<MailMessage, "messageIdHeader" | "references">,
+): string | undefined {
+  const ids = [original.references, original.messageIdHeader].filter(Boolean).join(" ").trim();
+  return ids || undefined;
+}
+
+export function routeMailByAccount(
+  fallback: MailProvider,
+  pick: (account: string) => MailProvider | undefined,
+): MailProvider {
+  const providerFor = (account: string) => pick(account) ?? fallback;
+  return {
+    kind: fallback.kind,
+    searchMessages: (search) => providerFor(search.account).searchMessages(search),
+    listChanges: async (account, cursor, query) => {
+      const provider = providerFor(account);
+      return provider.listChanges
+        ? provider.listChanges(account, cursor, query)
+        : { messages: [], expired: true };
+    },
+    currentCursor: async (account, query) => providerFor(account).currentCursor?.(account, query),
+    getMessage: (account, messageId) => providerFor(account).getMessage(account, messageId),
+    getAttachment: async (account, messageId, attachment) => {
+      const provider = providerFor(account);
+      if (!provider.getAttachment) {
+        throw new Error(`${provider.kind} cannot download attachments`);
+      }
+      return provider.getAttachment(account, messageId, attachment);
+    },
+    labelThread: (account, threadId, labelNames) =>
+      providerFor(account).labelThread(account, threadId, labelNames),
+    unlabelThread: (account, threadId, labelNames) =>
+      providerFor(account).unlabelThread(account, threadId, labelNames),
+    sendMessage: (account, mail) => providerFor(account).sendMessage(account, mail),
+  };
+}
@@ -0,0 +1,144 @@
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+
+import type { StorageClient } from "./storage.ts";
+
+export type Migration = {
+  version: number;
+  name: string;
+  sql: string;
+  checksum: string;
+};
+
+export type AppliedMigration = {
+  version: number;
+  checksum: string;
+};
+
+export type MigrationRunner = {
+  target: string;
+  appliedMigrations(): Promise<AppliedMigration[]>;
+  apply(migration: Migration): Promise<void>;
+};
+
+export const REQUIRED_SCHEMA_VERSION = 12;
+
+export const MIGRATIONS_TABLE = "crm_schema_migrations";
+
+export const MIGRATIONS_TABLE_SQL = `create table if not exists ${MIGRATIONS_TABLE} (
+  version integer primary key,
+  name text not null,
+  checksum text not null,
+  applied_at timestamptz not null default now()
+);`;
+
+export const DEFAULT_MIGRATIONS_DIR = fileURLToPath(
+  new URL("../../references/migrations", import.meta.url),
+);
+
+const execFileAsync = promisify(execFile);
+
+export async function loadMigrations(dir: string = DEFAULT_MIGRATIONS_DIR): Promise<Migration[]> {
+  const migrations: Migration[] = [];
+  for (const file of (await readdir(dir)).sort()) {
+    const match = file.match(/^(\d+)_([\w-]+)\.sql$/);
+    if (!match) {
+      continue;
+    }
+    const sql = await readFile(path.join(dir, file), "utf8");
+    migrations.push({
+      version: Number.parseInt(match[1], 10),
+      name: match[2],
+      sql,
+      checksum: createHash("sha256").update(sql).digest("hex"),
+    });
+  }
+
+  for (let index = 1; index < migrations.length; index += 1) {
+    if (migrations[index].version === migrations[index - 1].version) {
+      throw new Error(`Duplicate migration version ${migrations[index].version} in ${dir}`);
+    }
+  }
+  return migrations;
+}
+
+export async function readSchemaVersion(storage: StorageClient): Promise<number> {
+  const query = new URLSearchParams();
+  query.set("select", "version");
+  query.set("order", "version.desc");
+  query.set("limit", "1");
+
+  const rows = await storage.select(MIGRATIONS_TABLE, query);
+  const version = rows[0]?.version;
+  return typeof version === "number" ? version : Number(version ?? 0);
+}
+
+export async function ensureSchemaVersion(
+  storage: StorageClient,
+  required: number = REQUIRED_SCHEMA_VERSION,
+): Promise<number> {
+  let current: number;
+  try {
+    current = await readSchemaVersion(storage);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "unknown error";
+    throw new Error(
+      `CRM schema version could not be read (${reason}). Run: tsx scripts/migrate.ts migrate`,
+    );
+  }
+
+  if (current < required) {
+    throw new Error(
+      `CRM schema is at version ${current} but version ${required} is required. Run: tsx scripts/migrate.ts migrate`,
+    );
+  }
+  return current;
+}
+
+function sqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export function createPsqlMigrationRunner(options: { databaseUrl: string }): MigrationRunner {
+  async function psql(sql: string, extraArgs: string[] = []): Promise<string> {
+    const { stdout } = await execFileAsync(
+      "psql",
+      ["-X", "-q", "-v", "ON_ERROR_STOP=1", ...extraArgs, "-d", options.databaseUrl, "-c", sql],
+      { maxBuffer: 10 * 1024 * 1024 },
+    );
+    return stdout;
+  }
+
+  async function appliedMigrations(): Promise<AppliedMigration[]> {
+    await psql(MIGRATIONS_TABLE_SQL);
+    const stdout = await psql(
+      `select version, checksum from ${MIGRATIONS_TABLE} order by version`,
+      ["-A", "-t", "-F", "\t"],
+    );
+    return stdout
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => {
+        const [version, checksum] = line.split("\t");
+        return { version: Number.parseInt(version, 10), checksum: checksum ?? "" };
+      });
+  }
+
+  async function apply(migration: Migration): Promise<void> {
+    await psql(
+      [
+        migration.sql,
+        `insert into ${MIGRATIONS_TABLE} (version, name, checksum) values (${migration.version}, ${sqlLiteral(migration.name)}, ${sqlLiteral(migration.checksum)});`,
+      ].join("\n"),
+      ["--single-transaction"],
+    );
+  }
+
+  const host = options.databaseUrl.match(/@([^/?]+)/)?.[1] ?? "postgres";
+  return { target: `postgres://${host}`, appliedMigrations, apply };
+}
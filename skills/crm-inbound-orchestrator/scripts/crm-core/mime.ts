@@ -0,0 +1,306 @@
+import { htmlToText } from "./body.ts";
+import type { MailAttachment } from "./mail.ts";
+
+export type MimeHeaders = Map<string, string[]>;
+
+export type MimeAttachment = {
+  filename?: string;
+  contentType: string;
+  size: number;
+  contentId?: string;
+  inline: boolean;
+  content: Buffer;
+};
+
+export type ParsedMime = {
+  headers: MimeHeaders;
+  subject?: string;
+  from?: string;
+  to?: string;
+  date?: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string;
+  text?: string;
+  html?: string;
+  attachments: MimeAttachment[];
+};
+
+type ContentType = {
+  type: string;
+  params: Record<string, string>;
+};
+
+function splitHeaderBlock(raw: Buffer): { head: string; body: Buffer } {
+  if (raw[0] === 0x0a || (raw[0] === 0x0d && raw[1] === 0x0a)) {
+    return { head: "", body: raw.subarray(raw[0] === 0x0a ? 1 : 2) };
+  }
+  const crlf = raw.indexOf("\r\n\r\n");
+  const lf = raw.indexOf("\n\n");
+  if (crlf === -1 && lf === -1) {
+    return { head: raw.toString("latin1"), body: Buffer.alloc(0) };
+  }
+  const useCrlf = crlf !== -1 && (lf === -1 || crlf < lf);
+  const end = useCrlf ? crlf : lf;
+  return {
+    head: raw.subarray(0, end).toString("latin1"),
+    body: raw.subarray(end + (useCrlf ? 4 : 2)),
+  };
+}
+
+export function parseMimeHeaders(head: string): MimeHeaders {
+  const headers: MimeHeaders = new Map();
+  const unfolded = head.replace(/\r?\n[ \t]+/g, " ");
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) {
+      continue;
+    }
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    headers.set(name, [...(headers.get(name) ?? []), value]);
+  }
+  return headers;
+}
+
+export function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = (charset || "utf-8").trim().toLowerCase().replace(/^"|"$/g, "");
+  try {
+    return new TextDecoder(label === "us-ascii" ? "utf-8" : label).decode(bytes);
+  } catch {
+    return bytes.toString("latin1");
+  }
+}
+
+function decodeQuotedPrintable(value: string, underscoreAsSpace = false): Buffer {
+  const input = underscoreAsSpace ? value.replace(/_/g, " ") : value.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    const hex = input.slice(index + 1, index + 3);
+    if (char === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(Number.parseInt(hex, 16));
+      index += 2;
+    } else {
+      bytes.push(input.charCodeAt(index) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function decodeEncodedWords(value: string): string {
+  const latin1 = Buffer.from(value, "latin1");
+  const text = /[\x80-\xff]/.test(value) ? decodeCharset(latin1, "utf-8") : value;
+  return text
+    .replace(/(=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)\s+(?==\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)/g, "$1")
+    .replace(/=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g, (match, charset, encoding, data) => {
+      try {
+        const bytes =
+          encoding.toUpperCase() === "B"
+            ? Buffer.from(data, "base64")
+            : decodeQuotedPrintable(data, true);
+        return decodeCharset(bytes, String(charset).split("*")[0]);
+      } catch {
+        return match;
+      }
+    });
+}
+
+function parseHeaderParams(value: string): ContentType {
+  const [type = "", ...rest] = value.match(/(?:[^;"]+|"(?:\\.|[^"\\])*")+/g) ?? [];
+  const params: Record<string, string> = {};
+  const extended: Record<string, string[]> = {};
+
+  for (const entry of rest) {
+    const equals = entry.indexOf("=");
+    if (equals === -1) {
+      continue;
+    }
+    const name = entry.slice(0, equals).trim().toLowerCase();
+    let paramValue = entry.slice(equals + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, "$1");
+    }
+
+    const continuation = name.match(/^([^*]+)\*(\d+)?\*?$/);
+    if (continuation) {
+      const base = continuation[1];
+      const index = Number(continuation[2] ?? 0);
+      (extended[base] ??= [])[index] = name.endsWith("*") ? `\u0000${paramValue}` : paramValue;
+      continue;
+    }
+    params[name] = decodeEncodedWords(paramValue);
+  }
+
+  for (const [name, parts] of Object.entries(extended)) {
+    const joined = parts.filter((part) => part !== undefined);
+    const first = joined[0] ?? "";
+    const charsetMatch = first.startsWith("\u0000")
+      ? first.slice(1).match(/^([^']*)'[^']*'/)
+      : null;
+    const charset = charsetMatch?.[1] || "utf-8";
+    const bytes = joined.map((part, index) => {
+      let text = part.startsWith("\u0000") ? part.slice(1) : part;
+      if (index === 0 && charsetMatch) {
+        text = text.slice(charsetMatch[0].length);
+      }
+      return part.startsWith("\u0000")
+        ? Buffer.from(
+            text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) =>
+              String.fromCharCode(Number.parseInt(hex, 16)),
+            ),
+            "latin1",
+          )
+        : Buffer.from(text, "latin1");
+    });
+    params[name] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeTransfer(body: Buffer, encoding: string | undefined): Buffer {
+  switch ((encoding || "").trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.toString("latin1").replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body.toString("latin1"));
+    default:
+      return body;
+  }
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const delimiter = Buffer.from(`--${boundary}`, "latin1");
+  const parts: Buffer[] = [];
+  let start = -1;
+  let cursor = 0;
+
+  while (cursor <= body.length) {
+    const found = body.indexOf(delimiter, cursor);
+    if (found === -1) {
+      break;
+    }
+    const atLineStart = found === 0 || body[found - 1] === 0x0a;
+    if (!atLineStart) {
+      cursor = found + delimiter.length;
+      continue;
+    }
+
+    if (start !== -1) {
+      let end = found;
+      if (body[end - 1] === 0x0a) {
+        end -= 1;
+      }
+      if (body[end - 1] === 0x0d) {
+        end -= 1;
+      }
+      parts.push(body.subarray(start, Math.max(end, start)));
+    }
+
+    const after = found + delimiter.length;
+    if (body[after] === 0x2d && body[after + 1] === 0x2d) {
+      return parts;
+    }
+    const lineEnd = body.indexOf(0x0a, after);
+    if (lineEnd === -1) {
+      return parts;
+    }
+    start = lineEnd + 1;
+    cursor = start;
+  }
+
+  if (start !== -1 && start < body.length) {
+    parts.push(body.subarray(start));
+  }
+  return parts;
+}
+
+function firstHeader(headers: MimeHeaders, name: string): string | undefined {
+  return headers.get(name)?.[0];
+}
+
+function walkPart(raw: Buffer, parsed: ParsedMime, headers = splitHeaderBlock(raw)): void {
+  const partHeaders = parseMimeHeaders(headers.head);
+  const contentType = parseHeaderParams(firstHeader(partHeaders, "content-type") || "text/plain");
+  const disposition = parseHeaderParams(firstHeader(partHeaders, "content-disposition") || "");
+  const encoding = firstHeader(partHeaders, "content-transfer-encoding");
+
+  if (contentType.type.startsWith("multipart/") && contentType.params.boundary) {
+    for (const part of splitMultipart(headers.body, contentType.params.boundary)) {
+      walkPart(part, parsed);
+    }
+    return;
+  }
+
+  const content = decodeTransfer(headers.body, encoding);
+  const filename = disposition.params.filename || contentType.params.name;
+  const isText = contentType.type === "text/plain" || contentType.type === "text/html";
+
+  if (isText && disposition.type !== "attachment" && !filename) {
+    const text = decodeCharset(content, contentType.params.charset);
+    if (contentType.type === "text/plain") {
+      parsed.text = parsed.text ? `${parsed.text}\n${text}` : text;
+    } else {
+      parsed.html = parsed.html ? `${parsed.html}\n${text}` : text;
+    }
+    return;
+  }
+
+  parsed.attachments.push({
+    filename,
+    contentType: contentType.type || "application/octet-stream",
+    size: content.length,
+    contentId: firstHeader(partHeaders, "content-id")?.replace(/^<|>$/g, ""),
+    inline: disposition.type === "inline",
+    content,
+  });
+}
+
+export function parseMimeMessage(raw: Buffer | string): ParsedMime {
+  const buffer = typeof raw === "string" ? Buffer.from(raw, "utf8") : raw;
+  const split = splitHeaderBlock(buffer);
+  const headers = parseMimeHeaders(split.head);
+  const header = (name: string) => {
+    const value = firstHeader(headers, name);
+    return value ? decodeEncodedWords(value) : undefined;
+  };
+
+  const parsed: ParsedMime = {
+    headers,
+    subject: header("subject"),
+    from: header("from"),
+    to: header("to"),
+    date: firstHeader(headers, "date"),
+    messageId: firstHeader(headers, "message-id"),
+    inReplyTo: firstHeader(headers, "in-reply-to"),
+    references: firstHeader(headers, "references"),
+    attachments: [],
+  };
+  walkPart(buffer, parsed, split);
+  return parsed;
+}
+
+export function mimeBodyText(parsed: ParsedMime): string | undefined {
+  const text = parsed.text?.trim();
+  if (text) {
+    return text;
+  }
+  return parsed.html ? htmlToText(parsed.html) || undefined : undefined;
+}
+
+export function mimeThreadId(parsed: ParsedMime): string | undefined {
+  const root = parsed.references?.match(/<[^>]+>/)?.[0] ?? parsed.inReplyTo?.match(/<[^>]+>/)?.[0];
+  return root ?? parsed.messageId?.match(/<[^>]+>/)?.[0] ?? parsed.messageId;
+}
+
+export function mimeAttachments(parsed: ParsedMime): MailAttachment[] {
+  return parsed.attachments.map((attachment) => ({
+    filename: attachment.filename,
+    mimeType: attachment.contentType,
+    size: attachment.size,
+    contentId: attachment.contentId,
+    inline: attachment.inline,
+    content: attachment.content,
+  }));
+}
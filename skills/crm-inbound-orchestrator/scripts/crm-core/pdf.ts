@@ -0,0 +1,234 @@
+import { inflateSync } from "node:zlib";
+
+type CMap = Map<string, string>;
+
+const STREAM_PATTERN = /<<((?:[^<>]|<<(?:[^<>]|<<[^<>]*>>)*>>|<[^<>]*>)*)>>\s*stream\r?\n/g;
+
+function decodeStream(dictionary: string, data: Buffer): Buffer | undefined {
+  if (/\/Filter\s*\[?\s*\/FlateDecode/.test(dictionary)) {
+    try {
+      return inflateSync(data);
+    } catch {
+      return undefined;
+    }
+  }
+  return /\/Filter/.test(dictionary) ? undefined : data;
+}
+
+function readStreams(buffer: Buffer): string[] {
+  const source = buffer.toString("latin1");
+  const streams: string[] = [];
+  for (const match of source.matchAll(STREAM_PATTERN)) {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = source.indexOf("endstream", start);
+    if (end === -1) {
+      continue;
+    }
+    const data = buffer.subarray(start, end);
+    const decoded = decodeStream(match[1], data);
+    if (decoded) {
+      streams.push(decoded.toString("latin1"));
+    }
+  }
+  return streams;
+}
+
+function hexToUnicode(hex: string): string {
+  let text = "";
+  for (let index = 0; index + 4 <= hex.length; index += 4) {
+    text += String.fromCharCode(Number.parseInt(hex.slice(index, index + 4), 16));
+  }
+  return text;
+}
+
+function parseCMap(stream: string, cmap: CMap): void {
+  for (const block of stream.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+      cmap.set(entry[1].toLowerCase(), hexToUnicode(entry[2]));
+    }
+  }
+  for (const block of stream.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const entry of block[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<([0-9a-fA-F]+)>|\[([^\]]*)\])/g,
+    )) {
+      const width = entry[1].length;
+      const low = Number.parseInt(entry[1], 16);
+      const high = Number.parseInt(entry[2], 16);
+      const targets = entry[5]?.match(/<([0-9a-fA-F]+)>/g)?.map((value) => value.slice(1, -1));
+      const base = entry[4] ? Number.parseInt(entry[4], 16) : 0;
+      for (let code = low; code <= high && code - low < 65_536; code += 1) {
+        const key = code.toString(16).padStart(width, "0");
+        const target = targets
+          ? targets[code - low]
+          : (base + code - low).toString(16).padStart(4, "0");
+        if (target) {
+          cmap.set(key, hexToUnicode(target));
+        }
+      }
+    }
+  }
+}
+
+function readLiteral(source: string, start: number): { value: string; end: number } {
+  let depth = 1;
+  let value = "";
+  let index = start + 1;
+  while (index < source.length && depth > 0) {
+    const char = source[index];
+    if (char === "\\") {
+      const next = source[index + 1];
+      const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "", f: "" };
+      if (next in escapes) {
+        value += escapes[next];
+        index += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = source.slice(index + 1, index + 4).match(/^[0-7]{1,3}/)?.[0] ?? "";
+        value += String.fromCharCode(Number.parseInt(octal, 8));
+        index += 1 + octal.length;
+      } else if (next === "\r" || next === "\n") {
+        index += next === "\r" && source[index + 2] === "\n" ? 3 : 2;
+      } else {
+        value += next ?? "";
+        index += 2;
+      }
+      continue;
+    }
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        break;
+      }
+    }
+    value += char;
+    index += 1;
+  }
+  return { value, end: index + 1 };
+}
+
+function decodeHex(hex: string, cmap: CMap): string {
+  const clean = hex.replace(/\s+/g, "").toLowerCase();
+  if (cmap.size > 0) {
+    let text = "";
+    let index = 0;
+    while (index < clean.length) {
+      const wide = cmap.get(clean.slice(index, index + 4));
+      if (wide !== undefined) {
+        text += wide;
+        index += 4;
+      } else {
+        text += cmap.get(clean.slice(index, index + 2)) ?? "";
+        index += 2;
+      }
+    }
+    return text;
+  }
+  let text = "";
+  for (let index = 0; index + 2 <= clean.length; index += 2) {
+    text += String.fromCharCode(Number.parseInt(clean.slice(index, index + 2), 16));
+  }
+  return text;
+}
+
+function decodeLiteral(value: string, cmap: CMap): string {
+  if (cmap.size === 0) {
+    return value;
+  }
+  let hex = "";
+  for (const char of value) {
+    hex += char.charCodeAt(0).toString(16).padStart(2, "0");
+  }
+  const mapped = decodeHex(hex, cmap);
+  return mapped || value;
+}
+
+function contentText(stream: string, cmap: CMap): string {
+  const lines: string[] = [];
+  let line = "";
+  let pending: string[] = [];
+  let index = 0;
+
+  const flush = () => {
+    if (line.trim()) {
+      lines.push(line.trim());
+    }
+    line = "";
+  };
+
+  while (index < stream.length) {
+    const char = stream[index];
+    if (char === "(") {
+      const literal = readLiteral(stream, index);
+      pending.push(decodeLiteral(literal.value, cmap));
+      index = literal.end;
+      continue;
+    }
+    if (char === "<" && stream[index + 1] !== "<") {
+      const end = stream.indexOf(">", index);
+      if (end === -1) {
+        break;
+      }
+      pending.push(decodeHex(stream.slice(index + 1, end), cmap));
+      index = end + 1;
+      continue;
+    }
+    if (char === "[") {
+      pending = [];
+      index += 1;
+      continue;
+    }
+    if (char === "]") {
+      index += 1;
+      continue;
+    }
+    if (/[-\d.]/.test(char) && pending.length > 0) {
+      const number = stream.slice(index).match(/^-?\d*\.?\d+/)?.[0];
+      if (number && Number(number) < -200) {
+        pending.push(" ");
+      }
+      index += number?.length || 1;
+      continue;
+    }
+
+    const operator = stream.slice(index).match(/^[A-Za-z'"*]+/)?.[0];
+    if (!operator) {
+      index += 1;
+      continue;
+    }
+    if (operator === "Tj" || operator === "TJ") {
+      line += pending.join("");
+    } else if (operator === "'" || operator === '"') {
+      flush();
+      line += pending.join("");
+    } else if (["Td", "TD", "T*", "Tm", "ET"].includes(operator)) {
+      flush();
+    }
+    pending = [];
+    index += operator.length;
+  }
+  flush();
+  return lines.join("\n");
+}
+
+export function extractPdfText(buffer: Buffer): string {
+  if (buffer.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    throw new Error("not a PDF document");
+  }
+
+  const streams = readStreams(buffer);
+  const cmap: CMap = new Map();
+  for (const stream of streams) {
+    if (stream.includes("begincmap")) {
+      parseCMap(stream, cmap);
+    }
+  }
+
+  return streams
+    .filter((stream) => !stream.includes("begincmap") && /\bBT\b/.test(stream))
+    .map((stream) => contentText(stream, cmap))
+    .filter(Boolean)
+    .join("\n")
+    .replace(/[^\S\n]+/g, " ")
+    .trim();
+}
@@ -0,0 +1,108 @@
+import { getRecord } from "./json.ts";
+import { LABEL_NAME_PATTERN } from "./taxonomy.ts";
+
+export type MailboxProfile = {
+  pollQuery?: string;
+  maxAgeHours?: number;
+  classifications?: string[];
+  leadLabel?: string;
+  slackChannel?: string;
+  replySignature?: string;
+};
+
+const PROFILE_KEYS: Record<string, keyof MailboxProfile> = {
+  poll_query: "pollQuery",
+  max_age_hours: "maxAgeHours",
+  classifications: "classifications",
+  lead_label: "leadLabel",
+  slack_channel: "slackChannel",
+  reply_signature: "replySignature",
+};
+
+function parseProfile(raw: unknown): { value: MailboxProfile } | { error: string } {
+  const record = getRecord(raw);
+  if (!record || Array.isArray(raw)) {
+    return { error: "expected an object" };
+  }
+
+  const profile: MailboxProfile = {};
+  for (const [name, value] of Object.entries(record)) {
+    const key = PROFILE_KEYS[name];
+    if (!key) {
+      return {
+        error: `unknown field "${name}"; expected ${Object.keys(PROFILE_KEYS).join(", ")}`,
+      };
+    }
+    if (value === null || value === undefined) {
+      continue;
+    }
+    if (key === "maxAgeHours") {
+      if (!Number.isInteger(value) || (value as number) < 1) {
+        return { error: `${name} must be a positive integer` };
+      }
+      profile.maxAgeHours = value as number;
+    } else if (key === "classifications") {
+      const labels = Array.isArray(value)
+        ? value.map((label) => String(label).trim().toLowerCase())
+        : typeof value === "string"
+          ? value
+              .split(",")
+              .map((label) => label.trim().toLowerCase())
+              .filter(Boolean)
+          : undefined;
+      const invalid = labels?.filter((label) => !LABEL_NAME_PATTERN.test(label));
+      if (!labels || invalid?.length) {
+        return {
+          error: `${name}: expected a list of classification labels${
+            invalid?.length ? `, got "${invalid.join(", ")}"` : ""
+          }`,
+        };
+      }
+      profile.classifications = labels;
+    } else {
+      if (typeof value !== "string" || !value.trim()) {
+        return { error: `${name} must be a non-empty string` };
+      }
+      profile[key] = key === "replySignature" ? value.trim() : value.trim().replace(/\s+/g, " ");
+    }
+  }
+  return { value: profile };
+}
+
+export function parseMailboxProfiles(
+  raw: unknown,
+): { value: Record<string, MailboxProfile> } | { error: string } {
+  let source = raw;
+  if (typeof raw === "string") {
+    try {
+      source = JSON.parse(raw);
+    } catch {
+      return { error: "expected a JSON object keyed by account email" };
+    }
+  }
+  const record = getRecord(source);
+  if (!record || Array.isArray(source)) {
+    return { error: "expected an object keyed by account email" };
+  }
+
+  const profiles: Record<string, MailboxProfile> = {};
+  for (const [account, entry] of Object.entries(record)) {
+    const email = account.trim().toLowerCase();
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
+      return { error: `invalid account email "${account}"` };
+    }
+    const parsed = parseProfile(entry);
+    if ("error" in parsed) {
+      return { error: `${email}: ${parsed.error}` };
+    }
+    profiles[email] = parsed.value;
+  }
+  return { value: profiles };
+}
+
+export function mailboxProfile(
+  profiles: Record<string, MailboxProfile> | undefined,
+  account: string | undefined,
+): MailboxProfile {
+  return (account && profiles?.[account.trim().toLowerCase()]) || {};
+}
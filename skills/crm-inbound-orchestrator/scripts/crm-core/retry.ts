@@ -0,0 +1,223 @@
+import { setTimeout as sleep } from "node:timers/promises";
+
+export type RetryService = "supabase" | "slack" | "notion" | "openai" | "gmail" | "graph";
+
+export type RetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  budgetMs: number;
+  timeoutMs: number;
+  retryStatuses: number[];
+  retryNetworkErrors: boolean;
+};
+
+export type RetryEvent = {
+  service: RetryService;
+  label: string;
+  attempt: number;
+  max_attempts: number;
+  delay_ms: number;
+  reason: string;
+};
+
+const TRANSIENT_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+const DEFAULT_POLICIES: Record<RetryService, RetryPolicy> = {
+  supabase: {
+    maxAttempts: 4,
+    baseDelayMs: 500,
+    maxDelayMs: 10_000,
+    budgetMs: 30_000,
+    timeoutMs: 15_000,
+    retryStatuses: TRANSIENT_STATUSES,
+    retryNetworkErrors: true,
+  },
+  slack: {
+    maxAttempts: 3,
+    baseDelayMs: 1_000,
+    maxDelayMs: 30_000,
+    budgetMs: 60_000,
+    timeoutMs: 15_000,
+    retryStatuses: [429],
+    retryNetworkErrors: false,
+  },
+  notion: {
+    maxAttempts: 4,
+    baseDelayMs: 1_000,
+    maxDelayMs: 30_000,
+    budgetMs: 60_000,
+    timeoutMs: 30_000,
+    retryStatuses: TRANSIENT_STATUSES,
+    retryNetworkErrors: true,
+  },
+  openai: {
+    maxAttempts: 3,
+    baseDelayMs: 1_000,
+    maxDelayMs: 20_000,
+    budgetMs: 45_000,
+    timeoutMs: 45_000,
+    retryStatuses: TRANSIENT_STATUSES,
+    retryNetworkErrors: true,
+  },
+  gmail: {
+    maxAttempts: 4,
+    baseDelayMs: 1_000,
+    maxDelayMs: 30_000,
+    budgetMs: 60_000,
+    timeoutMs: 30_000,
+    retryStatuses: TRANSIENT_STATUSES,
+    retryNetworkErrors: true,
+  },
+  graph: {
+    maxAttempts: 4,
+    baseDelayMs: 1_000,
+    maxDelayMs: 30_000,
+    budgetMs: 60_000,
+    timeoutMs: 30_000,
+    retryStatuses: TRANSIENT_STATUSES,
+    retryNetworkErrors: true,
+  },
+};
+
+export const RETRY_SERVICES = Object.keys(DEFAULT_POLICIES) as RetryService[];
+
+export const RETRY_SETTINGS = [
+  "MaxAttempts",
+  "BaseDelayMs",
+  "MaxDelayMs",
+  "BudgetMs",
+  "TimeoutMs",
+] as const;
+
+export type RetrySettingKey = `retry${Capitalize<RetryService>}${(typeof RETRY_SETTINGS)[number]}`;
+
+export type RetrySettings = { retryMaxAttempts?: number } & Partial<
+  Record<RetrySettingKey, number>
+>;
+
+const retryListeners = new Set<(event: RetryEvent) => void>();
+let configuredSettings: RetrySettings = {};
+
+export function retrySettingKey(
+  service: RetryService,
+  setting: (typeof RETRY_SETTINGS)[number],
+): RetrySettingKey {
+  return `retry${service[0].toUpperCase()}${service.slice(1)}${setting}` as RetrySettingKey;
+}
+
+export function configureRetryPolicies(settings: RetrySettings): void {
+  configuredSettings = settings;
+}
+
+export function resolveRetryPolicy(
+  service: RetryService,
+  settings: RetrySettings = configuredSettings,
+): RetryPolicy {
+  const defaults = DEFAULT_POLICIES[service];
+  const setting = (name: (typeof RETRY_SETTINGS)[number]) =>
+    settings[retrySettingKey(service, name)];
+
+  return {
+    ...defaults,
+    maxAttempts: Math.max(
+      1,
+      setting("MaxAttempts") ?? settings.retryMaxAttempts ?? defaults.maxAttempts,
+    ),
+    baseDelayMs: setting("BaseDelayMs") ?? defaults.baseDelayMs,
+    maxDelayMs: setting("MaxDelayMs") ?? defaults.maxDelayMs,
+    budgetMs: setting("BudgetMs") ?? defaults.budgetMs,
+    timeoutMs: setting("TimeoutMs") ?? defaults.timeoutMs,
+  };
+}
+
+export function onRetryAttempt(listener: (event: RetryEvent) => void): () => void {
+  retryListeners.add(listener);
+  return () => {
+    retryListeners.delete(listener);
+  };
+}
+
+export function formatRetryEvent(event: RetryEvent): string {
+  return `Retrying ${event.service} ${event.label} (attempt ${event.attempt + 1}/${event.max_attempts} in ${event.delay_ms}ms): ${event.reason}`;
+}
+
+export function parseRetryAfter(value: string | null, nowMs = Date.now()): number | undefined {
+  const text = value?.trim();
+  if (!text) {
+    return undefined;
+  }
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(Number.parseFloat(text) * 1000);
+  }
+  const dateMs = Date.parse(text);
+  if (!Number.isFinite(dateMs)) {
+    return undefined;
+  }
+  return Math.max(0, dateMs - nowMs);
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function emit(event: RetryEvent): void {
+  for (const listener of retryListeners) {
+    listener(event);
+  }
+}
+
+export async function fetchWithRetry(
+  service: RetryService,
+  label: string,
+  url: string,
+  init: RequestInit,
+  policy: RetryPolicy = resolveRetryPolicy(service),
+): Promise<Response> {
+  const startedMs = Date.now();
+
+  for (let attempt = 1; ; attempt += 1) {
+    let reason: string;
+    let retryAfterMs: number | undefined;
+    let response: Response | undefined;
+
+    const remainingMs = policy.budgetMs - (Date.now() - startedMs);
+    const timeout = AbortSignal.timeout(Math.max(Math.min(policy.timeoutMs, remainingMs), 1_000));
+    try {
+      response = await fetch(url, {
+        ...init,
+        signal: init.signal ? AbortSignal.any([init.signal, timeout]) : timeout,
+      });
+      if (!policy.retryStatuses.includes(response.status) || attempt >= policy.maxAttempts) {
+        return response;
+      }
+      reason = `HTTP ${response.status}`;
+      retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+    } catch (error) {
+      if (!policy.retryNetworkErrors || attempt >= policy.maxAttempts) {
+        throw error;
+      }
+      reason = error instanceof Error ? error.message : "network error";
+    }
+
+    const delayMs = retryAfterMs ?? backoffDelay(policy, attempt);
+    if (Date.now() - startedMs + delayMs > policy.budgetMs) {
+      if (response) {
+        return response;
+      }
+      throw new Error(`${service} ${label} gave up after ${attempt} attempt(s): ${reason}`);
+    }
+
+    await response?.body?.cancel();
+    emit({
+      service,
+      label,
+      attempt,
+      max_attempts: policy.maxAttempts,
+      delay_ms: delayMs,
+      reason: retryAfterMs !== undefined ? `${reason}, Retry-After ${retryAfterMs}ms` : reason,
+    });
+    await sleep(delayMs);
+  }
+}
@@ -0,0 +1,177 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+
+import { getRecord } from "./json.ts";
+import type { SopSnapshot } from "./types.ts";
+
+export type ClassifierRuleLists = {
+  leadIntentSignals: string[];
+  leadDirectAskSignals: string[];
+  leadCommercialSignals: string[];
+  expertNetworkDomains: string[];
+  automatedSenderSignals: string[];
+  automatedTextSignals: string[];
+  newsletterDigestSignals: string[];
+  gmailPromotionalLabels: string[];
+  broadcastSenderHints: string[];
+  hiringSignals: string[];
+  jobNetworkDomains: string[];
+  vendorSystemDomains: string[];
+  receiptSignals: string[];
+  supportSignals: string[];
+};
+
+export type ClassifierRules = ClassifierRuleLists & {
+  version: number;
+  hash: string;
+  sources: string[];
+};
+
+const RULE_LISTS: Record<string, keyof ClassifierRuleLists> = {
+  lead_intent_signals: "leadIntentSignals",
+  lead_direct_ask_signals: "leadDirectAskSignals",
+  lead_commercial_signals: "leadCommercialSignals",
+  expert_network_domains: "expertNetworkDomains",
+  automated_sender_signals: "automatedSenderSignals",
+  automated_text_signals: "automatedTextSignals",
+  newsletter_digest_signals: "newsletterDigestSignals",
+  gmail_promotional_labels: "gmailPromotionalLabels",
+  broadcast_sender_hints: "broadcastSenderHints",
+  hiring_signals: "hiringSignals",
+  job_network_domains: "jobNetworkDomains",
+  vendor_system_domains: "vendorSystemDomains",
+  receipt_signals: "receiptSignals",
+  support_signals: "supportSignals",
+};
+
+const SOP_RULES_HEADING = /^\s*(?:[\d.)]+\s*)?classifier rules\s*$/i;
+
+export const DEFAULT_RULES_FILE = fileURLToPath(
+  new URL("../../references/classifier-rules.json", import.meta.url),
+);
+
+export function isSopRulesHeading(heading: string | undefined): boolean {
+  return SOP_RULES_HEADING.test(heading ?? "");
+}
+
+function normalizeEntry(name: string, raw: unknown): { value: string } | { error: string } {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return { error: `${name} entries must be non-empty strings` };
+  }
+  const value = raw.trim().replace(/\s+/g, " ");
+  if (name.endsWith("_domains")) {
+    const domain = value.toLowerCase().replace(/^@/, "");
+    return /^[a-z0-9-]+(?:\.[a-z0-9-]+)+$/.test(domain)
+      ? { value: domain }
+      : { error: `${name}: "${value}" is not a domain` };
+  }
+  if (name === "gmail_promotional_labels") {
+    const label = value.toUpperCase();
+    return /^[A-Z0-9_/-]+$/.test(label)
+      ? { value: label }
+      : { error: `${name}: "${value}" is not a Gmail label id` };
+  }
+  return { value: value.toLowerCase() };
+}
+
+export function parseClassifierRules(
+  raw: unknown,
+): { value: ClassifierRuleLists & { version: number } } | { error: string } {
+  const record = getRecord(raw);
+  if (!record || Array.isArray(raw)) {
+    return { error: "expected a JSON object" };
+  }
+  const version = record.version;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    return { error: "version must be a positive integer" };
+  }
+
+  const unknown = Object.keys(record).filter((name) => name !== "version" && !RULE_LISTS[name]);
+  if (unknown.length > 0) {
+    return {
+      error: `unknown field "${unknown[0]}"; expected version, ${Object.keys(RULE_LISTS).join(", ")}`,
+    };
+  }
+
+  const lists = {} as ClassifierRuleLists;
+  for (const [name, key] of Object.entries(RULE_LISTS)) {
+    const entries = record[name];
+    if (!Array.isArray(entries)) {
+      return { error: `${name} must be a list of strings` };
+    }
+    const values: string[] = [];
+    for (const entry of entries) {
+      const normalized = normalizeEntry(name, entry);
+      if ("error" in normalized) {
+        return normalized;
+      }
+      values.push(normalized.value);
+    }
+    lists[key] = [...new Set(values)];
+  }
+  return { value: { version: version as number, ...lists } };
+}
+
+function mergeSopRules(
+  lists: ClassifierRuleLists,
+  sop: SopSnapshot | undefined,
+): { added: number; warnings: string[] } {
+  const warnings: string[] = [];
+  let added = 0;
+  const sections = Array.isArray(sop?.sop?.sections) ? sop.sop.sections : [];
+  for (const section of sections.filter((entry) => isSopRulesHeading(entry?.heading))) {
+    for (const item of Array.isArray(section.items) ? section.items : []) {
+      const match = typeof item === "string" ? item.match(/^([^:]+):(.*)$/) : null;
+      const name = (match?.[1].trim() ?? "").toLowerCase().replace(/[\s-]+/g, "_");
+      const key = RULE_LISTS[name];
+      if (!match || !key) {
+        warnings.push(`Ignored SOP classifier rule "${String(item)}": expected "<list>: a, b"`);
+        continue;
+      }
+      for (const entry of match[2].split(",").filter((value) => value.trim())) {
+        const normalized = normalizeEntry(name, entry);
+        if ("error" in normalized) {
+          warnings.push(`Ignored SOP classifier rule: ${normalized.error}`);
+        } else if (!lists[key].includes(normalized.value)) {
+          lists[key].push(normalized.value);
+          added += 1;
+        }
+      }
+    }
+  }
+  return { added, warnings };
+}
+
+export async function loadClassifierRules(
+  options: { file?: string; sop?: SopSnapshot } = {},
+): Promise<{ rules: ClassifierRules; warnings: string[] }> {
+  const file = options.file || DEFAULT_RULES_FILE;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Classifier rules ${file} could not be read: ${error instanceof Error ? error.message : "unknown error"}`,
+    );
+  }
+  const parsed = parseClassifierRules(raw);
+  if ("error" in parsed) {
+    throw new Error(`Classifier rules ${file} are invalid: ${parsed.error}`);
+  }
+
+  const { version, ...lists } = parsed.value;
+  const merged = mergeSopRules(lists, options.sop);
+  const hash = createHash("sha256")
+    .update(JSON.stringify({ version, ...lists }))
+    .digest("hex");
+  return {
+    rules: {
+      version,
+      hash,
+      sources: merged.added > 0 ? [file, "notion-sop"] : [file],
+      ...lists,
+    },
+    warnings: merged.warnings,
+  };
+}
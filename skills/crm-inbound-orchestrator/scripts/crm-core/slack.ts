@@ -0,0 +1,68 @@
+import { loadConfig, type CrmConfig } from "./config.ts";
+import { fetchWithRetry } from "./retry.ts";
+
+export type SlackBlock = Record<string, unknown>;
+
+export type SlackMessage = {
+  text: string;
+  blocks?: SlackBlock[];
+  channel?: string;
+};
+
+export type SlackPostResult = {
+  posted: boolean;
+  error?: string;
+};
+
+export type SlackClient = {
+  postMessage(message: SlackMessage): Promise<SlackPostResult>;
+};
+
+export function createSlackClient(options: { token?: string; channel?: string }): SlackClient {
+  async function postMessage(message: SlackMessage): Promise<SlackPostResult> {
+    const channel = message.channel || options.channel;
+    if (!options.token || !channel) {
+      return { posted: false, error: "CRM_SLACK_CHANNEL_ID or SLACK_BOT_TOKEN missing" };
+    }
+
+    const response = await fetchWithRetry(
+      "slack",
+      "chat.postMessage",
+      "https://slack.com/api/chat.postMessage",
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${options.token}`,
+          "Content-Type": "application/json; charset=utf-8",
+        },
+        body: JSON.stringify({
+          channel,
+          text: message.text,
+          ...(Array.isArray(message.blocks) && message.blocks.length > 0
+            ? { blocks: message.blocks }
+            : {}),
+          unfurl_links: false,
+          unfurl_media: false,
+        }),
+      },
+    );
+
+    const data = (await response.json()) as Record<string, unknown>;
+    if (response.ok && data.ok === true) {
+      return { posted: true };
+    }
+
+    const error = typeof data.error === "string" ? data.error : `slack-error-${response.status}`;
+    return { posted: false, error };
+  }
+
+  return { postMessage };
+}
+
+export function createSlackClientFromConfig(config: CrmConfig = loadConfig()): SlackClient {
+  return createSlackClient({ token: config.slackBotToken, channel: config.slackChannelId });
+}
+
+export async function maybePostSlack(message: SlackMessage): Promise<SlackPostResult> {
+  return createSlackClientFromConfig().postMessage(message);
+}
@@ -0,0 +1,97 @@
+import { hostname } from "node:os";
+import type { Socket } from "node:net";
+
+import {
+  connectMailSocket,
+  createSocketReader,
+  DEFAULT_MAIL_TIMEOUT_MS,
+  upgradeMailSocket,
+  type MailServer,
+  type SocketReader,
+} from "./mail-socket.ts";
+
+export type SmtpEnvelope = {
+  from: string;
+  recipients: string[];
+  data: string;
+};
+
+type SmtpReply = {
+  code: number;
+  lines: string[];
+};
+
+function dotStuff(data: string): string {
+  const normalized = data.replace(/\r?\n/g, "\r\n");
+  const stuffed = normalized.replace(/(^|\r\n)\./g, "$1..");
+  return stuffed.endsWith("\r\n") ? stuffed : `${stuffed}\r\n`;
+}
+
+export async function sendSmtpMail(
+  server: MailServer,
+  envelope: SmtpEnvelope,
+  timeoutMs = DEFAULT_MAIL_TIMEOUT_MS,
+): Promise<void> {
+  let socket: Socket = await connectMailSocket(server, timeoutMs);
+  let reader: SocketReader = createSocketReader(socket, timeoutMs);
+
+  async function readReply(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await reader.readLine();
+      lines.push(line.slice(4));
+      if (line.length < 4 || line[3] !== "-") {
+        return { code: Number(line.slice(0, 3)), lines };
+      }
+    }
+  }
+
+  async function expect(label: string, codes: number[], input?: string): Promise<SmtpReply> {
+    if (input !== undefined) {
+      socket.write(`${input}\r\n`);
+    }
+    const reply = await readReply();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed (${reply.code}): ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  try {
+    await expect("greeting", [220]);
+    const helo = hostname() || "localhost";
+    let ehlo = await expect("EHLO", [250], `EHLO ${helo}`);
+
+    if (server.security === "starttls") {
+      await expect("STARTTLS", [220], "STARTTLS");
+      reader.detach();
+      socket = await upgradeMailSocket(socket, server.host, timeoutMs);
+      reader = createSocketReader(socket, timeoutMs);
+      ehlo = await expect("EHLO", [250], `EHLO ${helo}`);
+    }
+
+    if (server.user) {
+      const auth = ehlo.lines.find((line) => /^AUTH\b/i.test(line))?.toUpperCase() ?? "";
+      const password = server.password ?? "";
+      if (/\bPLAIN\b/.test(auth) || !/\bLOGIN\b/.test(auth)) {
+        const token = Buffer.from(`\u0000${server.user}\u0000${password}`).toString("base64");
+        await expect("AUTH", [235], `AUTH PLAIN ${token}`);
+      } else {
+        await expect("AUTH", [334], "AUTH LOGIN");
+        await expect("AUTH", [334], Buffer.from(server.user).toString("base64"));
+        await expect("AUTH", [235], Buffer.from(password).toString("base64"));
+      }
+    }
+
+    await expect("MAIL FROM", [250], `MAIL FROM:<${envelope.from}>`);
+    for (const recipient of envelope.recipients) {
+      await expect("RCPT TO", [250, 251], `RCPT TO:<${recipient}>`);
+    }
+    await expect("DATA", [354], "DATA");
+    await expect("DATA", [250], `${dotStuff(envelope.data)}.`);
+    await expect("QUIT", [221], "QUIT").catch(() => undefined);
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+}
@@ -0,0 +1,669 @@
+import { randomUUID } from "node:crypto";
+import type { DatabaseSync, SQLInputValue } from "node:sqlite";
+
+import {
+  loadMigrations,
+  MIGRATIONS_TABLE,
+  MIGRATIONS_TABLE_SQL,
+  type AppliedMigration,
+  type Migration,
+  type MigrationRunner,
+} from "./migrations.ts";
+import {
+  createTableOperations,
+  type StorageClient,
+  type StorageRequestOptions,
+} from "./storage.ts";
+
+type ColumnKind = "text" | "json" | "boolean" | "number";
+
+type ColumnInfo = {
+  name: string;
+  kind: ColumnKind;
+  definition: string;
+  generatedUuid: boolean;
+};
+
+type TableInfo = {
+  name: string;
+  columns: Map<string, ColumnInfo>;
+  primaryKey: string[];
+  references: Array<{ column: string; table: string }>;
+};
+
+export type SqliteSchema = {
+  tables: Map<string, TableInfo>;
+};
+
+type SqliteStatement =
+  { kind: "exec"; sql: string } | { kind: "add_column"; table: string; column: ColumnInfo };
+
+type Filter = { column: string; operator: string; value: string };
+
+type SelectItem = { column: string } | { embed: string; alias: string; columns: string[] };
+
+const RESERVED_PARAMS = new Set(["select", "order", "limit", "offset", "on_conflict", "columns"]);
+
+const SQLITE_NOW = "(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))";
+
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (const char of text) {
+    if (char === "'") {
+      quoted = !quoted;
+    } else if (!quoted && char === "(") {
+      depth += 1;
+    } else if (!quoted && char === ")") {
+      depth -= 1;
+    }
+    if (char === separator && depth === 0 && !quoted) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) {
+    parts.push(current);
+  }
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+function parseInList(text: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let quoted = false;
+  let wasQuoted = false;
+  let escaped = false;
+  const push = () => {
+    const value = wasQuoted ? current : current.trim();
+    if (wasQuoted || value) {
+      values.push(value);
+    }
+    current = "";
+    wasQuoted = false;
+  };
+  for (const char of text.replace(/^\(|\)$/g, "")) {
+    if (escaped) {
+      current += char;
+      escaped = false;
+    } else if (quoted && char === "\\") {
+      escaped = true;
+    } else if (char === '"') {
+      quoted = !quoted;
+      wasQuoted = true;
+    } else if (char === "," && !quoted) {
+      push();
+    } else {
+      current += char;
+    }
+  }
+  push();
+  return values;
+}
+
+function mapColumnType(pgType: string): { sqlType: string; kind: ColumnKind } {
+  const type = pgType.toLowerCase();
+  if (type === "jsonb" || type === "json") {
+    return { sqlType: "text", kind: "json" };
+  }
+  if (type === "boolean") {
+    return { sqlType: "integer", kind: "boolean" };
+  }
+  if (type === "integer" || type === "int" || type === "bigint" || type === "smallint") {
+    return { sqlType: "integer", kind: "number" };
+  }
+  if (type.startsWith("numeric") || type === "real" || type.startsWith("double")) {
+    return { sqlType: "real", kind: "number" };
+  }
+  return { sqlType: "text", kind: "text" };
+}
+
+function translateColumn(definition: string): ColumnInfo & { primaryKey: boolean; ref?: string } {
+  const match = definition.match(/^(\w+)\s+(\w+(?:\(\d+(?:,\s*\d+)?\))?)(.*)$/s);
+  if (!match) {
+    throw new Error(`Unsupported column definition: ${definition}`);
+  }
+  const [, name, pgType, rest] = match;
+  const { sqlType, kind } = mapColumnType(pgType);
+  const generatedUuid = /default\s+gen_random_uuid\(\)/i.test(rest);
+  const modifiers = rest
+    .replace(/default\s+gen_random_uuid\(\)/i, "")
+    .replace(/default\s+now\(\)/i, `default ${SQLITE_NOW}`)
+    .replace(/::jsonb?/gi, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  const ref = rest.match(/references\s+(\w+)\s*\(/i)?.[1];
+
+  return {
+    name,
+    kind,
+    definition: `${name} ${sqlType}${modifiers ? ` ${modifiers}` : ""}`,
+    generatedUuid,
+    primaryKey: /primary key/i.test(rest),
+    ref,
+  };
+}
+
+export function translatePostgresSql(sql: string, schema: SqliteSchema): SqliteStatement[] {
+  const translated: SqliteStatement[] = [];
+  const statements = sql
+    .replace(/--.*$/gm, "")
+    .split(";")
+    .map((statement) => statement.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  for (const statement of statements) {
+    const create = statement.match(/^create table if not exists (\w+) \((.*)\)$/i);
+    if (create) {
+      const [, tableName, body] = create;
+      const table: TableInfo = {
+        name: tableName,
+        columns: new Map(),
+        primaryKey: [],
+        references: [],
+      };
+      const definitions: string[] = [];
+      for (const item of splitTopLevel(body, ",")) {
+        if (/^(unique|primary key|foreign key|check)\b/i.test(item)) {
+          const primaryKey = item.match(/^primary key \((.*)\)$/i);
+          if (primaryKey) {
+            table.primaryKey = primaryKey[1].split(",").map((column) => column.trim());
+          }
+          definitions.push(item);
+          continue;
+        }
+        const column = translateColumn(item);
+        table.columns.set(column.name, column);
+        if (column.primaryKey) {
+          table.primaryKey = [column.name];
+        }
+        if (column.ref) {
+          table.references.push({ column: column.name, table: column.ref });
+        }
+        definitions.push(column.definition);
+      }
+      schema.tables.set(tableName, table);
+      translated.push({
+        kind: "exec",
+        sql: `create table if not exists ${tableName} (${definitions.join(", ")})`,
+      });
+      continue;
+    }
+
+    const alter = statement.match(/^alter table (\w+) add column if not exists (.*)$/i);
+    if (alter) {
+      const [, tableName, definition] = alter;
+      const column = translateColumn(definition);
+      column.definition = column.definition.replace(/\s+unique\b/i, "");
+      const table = schema.tables.get(tableName);
+      if (table && !table.columns.has(column.name)) {
+        table.columns.set(column.name, column);
+      }
+      translated.push({ kind: "add_column", table: tableName, column });
+      continue;
+    }
+
+    if (/^create (unique )?index if not exists/i.test(statement)) {
+      translated.push({ kind: "exec", sql: statement });
+      continue;
+    }
+
+    if (!/^create extension/i.test(statement)) {
+      throw new Error(`Unsupported statement for SQLite: ${statement.slice(0, 80)}`);
+    }
+  }
+
+  return translated;
+}
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function encodeValue(column: ColumnInfo | undefined, value: unknown): SQLInputValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (column?.kind === "json" || (typeof value === "object" && !(value instanceof Uint8Array))) {
+    return JSON.stringify(value);
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (typeof value === "number" || typeof value === "string" || typeof value === "bigint") {
+    return value;
+  }
+  return String(value);
+}
+
+function encodeFilterValue(column: ColumnInfo, value: string): SQLInputValue {
+  if (column.kind === "boolean") {
+    return value === "true" ? 1 : value === "false" ? 0 : value;
+  }
+  if (column.kind === "number" && value.trim() !== "" && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+function decodeRow(table: TableInfo, row: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    const column = table.columns.get(key);
+    if (column?.kind === "json" && typeof value === "string") {
+      try {
+        out[key] = JSON.parse(value);
+      } catch {
+        out[key] = value;
+      }
+    } else if (column?.kind === "boolean" && (value === 0 || value === 1)) {
+      out[key] = value === 1;
+    } else {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+function parseSelect(select: string | null): SelectItem[] {
+  if (!select || select.trim() === "*") {
+    return [{ column: "*" }];
+  }
+  return splitTopLevel(select, ",").map((item) => {
+    const embed = item.match(/^(?:(\w+):)?(\w+)\((.*)\)$/);
+    if (embed) {
+      return {
+        embed: embed[2],
+        alias: embed[1] ?? embed[2],
+        columns: splitTopLevel(embed[3], ","),
+      };
+    }
+    return { column: item };
+  });
+}
+
+function parseFilters(table: TableInfo, query: URLSearchParams | undefined): Filter[] {
+  const filters: Filter[] = [];
+  for (const [key, raw] of query ?? []) {
+    if (RESERVED_PARAMS.has(key)) {
+      continue;
+    }
+    if (!table.columns.has(key)) {
+      throw new Error(`Unknown column ${table.name}.${key}`);
+    }
+    const dot = raw.indexOf(".");
+    if (dot < 0) {
+      throw new Error(`Invalid filter ${key}=${raw}`);
+    }
+    filters.push({ column: key, operator: raw.slice(0, dot), value: raw.slice(dot + 1) });
+  }
+  return filters;
+}
+
+function buildWhere(
+  table: TableInfo,
+  filters: Filter[],
+): { clause: string; params: SQLInputValue[] } {
+  const conditions: string[] = [];
+  const params: SQLInputValue[] = [];
+  const comparisons: Record<string, string> = {
+    eq: "=",
+    neq: "!=",
+    gt: ">",
+    gte: ">=",
+    lt: "<",
+    lte: "<=",
+    like: "like",
+    ilike: "like",
+  };
+
+  for (const filter of filters) {
+    const column = table.columns.get(filter.column) as ColumnInfo;
+    const ident = quoteIdent(filter.column);
+    if (filter.operator === "is") {
+      const value = filter.value.toLowerCase();
+      if (value === "null") {
+        conditions.push(`${ident} is null`);
+      } else if (value === "true" || value === "false") {
+        conditions.push(`${ident} = ?`);
+        params.push(value === "true" ? 1 : 0);
+      } else {
+        throw new Error(`Unsupported is.${filter.value} filter on ${filter.column}`);
+      }
+      continue;
+    }
+    if (filter.operator === "in") {
+      const values = parseInList(filter.value);
+      if (values.length === 0) {
+        conditions.push("0");
+        continue;
+      }
+      conditions.push(`${ident} in (${values.map(() => "?").join(", ")})`);
+      params.push(...values.map((value) => encodeFilterValue(column, value)));
+      continue;
+    }
+    const comparison = comparisons[filter.operator];
+    if (!comparison) {
+      throw new Error(`Unsupported filter operator ${filter.operator} on ${filter.column}`);
+    }
+    conditions.push(`${ident} ${comparison} ?`);
+    params.push(
+      comparison === "like"
+        ? filter.value.replace(/\*/g, "%")
+        : encodeFilterValue(column, filter.value),
+    );
+  }
+
+  return { clause: conditions.length > 0 ? ` where ${conditions.join(" and ")}` : "", params };
+}
+
+function buildOrder(table: TableInfo, order: string | null): string {
+  if (!order) {
+    return "";
+  }
+  const terms = order.split(",").map((term) => {
+    const [column, ...modifiers] = term.trim().split(".");
+    if (!table.columns.has(column)) {
+      throw new Error(`Unknown order column ${table.name}.${column}`);
+    }
+    const direction = modifiers.includes("desc") ? "desc" : "asc";
+    const nulls = modifiers.includes("nullsfirst")
+      ? " nulls first"
+      : modifiers.includes("nullslast")
+        ? " nulls last"
+        : "";
+    return `${quoteIdent(column)} ${direction}${nulls}`;
+  });
+  return ` order by ${terms.join(", ")}`;
+}
+
+export function createSqliteClient(options: {
+  file: string;
+  migrationsDir?: string;
+}): StorageClient {
+  let opened: Promise<{ db: DatabaseSync; schema: SqliteSchema }> | undefined;
+
+  async function open(): Promise<{ db: DatabaseSync; schema: SqliteSchema }> {
+    const { DatabaseSync } = await import("node:sqlite");
+    const schema: SqliteSchema = { tables: new Map() };
+    translatePostgresSql(MIGRATIONS_TABLE_SQL, schema);
+    for (const migration of await loadMigrations(options.migrationsDir)) {
+      translatePostgresSql(migration.sql, schema);
+    }
+    const db = new DatabaseSync(options.file);
+    db.exec("pragma foreign_keys = on");
+    return { db, schema };
+  }
+
+  function tableInfo(schema: SqliteSchema, name: string): TableInfo {
+    const table = schema.tables.get(name);
+    if (!table) {
+      throw new Error(`Unknown table ${name}`);
+    }
+    return table;
+  }
+
+  function selectRows(
+    db: DatabaseSync,
+    schema: SqliteSchema,
+    table: TableInfo,
+    query: URLSearchParams | undefined,
+  ): Record<string, unknown>[] {
+    const items = parseSelect(query?.get("select") ?? null);
+    const columns = items.flatMap((item) => ("column" in item ? [item.column] : []));
+    const embeds = items.filter(
+      (item): item is Extract<SelectItem, { embed: string }> => "embed" in item,
+    );
+    for (const column of columns) {
+      if (column !== "*" && !table.columns.has(column)) {
+        throw new Error(`Unknown column ${table.name}.${column}`);
+      }
+    }
+
+    const selectList =
+      columns.includes("*") || columns.length === 0
+        ? "*"
+        : Array.from(new Set([...columns, ...(embeds.length > 0 ? table.primaryKey : [])]))
+            .map(quoteIdent)
+            .join(", ");
+    const { clause, params } = buildWhere(table, parseFilters(table, query));
+    const limit = query?.get("limit");
+    const offset = query?.get("offset");
+    const sql =
+      `select ${selectList} from ${quoteIdent(table.name)}${clause}` +
+      buildOrder(table, query?.get("order") ?? null) +
+      (limit ? ` limit ${Number.parseInt(limit, 10)}` : offset ? " limit -1" : "") +
+      (offset ? ` offset ${Number.parseInt(offset, 10)}` : "");
+
+    const rows = db
+      .prepare(sql)
+      .all(...params)
+      .map((row) => decodeRow(table, row as Record<string, unknown>));
+
+    for (const embed of embeds) {
+      const child = tableInfo(schema, embed.embed);
+      const link = child.references.find((entry) => entry.table === table.name);
+      const parentKey = table.primaryKey[0];
+      if (!link || !parentKey) {
+        throw new Error(`No relationship between ${table.name} and ${child.name}`);
+      }
+      const parentIds = rows.map((row) => row[parentKey]).filter((value) => value != null);
+      const childQuery = new URLSearchParams();
+      childQuery.set(
+        "select",
+        embed.columns.includes("*") ? "*" : [...embed.columns, link.column].join(","),
+      );
+      childQuery.set(link.column, `in.(${parentIds.join(",")})`);
+      const children = parentIds.length > 0 ? selectRows(db, schema, child, childQuery) : [];
+      for (const row of rows) {
+        row[embed.alias] = children
+          .filter((entry) => entry[link.column] === row[parentKey])
+          .map((entry) => {
+            if (embed.columns.includes("*") || embed.columns.includes(link.column)) {
+              return entry;
+            }
+            const { [link.column]: _link, ...rest } = entry;
+            return rest;
+          });
+      }
+    }
+
+    return rows;
+  }
+
+  function insertRows(
+    db: DatabaseSync,
+    table: TableInfo,
+    req: StorageRequestOptions,
+  ): Record<string, unknown>[] {
+    const rows = (Array.isArray(req.body) ? req.body : [req.body]) as Record<string, unknown>[];
+    const prefer = req.prefer ?? "";
+    const conflict = req.query
+      ?.get("on_conflict")
+      ?.split(",")
+      .map((column) => column.trim());
+    const target = conflict && conflict.length > 0 ? conflict : table.primaryKey;
+    const inserted: Record<string, unknown>[] = [];
+
+    for (const input of rows) {
+      const provided = Object.keys(input).filter((key) => input[key] !== undefined);
+      for (const key of provided) {
+        if (!table.columns.has(key)) {
+          throw new Error(`Unknown column ${table.name}.${key}`);
+        }
+      }
+      const row: Record<string, unknown> = { ...input };
+      for (const column of table.columns.values()) {
+        if (column.generatedUuid && row[column.name] == null) {
+          row[column.name] = randomUUID();
+        }
+      }
+      const keys = Object.keys(row).filter((key) => row[key] !== undefined);
+      const updates = provided.filter((key) => !target.includes(key));
+
+      let conflictClause = "";
+      if (prefer.includes("resolution=ignore-duplicates")) {
+        conflictClause = ` on conflict (${target.map(quoteIdent).join(", ")}) do nothing`;
+      } else if (prefer.includes("resolution=merge-duplicates")) {
+        conflictClause =
+          updates.length > 0
+            ? ` on conflict (${target.map(quoteIdent).join(", ")}) do update set ${updates
+                .map((key) => `${quoteIdent(key)} = excluded.${quoteIdent(key)}`)
+                .join(", ")}`
+            : ` on conflict (${target.map(quoteIdent).join(", ")}) do nothing`;
+      }
+
+      const sql =
+        `insert into ${quoteIdent(table.name)} (${keys.map(quoteIdent).join(", ")}) ` +
+        `values (${keys.map(() => "?").join(", ")})${conflictClause} returning *`;
+      const returned = db
+        .prepare(sql)
+        .all(...keys.map((key) => encodeValue(table.columns.get(key), row[key])));
+
+      if (returned.length === 0 && prefer.includes("resolution=merge-duplicates")) {
+        const existing = new URLSearchParams();
+        for (const column of target) {
+          existing.set(column, `eq.${String(row[column])}`);
+        }
+        const { clause, params } = buildWhere(table, parseFilters(table, existing));
+        returned.push(
+          ...db.prepare(`select * from ${quoteIdent(table.name)}${clause}`).all(...params),
+        );
+      }
+      inserted.push(...returned.map((entry) => decodeRow(table, entry as Record<string, unknown>)));
+    }
+
+    return inserted;
+  }
+
+  function updateRows(
+    db: DatabaseSync,
+    schema: SqliteSchema,
+    table: TableInfo,
+    req: StorageRequestOptions,
+  ): Record<string, unknown>[] {
+    const patch = (req.body ?? {}) as Record<string, unknown>;
+    const keys = Object.keys(patch).filter((key) => patch[key] !== undefined);
+    for (const key of keys) {
+      if (!table.columns.has(key)) {
+        throw new Error(`Unknown column ${table.name}.${key}`);
+      }
+    }
+    if (keys.length === 0) {
+      return selectRows(db, schema, table, req.query);
+    }
+    const { clause, params } = buildWhere(table, parseFilters(table, req.query));
+    const sql =
+      `update ${quoteIdent(table.name)} set ${keys.map((key) => `${quoteIdent(key)} = ?`).join(", ")}` +
+      `${clause} returning *`;
+    return db
+      .prepare(sql)
+      .all(...keys.map((key) => encodeValue(table.columns.get(key), patch[key])), ...params)
+      .map((row) => decodeRow(table, row as Record<string, unknown>));
+  }
+
+  function deleteRows(
+    db: DatabaseSync,
+    table: TableInfo,
+    req: StorageRequestOptions,
+  ): Record<string, unknown>[] {
+    const { clause, params } = buildWhere(table, parseFilters(table, req.query));
+    return db
+      .prepare(`delete from ${quoteIdent(table.name)}${clause} returning *`)
+      .all(...params)
+      .map((row) => decodeRow(table, row as Record<string, unknown>));
+  }
+
+  async function request<T>(req: StorageRequestOptions): Promise<T> {
+    opened ??= open();
+    const { db, schema } = await opened;
+
+    try {
+      const table = tableInfo(schema, req.table);
+      let rows: Record<string, unknown>[];
+      if (req.method === "GET") {
+        return selectRows(db, schema, table, req.query) as T;
+      }
+      db.exec("begin immediate");
+      try {
+        rows =
+          req.method === "POST"
+            ? insertRows(db, table, req)
+            : req.method === "PATCH"
+              ? updateRows(db, schema, table, req)
+              : deleteRows(db, table, req);
+        db.exec("commit");
+      } catch (error) {
+        db.exec("rollback");
+        throw error;
+      }
+      return (req.prefer?.includes("return=representation") ? rows : undefined) as T;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`SQLite ${req.method} ${req.table} failed: ${message}`);
+    }
+  }
+
+  return { backend: "sqlite", request, ...createTableOperations(request) };
+}
+
+export function createSqliteMigrationRunner(options: { file: string }): MigrationRunner {
+  let opened: Promise<DatabaseSync> | undefined;
+
+  async function open(): Promise<DatabaseSync> {
+    const { DatabaseSync } = await import("node:sqlite");
+    const db = new DatabaseSync(options.file);
+    db.exec("pragma foreign_keys = on");
+    return db;
+  }
+
+  function run(db: DatabaseSync, statements: SqliteStatement[]): void {
+    for (const statement of statements) {
+      if (statement.kind === "exec") {
+        db.exec(statement.sql);
+        continue;
+      }
+      const existing = db.prepare(`pragma table_info(${quoteIdent(statement.table)})`).all();
+      if (!existing.some((row) => row.name === statement.column.name)) {
+        db.exec(
+          `alter table ${quoteIdent(statement.table)} add column ${statement.column.definition}`,
+        );
+      }
+    }
+  }
+
+  async function appliedMigrations(): Promise<AppliedMigration[]> {
+    opened ??= open();
+    const db = await opened;
+    run(db, translatePostgresSql(MIGRATIONS_TABLE_SQL, { tables: new Map() }));
+    return db
+      .prepare(`select version, checksum from ${MIGRATIONS_TABLE} order by version`)
+      .all()
+      .map((row) => ({ version: Number(row.version), checksum: String(row.checksum) }));
+  }
+
+  async function apply(migration: Migration): Promise<void> {
+    opened ??= open();
+    const db = await opened;
+    const statements = translatePostgresSql(migration.sql, { tables: new Map() });
+    db.exec("begin immediate");
+    try {
+      run(db, statements);
+      db.prepare(`insert into ${MIGRATIONS_TABLE} (version, name, checksum) values (?, ?, ?)`).run(
+        migration.version,
+        migration.name,
+        migration.checksum,
+      );
+      db.exec("commit");
+    } catch (error) {
+      db.exec("rollback");
+      throw error;
+    }
+  }
+
+  return { target: `sqlite://${options.file}`, appliedMigrations, apply };
+}
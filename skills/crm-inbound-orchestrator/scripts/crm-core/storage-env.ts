@@ -0,0 +1,22 @@
+import { loadConfig, type CrmConfig } from "./config.ts";
+import { createPsqlMigrationRunner, type MigrationRunner } from "./migrations.ts";
+import { createSqliteClient, createSqliteMigrationRunner } from "./sqlite.ts";
+import type { StorageClient } from "./storage.ts";
+import { createSupabaseClientFromConfig } from "./supabase.ts";
+
+export function createStorageClientFromConfig(config: CrmConfig = loadConfig()): StorageClient {
+  if (config.storageBackend === "sqlite") {
+    return createSqliteClient({ file: config.sqliteFile, migrationsDir: config.migrationsDir });
+  }
+  return createSupabaseClientFromConfig(config);
+}
+
+export function createMigrationRunnerFromConfig(config: CrmConfig = loadConfig()): MigrationRunner {
+  if (config.storageBackend === "sqlite") {
+    return createSqliteMigrationRunner({ file: config.sqliteFile });
+  }
+  if (!config.supabaseDbUrl) {
+    throw new Error("SUPABASE_DB_URL is required to run migrations against Supabase");
+  }
+  return createPsqlMigrationRunner({ databaseUrl: config.supabaseDbUrl });
+}
@@ -0,0 +1,90 @@
+import { getRecord } from "./json.ts";
+
+export type StorageMethod = "GET" | "POST" | "PATCH" | "DELETE";
+
+export type StorageBackend = "supabase" | "sqlite" | "dry-run";
+
+export type StorageRequestOptions = {
+  method: StorageMethod;
+  table: string;
+  query?: URLSearchParams;
+  body?: unknown;
+  prefer?: string;
+};
+
+export type StorageClient = {
+  backend: StorageBackend;
+  request<T>(options: StorageRequestOptions): Promise<T>;
+  select(table: string, query: URLSearchParams): Promise<Record<string, unknown>[]>;
+  upsertRow(
+    table: string,
+    onConflict: string,
+    row: Record<string, unknown>,
+  ): Promise<Record<string, unknown>>;
+  patchRows(
+    table: string,
+    filters: Record<string, string>,
+    patch: Record<string, unknown>,
+  ): Promise<Record<string, unknown>[]>;
+};
+
+export function toRows(value: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map((item) => getRecord(item))
+    .filter((item): item is Record<string, unknown> => Boolean(item));
+}
+
+export function createTableOperations(
+  request: StorageClient["request"],
+): Pick<StorageClient, "select" | "upsertRow" | "patchRows"> {
+  async function select(table: string, query: URLSearchParams): Promise<Record<string, unknown>[]> {
+    const response = await request<unknown>({ method: "GET", table, query });
+    return toRows(response);
+  }
+
+  async function upsertRow(
+    table: string,
+    onConflict: string,
+    row: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    const query = new URLSearchParams();
+    query.set("on_conflict", onConflict);
+
+    const response = await request<unknown>({
+      method: "POST",
+      table,
+      query,
+      body: [row],
+      prefer: "resolution=merge-duplicates,return=representation",
+    });
+
+    return toRows(response)[0] ?? row;
+  }
+
+  async function patchRows(
+    table: string,
+    filters: Record<string, string>,
+    patch: Record<string, unknown>,
+  ): Promise<Record<string, unknown>[]> {
+    const query = new URLSearchParams();
+    query.set("select", "*");
+    for (const [key, value] of Object.entries(filters)) {
+      query.set(key, `eq.${value}`);
+    }
+
+    const response = await request<unknown>({
+      method: "PATCH",
+      table,
+      query,
+      body: patch,
+      prefer: "return=representation",
+    });
+
+    return toRows(response);
+  }
+
+  return { select, upsertRow, patchRows };
+}
@@ -0,0 +1,56 @@
+import { loadConfig, type CrmConfig } from "./config.ts";
+import { fetchWithRetry, resolveRetryPolicy } from "./retry.ts";
+import {
+  createTableOperations,
+  type StorageClient,
+  type StorageRequestOptions,
+} from "./storage.ts";
+
+export type SupabaseClient = StorageClient & { url: string };
+
+export function createSupabaseClient(options: {
+  supabaseUrl: string;
+  serviceKey: string;
+}): SupabaseClient {
+  const baseUrl = options.supabaseUrl.replace(/\/+$/, "");
+
+  async function request<T>(req: StorageRequestOptions): Promise<T> {
+    const suffix = req.query ? `?${req.query.toString()}` : "";
+    const label = `${req.method} ${req.table}`;
+    const idempotent = req.method !== "POST" || Boolean(req.prefer?.includes("resolution="));
+    const response = await fetchWithRetry(
+      "supabase",
+      label,
+      `${baseUrl}/rest/v1/${req.table}${suffix}`,
+      {
+        method: req.method,
+        headers: {
+          apikey: options.serviceKey,
+          Authorization: `Bearer ${options.serviceKey}`,
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          ...(req.prefer ? { Prefer: req.prefer } : {}),
+        },
+        body: req.body === undefined ? undefined : JSON.stringify(req.body),
+      },
+      idempotent ? undefined : { ...resolveRetryPolicy("supabase"), retryNetworkErrors: false },
+    );
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Supabase ${req.method} ${req.table} failed (${response.status}): ${text}`);
+    }
+
+    return (text.trim() ? JSON.parse(text) : undefined) as T;
+  }
+
+  return { backend: "supabase", url: baseUrl, request, ...createTableOperations(request) };
+}
+
+export function createSupabaseClientFromConfig(config: CrmConfig = loadConfig()): SupabaseClient {
+  const { supabaseUrl, supabaseSecretKey: serviceKey } = config;
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SECRET_KEY are required");
+  }
+  return createSupabaseClient({ supabaseUrl, serviceKey });
+}
@@ -0,0 +1,157 @@
+import { getRecord } from "./json.ts";
+
+export type LabelPolicy = "draft" | "notify" | "file" | "ignore";
+
+export type CustomLabel = {
+  policy: LabelPolicy;
+  description: string;
+  signals?: string[];
+};
+
+export type ClassificationLabel = {
+  name: string;
+  policy: LabelPolicy;
+  description: string;
+  signals: string[];
+  builtin: boolean;
+};
+
+export const LABEL_POLICIES: LabelPolicy[] = ["draft", "notify", "file", "ignore"];
+
+export const LABEL_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export const BUILTIN_LABELS: ClassificationLabel[] = [
+  {
+    name: "receipt",
+    policy: "file",
+    description: "billing, invoice, payment confirmation.",
+    signals: [],
+    builtin: true,
+  },
+  {
+    name: "sales",
+    policy: "draft",
+    description:
+      "inbound person asking for consulting, sponsorship, advisory, project inquiry, partnership, expert network opportunity, affiliate/creator collaboration, or a paid expert consultation.",
+    signals: [],
+    builtin: true,
+  },
+  {
+    name: "support",
+    policy: "file",
+    description: "user issue/help request.",
+    signals: [],
+    builtin: true,
+  },
+  {
+    name: "ignore",
+    policy: "ignore",
+    description: "newsletters, job alerts, vendor/system updates, social updates, hiring spam.",
+    signals: [],
+    builtin: true,
+  },
+];
+
+const LABEL_KEYS = ["policy", "description", "signals"];
+
+function parseCustomLabel(raw: unknown): { value: CustomLabel } | { error: string } {
+  const record = getRecord(raw);
+  if (!record || Array.isArray(raw)) {
+    return { error: "expected an object" };
+  }
+  const unknown = Object.keys(record).filter((name) => !LABEL_KEYS.includes(name));
+  if (unknown.length > 0) {
+    return { error: `unknown field "${unknown[0]}"; expected ${LABEL_KEYS.join(", ")}` };
+  }
+
+  const policy = typeof record.policy === "string" ? record.policy.trim().toLowerCase() : "";
+  if (!LABEL_POLICIES.includes(policy as LabelPolicy)) {
+    return { error: `policy must be one of ${LABEL_POLICIES.join(", ")}` };
+  }
+  if (typeof record.description !== "string" || !record.description.trim()) {
+    return { error: "description must be a non-empty string" };
+  }
+
+  const rawSignals = record.signals ?? [];
+  const signals = Array.isArray(rawSignals)
+    ? rawSignals
+    : typeof rawSignals === "string"
+      ? rawSignals.split(",").filter((signal) => signal.trim())
+      : undefined;
+  if (!signals || signals.some((signal) => typeof signal !== "string" || !signal.trim())) {
+    return { error: "signals must be a list of non-empty strings" };
+  }
+  if (policy === "draft" && signals.length === 0) {
+    return { error: "draft labels need signals; they are only assigned when one matches" };
+  }
+
+  return {
+    value: {
+      policy: policy as LabelPolicy,
+      description: record.description.trim().replace(/\s+/g, " "),
+      ...(signals.length > 0
+        ? {
+            signals: [...new Set(signals.map((signal: string) => signal.trim().toLowerCase()))],
+          }
+        : {}),
+    },
+  };
+}
+
+export function parseCustomLabels(
+  raw: unknown,
+): { value: Record<string, CustomLabel> } | { error: string } {
+  let source = raw;
+  if (typeof raw === "string") {
+    try {
+      source = JSON.parse(raw);
+    } catch {
+      return { error: "expected a JSON object keyed by label name" };
+    }
+  }
+  const record = getRecord(source);
+  if (!record || Array.isArray(source)) {
+    return { error: "expected an object keyed by label name" };
+  }
+
+  const labels: Record<string, CustomLabel> = {};
+  for (const [name, entry] of Object.entries(record)) {
+    const label = name.trim().toLowerCase();
+    if (!LABEL_NAME_PATTERN.test(label)) {
+      return { error: `invalid label name "${name}"; use lowercase letters, digits and _` };
+    }
+    if (BUILTIN_LABELS.some((builtin) => builtin.name === label)) {
+      return { error: `${label} is a built-in label and cannot be redefined` };
+    }
+    const parsed = parseCustomLabel(entry);
+    if ("error" in parsed) {
+      return { error: `${label}: ${parsed.error}` };
+    }
+    labels[label] = parsed.value;
+  }
+  return { value: labels };
+}
+
+export function buildTaxonomy(custom?: Record<string, CustomLabel>): ClassificationLabel[] {
+  return [
+    ...BUILTIN_LABELS,
+    ...Object.entries(custom ?? {}).map(([name, label]) => ({
+      name,
+      policy: label.policy,
+      description: label.description,
+      signals: label.signals ?? [],
+      builtin: false,
+    })),
+  ];
+}
+
+export function labelNames(taxonomy: ClassificationLabel[]): string[] {
+  return taxonomy.map((label) => label.name);
+}
+
+export function labelPolicy(
+  taxonomy: ClassificationLabel[],
+  name: string | undefined,
+): LabelPolicy {
+  return taxonomy.find((label) => label.name === name)?.policy ?? "ignore";
+}
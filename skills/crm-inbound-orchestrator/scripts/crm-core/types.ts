@@ -0,0 +1,113 @@
+export type PollAttachment = {
+  filename?: string;
+  mime_type: string;
+  size: number;
+  content_id?: string;
+  inline?: boolean;
+  storage_key?: string;
+  storage_url?: string;
+  text?: string;
+  error?: string;
+};
+
+export type PollMessage = {
+  account_email: string;
+  message_id: string;
+  thread_id?: string;
+  subject?: string;
+  from?: string;
+  snippet?: string;
+  body_text?: string;
+  body_quoted?: string;
+  body_signature?: string;
+  received_at?: string;
+  internal_ts?: number;
+  uid?: number;
+  uid_validity?: number;
+  source_key: string;
+  attachments?: PollAttachment[];
+  raw?: Record<string, unknown>;
+};
+
+export type GmailMessage = PollMessage & {
+  raw: Record<string, unknown>;
+};
+
+export type AccountPollResult = {
+  account_email: string;
+  query: string;
+  since_ts: string;
+  fetched_count: number;
+  dropped_older_than_window?: number;
+  since_uid?: number;
+  uid_validity?: number;
+  last_uid?: number;
+  since_cursor?: string;
+  change_cursor?: string;
+  cursor_fallback?: boolean;
+  truncated?: boolean;
+  already_processed?: number;
+  attachment_errors?: number;
+  error?: string;
+};
+
+export type PollOutput = {
+  command: "poll_inboxes";
+  run_id: string;
+  started_at: string;
+  finished_at: string;
+  poll_query: string;
+  overlap_minutes: number;
+  max_age_hours: number;
+  max_results: number;
+  per_account: AccountPollResult[];
+  partial_failure: boolean;
+  total_messages: number;
+  messages: GmailMessage[];
+};
+
+export type PollFile = {
+  run_id?: string;
+  source?: "poll" | "files";
+  started_at?: string;
+  finished_at?: string;
+  partial_failure?: boolean;
+  messages: PollMessage[];
+  per_account?: Array<{
+    account_email: string;
+    fetched_count?: number;
+    uid_validity?: number;
+    last_uid?: number;
+    change_cursor?: string;
+    error?: string;
+  }>;
+};
+
+export type SopBlock = {
+  id: string;
+  type: string;
+  text: string;
+  depth: number;
+  has_children: boolean;
+};
+
+export type SopSection = {
+  heading: string;
+  items: string[];
+};
+
+export type SopSnapshot = {
+  status: "ok" | "degraded";
+  degraded: boolean;
+  source: "notion" | "cache";
+  page_id: string;
+  fetched_at: string;
+  warnings: string[];
+  sop: {
+    title: string;
+    hash: string;
+    block_count: number;
+    blocks: SopBlock[];
+    sections: SopSection[];
+  };
+};
@@ -0,0 +1,489 @@
+import { existsSync } from "node:fs";
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import {
+  asString,
+  buildTaxonomy,
+  clean,
+  createStorageClientFromConfig,
+  ensureSchemaVersion,
+  getRecord,
+  isMainModule,
+  labelNames,
+  loadClassifierRules,
+  loadConfig,
+  loadFeedbackExamples,
+  parseArgs,
+  pickFeedbackExamples,
+  requireSetting,
+  writeJson,
+  type ClassificationLabel,
+  type ClassifierRules,
+  type FeedbackExample,
+  type PollMessage,
+  type SopSnapshot,
+} from "./crm-core/index.ts";
+import { classifyInbound, loadSopSnapshot, type Classification } from "./process-inbound.ts";
+
+type EvalMode = "heuristic" | "llm";
+
+type EvalCase = {
+  id: string;
+  file: string;
+  expected: Classification;
+  message: PollMessage;
+  activityId?: string;
+};
+
+type LabelMetrics = {
+  support: number;
+  predicted: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+};
+
+export type ModeReport = {
+  mode: EvalMode;
+  model?: string;
+  total: number;
+  correct: number;
+  accuracy: number;
+  labels: Record<Classification, LabelMetrics>;
+  confusion: Record<Classification, Record<Classification, number>>;
+  reason_hits: Record<string, { hits: number; wrong: number }>;
+  model_decided?: number;
+  misclassified: Array<{
+    id: string;
+    expected: Classification;
+    predicted: Classification;
+    confidence: number;
+    reasons: string[];
+  }>;
+  predictions: Record<string, Classification>;
+};
+
+type BaselineMode = Pick<ModeReport, "accuracy" | "predictions"> & {
+  labels: Record<string, { precision: number | null; recall: number | null }>;
+};
+
+type Baseline = {
+  version: 1;
+  written_at: string;
+  modes: Partial<Record<EvalMode, BaselineMode>>;
+};
+
+type CaseChange = {
+  id: string;
+  expected: Classification;
+  baseline: Classification;
+  current: Classification;
+};
+
+type ModeDiff = {
+  mode: EvalMode;
+  regressions: CaseChange[];
+  improvements: CaseChange[];
+  metric_drops: Array<{ metric: string; baseline: number; current: number }>;
+  new_cases: string[];
+  missing_cases: string[];
+};
+
+export type EvalClassifierOutput = {
+  command: "eval_classifier";
+  started_at: string;
+  finished_at: string;
+  corpus: string;
+  rules: { version: number; hash: string; sources: string[] };
+  cases: number;
+  feedback_cases?: number;
+  status: "ok" | "regressed" | "no_baseline" | "baseline_written";
+  warnings?: string[];
+  modes: ModeReport[];
+  baseline?: {
+    file: string;
+    tolerance: number;
+    diffs: ModeDiff[];
+  };
+};
+
+export type EvalClassifierOptions = {
+  cases: EvalCase[];
+  modes: EvalMode[];
+  apiKey?: string;
+  model: string;
+  sop?: SopSnapshot;
+  rules: ClassifierRules;
+  taxonomy: ClassificationLabel[];
+  examples?: FeedbackExample[];
+  exampleLimit?: number;
+};
+
+const EVAL_DIR = fileURLToPath(new URL("../references/eval", import.meta.url));
+const DEFAULT_CORPUS_DIR = path.join(EVAL_DIR, "classifier");
+const DEFAULT_BASELINE_FILE = path.join(EVAL_DIR, "classifier-baseline.json");
+const DEFAULT_OUTPUT_FILE = "/tmp/crm-eval-classifier.json";
+const EVAL_ACCOUNT = "eval@example.com";
+
+function round(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : round(numerator / denominator);
+}
+
+async function listJsonFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of (await readdir(dir)).sort()) {
+    const child = path.join(dir, entry);
+    if ((await stat(child)).isDirectory()) {
+      files.push(...(await listJsonFiles(child)));
+    } else if (entry.toLowerCase().endsWith(".json")) {
+      files.push(child);
+    }
+  }
+  return files;
+}
+
+function toEvalCase(raw: unknown, file: string, fallbackId: string, labels: string[]): EvalCase {
+  const record = getRecord(raw);
+  const message = getRecord(record?.message);
+  const expected = typeof record?.expected === "string" ? record.expected.toLowerCase() : "";
+  if (!record || !message) {
+    throw new Error(`${file}: expected {"expected": <label>, "message": {...}}`);
+  }
+  if (!labels.includes(expected)) {
+    throw new Error(`${file}: expected must be one of ${labels.join(", ")}`);
+  }
+
+  const id = typeof record.id === "string" && record.id.trim() ? record.id.trim() : fallbackId;
+  return {
+    id,
+    file,
+    expected,
+    message: {
+      account_email: EVAL_ACCOUNT,
+      message_id: id,
+      source_key: `${EVAL_ACCOUNT}:${id}`,
+      ...(message as Partial<PollMessage>),
+    },
+  };
+}
+
+export async function loadEvalCases(dir: string, labels: string[]): Promise<EvalCase[]> {
+  const cases: EvalCase[] = [];
+  const seen = new Set<string>();
+  for (const file of await listJsonFiles(dir)) {
+    const parsed = JSON.parse(await readFile(file, "utf8")) as unknown;
+    const name = path.relative(dir, file).replace(/\.json$/i, "");
+    const entries = Array.isArray(parsed)
+      ? parsed.map((entry, index) => toEvalCase(entry, file, `${name}#${index + 1}`, labels))
+      : [toEvalCase(parsed, file, name, labels)];
+    for (const entry of entries) {
+      if (seen.has(entry.id)) {
+        throw new Error(`${file}: duplicate case id "${entry.id}"`);
+      }
+      seen.add(entry.id);
+      cases.push(entry);
+    }
+  }
+  return cases;
+}
+
+export function feedbackCases(
+  examples: FeedbackExample[],
+  table: string,
+  labels: string[],
+): EvalCase[] {
+  return examples
+    .filter((example) => labels.includes(example.label))
+    .map((example) => ({
+      id: `feedback:${example.activity_id}`,
+      file: table,
+      expected: example.label,
+      activityId: example.activity_id,
+      message: {
+        account_email: example.account_email || EVAL_ACCOUNT,
+        message_id: example.activity_id,
+        source_key: `feedback:${example.activity_id}`,
+        from: example.from_email,
+        subject: example.subject,
+        body_text: example.snippet,
+      },
+    }));
+}
+
+async function evaluateMode(options: EvalClassifierOptions, mode: EvalMode): Promise<ModeReport> {
+  const names = labelNames(options.taxonomy);
+  const confusion = Object.fromEntries(
+    names.map((expected) => [
+      expected,
+      Object.fromEntries(names.map((predicted) => [predicted, 0])),
+    ]),
+  ) as ModeReport["confusion"];
+  const reasonHits: ModeReport["reason_hits"] = {};
+  const misclassified: ModeReport["misclassified"] = [];
+  const predictions: Record<string, Classification> = {};
+  let modelDecided = 0;
+
+  for (const entry of options.cases) {
+    const result = await classifyInbound({
+      message: entry.message,
+      examples:
+        mode === "llm"
+          ? pickFeedbackExamples(options.examples ?? [], entry.message, {
+              limit: options.exampleLimit ?? 0,
+              excludeActivityId: entry.activityId,
+            })
+          : undefined,
+      apiKey: mode === "llm" ? options.apiKey : undefined,
+      model: options.model,
+      sop: options.sop,
+      rules: options.rules,
+      taxonomy: options.taxonomy,
+    });
+    const wrong = result.label !== entry.expected;
+    confusion[entry.expected][result.label] += 1;
+    predictions[entry.id] = result.label;
+    if (result.reasons.some((reason) => reason.startsWith("llm-model:"))) {
+      modelDecided += 1;
+    }
+    for (const reason of result.reasons) {
+      reasonHits[reason] ??= { hits: 0, wrong: 0 };
+      reasonHits[reason].hits += 1;
+      reasonHits[reason].wrong += wrong ? 1 : 0;
+    }
+    if (wrong) {
+      misclassified.push({
+        id: entry.id,
+        expected: entry.expected,
+        predicted: result.label,
+        confidence: round(result.confidence),
+        reasons: result.reasons,
+      });
+    }
+  }
+
+  const labels = Object.fromEntries(
+    names.map((label) => {
+      const truePositives = confusion[label][label];
+      const support = names.reduce((sum, other) => sum + confusion[label][other], 0);
+      const predicted = names.reduce((sum, other) => sum + confusion[other][label], 0);
+      const precision = ratio(truePositives, predicted);
+      const recall = ratio(truePositives, support);
+      const f1 =
+        precision === null || recall === null
+          ? null
+          : precision + recall === 0
+            ? 0
+            : round((2 * precision * recall) / (precision + recall));
+      return [label, { support, predicted, precision, recall, f1 }];
+    }),
+  ) as ModeReport["labels"];
+
+  const total = options.cases.length;
+  const correct = total - misclassified.length;
+  return {
+    mode,
+    ...(mode === "llm" ? { model: options.model, model_decided: modelDecided } : {}),
+    total,
+    correct,
+    accuracy: ratio(correct, total) ?? 0,
+    labels,
+    confusion,
+    reason_hits: Object.fromEntries(
+      Object.entries(reasonHits).sort(([, left], [, right]) => right.hits - left.hits),
+    ),
+    misclassified,
+    predictions,
+  };
+}
+
+export async function evalClassifier(options: EvalClassifierOptions): Promise<ModeReport[]> {
+  const reports: ModeReport[] = [];
+  for (const mode of options.modes) {
+    reports.push(await evaluateMode(options, mode));
+  }
+  return reports;
+}
+
+export function toBaseline(reports: ModeReport[], previous?: Baseline): Baseline {
+  const modes: Baseline["modes"] = { ...previous?.modes };
+  for (const report of reports) {
+    modes[report.mode] = {
+      accuracy: report.accuracy,
+      labels: Object.fromEntries(
+        Object.entries(report.labels).map(([label, metrics]) => [
+          label,
+          { precision: metrics.precision, recall: metrics.recall },
+        ]),
+      ),
+      predictions: report.predictions,
+    };
+  }
+  return { version: 1, written_at: new Date().toISOString(), modes };
+}
+
+export function diffAgainstBaseline(
+  report: ModeReport,
+  cases: EvalCase[],
+  baseline: BaselineMode,
+  tolerance: number,
+): ModeDiff {
+  const diff: ModeDiff = {
+    mode: report.mode,
+    regressions: [],
+    improvements: [],
+    metric_drops: [],
+    new_cases: [],
+    missing_cases: Object.keys(baseline.predictions).filter((id) => !(id in report.predictions)),
+  };
+
+  for (const entry of cases) {
+    const previous = baseline.predictions[entry.id];
+    const current = report.predictions[entry.id];
+    if (!previous) {
+      diff.new_cases.push(entry.id);
+      continue;
+    }
+    const change = { id: entry.id, expected: entry.expected, baseline: previous, current };
+    if (previous === entry.expected && current !== entry.expected) {
+      diff.regressions.push(change);
+    } else if (previous !== entry.expected && current === entry.expected) {
+      diff.improvements.push(change);
+    }
+  }
+
+  const metrics: Array<[string, number | null, number | null | undefined]> = [
+    ["accuracy", report.accuracy, baseline.accuracy],
+    ...Object.entries(report.labels).flatMap(
+      ([label, current]): Array<[string, number | null, number | null | undefined]> => [
+        [`${label}.precision`, current.precision, baseline.labels[label]?.precision],
+        [`${label}.recall`, current.recall, baseline.labels[label]?.recall],
+      ],
+    ),
+  ];
+  for (const [metric, current, previous] of metrics) {
+    if (typeof current === "number" && typeof previous === "number") {
+      if (current < previous - tolerance) {
+        diff.metric_drops.push({ metric, baseline: previous, current });
+      }
+    }
+  }
+  return diff;
+}
+
+function parseModes(value: string | undefined): EvalMode[] {
+  const mode = value ?? "heuristic";
+  if (mode === "both") {
+    return ["heuristic", "llm"];
+  }
+  if (mode !== "heuristic" && mode !== "llm") {
+    throw new Error("--mode must be one of: heuristic, llm, both");
+  }
+  return [mode];
+}
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command !== "eval_classifier") {
+    console.error(
+      "Usage: tsx eval-classifier.ts eval_classifier [--dir <path>] [--mode heuristic|llm|both] [--baseline <path>] [--write-baseline] [--tolerance <0-1>] [--feedback] [--sop-file <path>] [--rules-file <path>] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const startedAt = new Date().toISOString();
+  const modes = parseModes(clean(asString(flags.mode)));
+  const corpus = path.resolve(clean(asString(flags.dir)) || DEFAULT_CORPUS_DIR);
+  const baselineFile = path.resolve(clean(asString(flags.baseline)) || DEFAULT_BASELINE_FILE);
+  const outputFile = clean(asString(flags.output)) || DEFAULT_OUTPUT_FILE;
+  const tolerance = Number(clean(asString(flags.tolerance)) ?? 0);
+  if (!Number.isFinite(tolerance) || tolerance < 0 || tolerance > 1) {
+    throw new Error("--tolerance must be a number between 0 and 1");
+  }
+
+  const config = loadConfig({ flags });
+  const taxonomy = buildTaxonomy(config.classificationLabels);
+  const cases = await loadEvalCases(corpus, labelNames(taxonomy));
+  let examples: FeedbackExample[] = [];
+  let replayed: EvalCase[] = [];
+  if (flags.feedback === true) {
+    const storage = createStorageClientFromConfig(config);
+    await ensureSchemaVersion(storage);
+    examples = await loadFeedbackExamples(storage, config.feedbackTable, {
+      lookbackDays: config.feedbackLookbackDays,
+    });
+    replayed = feedbackCases(examples, config.feedbackTable, labelNames(taxonomy));
+    cases.push(...replayed);
+  }
+  if (cases.length === 0) {
+    throw new Error(`No eval cases found in ${corpus}`);
+  }
+  const sop = await loadSopSnapshot(clean(asString(flags["sop-file"])) || config.sopCacheFile);
+  const { rules, warnings } = await loadClassifierRules({ file: config.rulesFile, sop });
+  const reports = await evalClassifier({
+    cases,
+    modes,
+    apiKey: modes.includes("llm") ? requireSetting(config, "openaiApiKey") : undefined,
+    model: config.classifierModel,
+    sop,
+    rules,
+    taxonomy,
+    examples,
+    exampleLimit: config.feedbackExamples,
+  });
+
+  const previous = existsSync(baselineFile)
+    ? (JSON.parse(await readFile(baselineFile, "utf8")) as Baseline)
+    : undefined;
+  const output: EvalClassifierOutput = {
+    command: "eval_classifier",
+    started_at: startedAt,
+    finished_at: "",
+    corpus,
+    rules: { version: rules.version, hash: rules.hash, sources: rules.sources },
+    cases: cases.length,
+    ...(flags.feedback === true ? { feedback_cases: replayed.length } : {}),
+    status: "ok",
+    ...(warnings.length > 0 ? { warnings } : {}),
+    modes: reports,
+  };
+
+  if (flags["write-baseline"] === true) {
+    await writeJson(baselineFile, toBaseline(reports, previous));
+    output.status = "baseline_written";
+    output.baseline = { file: baselineFile, tolerance, diffs: [] };
+  } else if (!previous) {
+    output.status = "no_baseline";
+  } else {
+    const diffs = reports
+      .filter((report) => previous.modes[report.mode])
+      .map((report) =>
+        diffAgainstBaseline(report, cases, previous.modes[report.mode] as BaselineMode, tolerance),
+      );
+    output.baseline = { file: baselineFile, tolerance, diffs };
+    const failed = diffs.some(
+      (diff) =>
+        diff.metric_drops.length > 0 || (diff.mode === "heuristic" && diff.regressions.length > 0),
+    );
+    if (failed) {
+      output.status = "regressed";
+    }
+  }
+  output.finished_at = new Date().toISOString();
+
+  await writeJson(outputFile, output);
+  console.log(JSON.stringify(output, null, 2));
+
+  if (output.status === "regressed") {
+    process.exitCode = 1;
+  }
+}
+
+if (isMainModule(import.meta.url)) {
+  await main();
+}
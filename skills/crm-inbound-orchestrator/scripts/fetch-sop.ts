@@ -1,11 +1,19 @@
 import { createHash } from "node:crypto";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
-import path from "node:path";
 
-type CliArgs = {
-  command?: string;
-  flags: Record<string, string | boolean>;
-};
+import {
+  asString,
+  clean,
+  fetchWithRetry,
+  isMainModule,
+  loadConfig,
+  parseArgs,
+  readJsonFile,
+  requireSetting,
+  writeJson,
+  type CrmConfig,
+  type SopBlock,
+  type SopSnapshot,
+} from "./crm-core/index.ts";
 
 type NotionBlock = {
   id: string;
@@ -14,65 +22,8 @@ type NotionBlock = {
   [key: string]: unknown;
 };
 
-type SopBlock = {
-  id: string;
-  type: string;
-  text: string;
-  depth: number;
-  has_children: boolean;
-};
-
-type SopSnapshot = {
-  status: "ok" | "degraded";
-  degraded: boolean;
-  source: "notion" | "cache";
-  page_id: string;
-  fetched_at: string;
-  warnings: string[];
-  sop: {
-    title: string;
-    hash: string;
-    block_count: number;
-    blocks: SopBlock[];
-    sections: Array<{ heading: string; items: string[] }>;
-  };
-};
-
 const NOTION_API_BASE = "https://api.notion.com/v1";
 const NOTION_VERSION = "2022-06-28";
-const DEFAULT_CACHE_FILE = "/tmp/crm-inbound-sop-cache.json";
-
-function parseArgs(argv: string[]): CliArgs {
-  const tokens = argv.slice(2);
-  const command = tokens.shift();
-  const flags: Record<string, string | boolean> = {};
-
-  for (let i = 0; i < tokens.length; i += 1) {
-    const token = tokens[i];
-    if (!token.startsWith("--")) {
-      continue;
-    }
-    const key = token.slice(2);
-    const next = tokens[i + 1];
-    if (!next || next.startsWith("--")) {
-      flags[key] = true;
-      continue;
-    }
-    flags[key] = next;
-    i += 1;
-  }
-
-  return { command, flags };
-}
-
-function asString(value: string | boolean | undefined): string | undefined {
-  return typeof value === "string" ? value : undefined;
-}
-
-function clean(value: string | undefined): string | undefined {
-  const trimmed = value?.trim();
-  return trimmed ? trimmed : undefined;
-}
 
 function extractRichText(block: NotionBlock): string {
   const payload = block[block.type] as Record<string, unknown> | undefined;
@@ -98,7 +49,7 @@ async function notionRequest(
   endpoint: string,
   init?: RequestInit,
 ): Promise<Record<string, unknown>> {
-  const response = await fetch(`${NOTION_API_BASE}${endpoint}`, {
+  const response = await fetchWithRetry("notion", endpoint, `${NOTION_API_BASE}${endpoint}`, {
     ...init,
     headers: {
       Authorization: `Bearer ${token}`,
@@ -221,16 +172,9 @@ function buildHash(blocks: SopBlock[]): string {
   return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
 }
 
-async function writeJson(filePath: string, payload: unknown) {
-  await mkdir(path.dirname(filePath), { recursive: true });
-  await writeFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
-}
-
 async function readSnapshot(filePath: string): Promise<SopSnapshot | undefined> {
   try {
-    const raw = await readFile(filePath, "utf8");
-    const parsed = JSON.parse(raw) as SopSnapshot;
-    return parsed;
+    return await readJsonFile<SopSnapshot>(filePath);
   } catch {
     return undefined;
   }
@@ -291,43 +235,29 @@ async function fetchSopSnapshot(options: {
   };
 }
 
-async function main() {
-  const { command, flags } = parseArgs(process.argv);
-  if (command !== "fetch_sop") {
-    console.error(
-      "Usage: bun fetch-sop.ts fetch_sop [--page-id <id>] [--cache-file <path>] [--output <path>]",
-    );
-    process.exit(1);
-  }
-
-  const notionToken = clean(process.env.NOTION_API_KEY);
-  if (!notionToken) {
-    throw new Error("NOTION_API_KEY is required");
-  }
-
-  const pageId =
-    clean(asString(flags["page-id"])) ||
-    clean(process.env.CRM_SOP_PAGE_ID) ||
-    "31288fb313488013924ade7bf704ab6f";
-  const cacheFile =
-    clean(asString(flags["cache-file"])) ||
-    clean(process.env.CRM_SOP_CACHE_FILE) ||
-    DEFAULT_CACHE_FILE;
-  const output = clean(asString(flags.output)) || cacheFile;
+export type FetchSopOptions = {
+  notionToken: string;
+  pageId: string;
+  cacheFile: string;
+  output?: string;
+};
 
+export async function fetchSop(options: FetchSopOptions): Promise<SopSnapshot> {
   try {
-    const snapshot = await fetchSopSnapshot({ notionToken, pageId });
-    await writeJson(cacheFile, snapshot);
+    const snapshot = await fetchSopSnapshot({
+      notionToken: options.notionToken,
+      pageId: options.pageId,
+    });
+    await writeJson(options.cacheFile, snapshot);
 
-    if (output !== cacheFile) {
-      await writeJson(output, snapshot);
+    if (options.output && options.output !== options.cacheFile) {
+      await writeJson(options.output, snapshot);
     }
 
-    console.log(JSON.stringify(snapshot, null, 2));
-    return;
+    return snapshot;
   } catch (error) {
     const message = error instanceof Error ? error.message : "unknown Notion error";
-    const cached = await readSnapshot(cacheFile);
+    const cached = await readSnapshot(options.cacheFile);
 
     if (!cached) {
       throw new Error(`SOP fetch failed and no cache is available: ${message}`);
@@ -346,12 +276,40 @@ async function main() {
       ],
     };
 
-    if (output) {
-      await writeJson(output, degraded);
+    if (options.output) {
+      await writeJson(options.output, degraded);
     }
 
-    console.log(JSON.stringify(degraded, null, 2));
+    return degraded;
   }
 }
 
-await main();
+export function resolveFetchSopOptions(
+  config: CrmConfig,
+  flags: Record<string, string | boolean> = {},
+): FetchSopOptions {
+  return {
+    notionToken: requireSetting(config, "notionApiKey"),
+    pageId: config.sopPageId,
+    cacheFile: config.sopCacheFile,
+    output: clean(asString(flags.output)) || config.sopCacheFile,
+  };
+}
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command !== "fetch_sop") {
+    console.error(
+      "Usage: bun fetch-sop.ts fetch_sop [--page-id <id>] [--cache-file <path>] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const config = loadConfig({ flags, command: "fetch_sop" });
+  const snapshot = await fetchSop(resolveFetchSopOptions(config, flags));
+  console.log(JSON.stringify(snapshot, null, 2));
+}
+
+if (isMainModule(import.meta.url)) {
+  await main();
+}
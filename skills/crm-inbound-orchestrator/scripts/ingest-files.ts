@@ -0,0 +1,307 @@
+import { createHash, randomUUID } from "node:crypto";
+import { open, readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import {
+  asString,
+  clean,
+  collectAttachments,
+  isMainModule,
+  loadConfig,
+  mimeAttachments,
+  mimeBodyText,
+  mimeThreadId,
+  parseArgs,
+  parseEmails,
+  parseMimeMessage,
+  resolveAttachmentOptions,
+  writeJson,
+  type AttachmentOptions,
+  type GmailMessage,
+  type MailMessage,
+  type ParsedMime,
+  type PollFile,
+} from "./crm-core/index.ts";
+import { toPollMessage } from "./poll-inboxes.ts";
+
+type SourceFormat = "eml" | "maildir" | "mbox";
+
+type RawMail = {
+  raw: Buffer;
+  fallbackTs?: number;
+};
+
+type IngestSource = {
+  path: string;
+  format: SourceFormat;
+  message_count: number;
+  skipped_duplicates: number;
+  error?: string;
+};
+
+export type IngestFilesOutput = PollFile & {
+  command: "ingest_files";
+  run_id: string;
+  started_at: string;
+  finished_at: string;
+  source: "files";
+  sources: IngestSource[];
+  partial_failure: boolean;
+  total_messages: number;
+  messages: GmailMessage[];
+};
+
+export type IngestFilesOptions = {
+  paths: string[];
+  account?: string;
+  monitoredEmails: string[];
+  attachments?: AttachmentOptions;
+};
+
+const DEFAULT_OUTPUT = "/tmp/crm-ingest.json";
+
+async function isMaildir(dir: string): Promise<boolean> {
+  const entries = await readdir(dir).catch(() => [] as string[]);
+  return entries.includes("cur") || entries.includes("new");
+}
+
+async function looksLikeMbox(file: string): Promise<boolean> {
+  if (file.toLowerCase().endsWith(".mbox")) {
+    return true;
+  }
+  const handle = await open(file, "r");
+  try {
+    const head = Buffer.alloc(5);
+    const { bytesRead } = await handle.read(head, 0, 5, 0);
+    return head.subarray(0, bytesRead).toString("latin1") === "From ";
+  } finally {
+    await handle.close();
+  }
+}
+
+export function splitMbox(buffer: Buffer): RawMail[] {
+  const text = buffer.toString("latin1");
+  const messages: RawMail[] = [];
+  const separator = /^From [^\r\n]*(?:\r?\n)?/gm;
+  const starts: Array<{ index: number; line: string }> = [];
+
+  for (const match of text.matchAll(separator)) {
+    const index = match.index ?? 0;
+    if (index === 0 || /\n\r?\n$/.test(text.slice(Math.max(0, index - 3), index))) {
+      starts.push({ index, line: match[0] });
+    }
+  }
+
+  starts.forEach((start, position) => {
+    const bodyStart = start.index + start.line.length;
+    const end = starts[position + 1]?.index ?? text.length;
+    const body = text
+      .slice(bodyStart, end)
+      .replace(/\r?\n$/, "")
+      .replace(/^>(>*From )/gm, "$1");
+    const dateText = start.line.replace(/^From \S+\s+/, "").trim();
+    const fallbackTs = Date.parse(dateText);
+    messages.push({
+      raw: Buffer.from(body, "latin1"),
+      fallbackTs: Number.isFinite(fallbackTs) ? fallbackTs : undefined,
+    });
+  });
+
+  return messages;
+}
+
+async function readMaildir(dir: string): Promise<RawMail[]> {
+  const messages: RawMail[] = [];
+  for (const folder of ["cur", "new"]) {
+    const folderPath = path.join(dir, folder);
+    const entries = await readdir(folderPath).catch(() => [] as string[]);
+    for (const entry of entries.sort()) {
+      const file = path.join(folderPath, entry);
+      const info = await stat(file);
+      if (!info.isFile()) {
+        continue;
+      }
+      const deliveredSeconds = Number(entry.split(".")[0]);
+      messages.push({
+        raw: await readFile(file),
+        fallbackTs: Number.isFinite(deliveredSeconds) ? deliveredSeconds * 1000 : info.mtimeMs,
+      });
+    }
+  }
+  return messages;
+}
+
+async function collectSources(
+  target: string,
+): Promise<Array<{ path: string; format: SourceFormat }>> {
+  const info = await stat(target);
+  if (info.isFile()) {
+    return [{ path: target, format: (await looksLikeMbox(target)) ? "mbox" : "eml" }];
+  }
+  if (await isMaildir(target)) {
+    return [{ path: target, format: "maildir" }];
+  }
+
+  const sources: Array<{ path: string; format: SourceFormat }> = [];
+  for (const entry of (await readdir(target)).sort()) {
+    const child = path.join(target, entry);
+    const childInfo = await stat(child);
+    if (childInfo.isDirectory()) {
+      sources.push(...(await collectSources(child)));
+    } else if (entry.toLowerCase().endsWith(".eml")) {
+      sources.push({ path: child, format: "eml" });
+    } else if (await looksLikeMbox(child)) {
+      sources.push({ path: child, format: "mbox" });
+    }
+  }
+  return sources;
+}
+
+async function readSource(source: { path: string; format: SourceFormat }): Promise<RawMail[]> {
+  if (source.format === "maildir") {
+    return readMaildir(source.path);
+  }
+  const buffer = await readFile(source.path);
+  if (source.format === "mbox") {
+    return splitMbox(buffer);
+  }
+  return [{ raw: buffer, fallbackTs: (await stat(source.path)).mtimeMs }];
+}
+
+function headerAddresses(parsed: ParsedMime, names: string[]): string[] {
+  return names
+    .flatMap((name) => parsed.headers.get(name) ?? [])
+    .flatMap((value) => value.match(/[^\s<>,;"']+@[^\s<>,;"']+/g) ?? [])
+    .map((address) => address.toLowerCase());
+}
+
+function resolveAccount(parsed: ParsedMime, options: IngestFilesOptions): string {
+  if (options.account) {
+    return options.account;
+  }
+  const recipients = headerAddresses(parsed, ["delivered-to", "x-original-to", "to", "cc"]);
+  return (
+    recipients.find((address) => options.monitoredEmails.includes(address)) ??
+    recipients[0] ??
+    "unknown"
+  );
+}
+
+function toMailMessage(parsed: ParsedMime, mail: RawMail): MailMessage {
+  const headerId = parsed.messageId?.trim().replace(/^<|>$/g, "");
+  const dateTs = parsed.date ? Date.parse(parsed.date) : Number.NaN;
+  const internalTs = Number.isFinite(dateTs) ? dateTs : mail.fallbackTs;
+
+  return {
+    id: headerId || `sha256-${createHash("sha256").update(mail.raw).digest("hex").slice(0, 32)}`,
+    threadId: mimeThreadId(parsed),
+    subject: parsed.subject,
+    from: parsed.from,
+    to: parsed.to,
+    bodyText: mimeBodyText(parsed),
+    internalTs: internalTs !== undefined ? Math.round(internalTs) : undefined,
+    messageIdHeader: parsed.messageId,
+    references: parsed.references,
+    attachments: mimeAttachments(parsed),
+    raw: {
+      message_id: parsed.messageId,
+      in_reply_to: parsed.inReplyTo,
+    },
+  };
+}
+
+export async function ingestFiles(options: IngestFilesOptions): Promise<IngestFilesOutput> {
+  const startedAt = new Date().toISOString();
+  const sources: IngestSource[] = [];
+  const messages: GmailMessage[] = [];
+  const seen = new Set<string>();
+
+  for (const target of options.paths) {
+    let found: Array<{ path: string; format: SourceFormat }>;
+    try {
+      found = await collectSources(path.resolve(target));
+    } catch (error) {
+      sources.push({
+        path: target,
+        format: "eml",
+        message_count: 0,
+        skipped_duplicates: 0,
+        error: error instanceof Error ? error.message : "unknown read error",
+      });
+      continue;
+    }
+
+    for (const source of found) {
+      const entry: IngestSource = { ...source, message_count: 0, skipped_duplicates: 0 };
+      sources.push(entry);
+      try {
+        for (const mail of await readSource(source)) {
+          const parsed = parseMimeMessage(mail.raw);
+          const account = resolveAccount(parsed, options);
+          const mailMessage = toMailMessage(parsed, mail);
+          const message = toPollMessage(account, mailMessage);
+          if (seen.has(message.source_key)) {
+            entry.skipped_duplicates += 1;
+            continue;
+          }
+          seen.add(message.source_key);
+          if (options.attachments && mailMessage.attachments?.length) {
+            message.attachments = await collectAttachments(
+              account,
+              mailMessage,
+              options.attachments,
+            );
+          }
+          messages.push(message);
+          entry.message_count += 1;
+        }
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : "unknown parse error";
+      }
+    }
+  }
+
+  messages.sort((left, right) => (left.internal_ts ?? 0) - (right.internal_ts ?? 0));
+
+  return {
+    command: "ingest_files",
+    run_id: randomUUID(),
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    source: "files",
+    sources,
+    partial_failure: sources.some((entry) => Boolean(entry.error)),
+    total_messages: messages.length,
+    messages,
+  };
+}
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  const paths = (clean(asString(flags.path)) ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (command !== "ingest_files" || paths.length === 0) {
+    console.error(
+      "Usage: tsx ingest-files.ts ingest_files --path <file|dir>[,<file|dir>...] [--account <email>] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const outputPath = clean(asString(flags.output)) || DEFAULT_OUTPUT;
+  const config = loadConfig({ flags });
+  const output = await ingestFiles({
+    paths,
+    account: parseEmails(asString(flags.account))[0],
+    monitoredEmails: config.monitoredEmails ?? [],
+    attachments: resolveAttachmentOptions(config),
+  });
+
+  await writeJson(outputPath, output);
+  console.log(JSON.stringify(output, null, 2));
+}
+
+if (isMainModule(import.meta.url)) {
+  await main();
+}
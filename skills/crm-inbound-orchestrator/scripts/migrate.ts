@@ -0,0 +1,103 @@
+import {
+  asString,
+  clean,
+  createMigrationRunnerFromConfig,
+  isMainModule,
+  loadConfig,
+  loadMigrations,
+  parseArgs,
+  writeJson,
+} from "./crm-core/index.ts";
+
+type MigrationEntry = {
+  version: number;
+  name: string;
+};
+
+type MigrateResult = {
+  command: "migrate";
+  target: string;
+  status: "ok" | "failed";
+  status_only: boolean;
+  schema_version: number;
+  latest_version: number;
+  applied: MigrationEntry[];
+  pending: MigrationEntry[];
+  error?: string;
+};
+
+const DEFAULT_OUTPUT_FILE = "/tmp/crm-migrate.json";
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command !== "migrate") {
+    console.error(
+      "Usage: tsx migrate.ts migrate [--status] [--migrations-dir <path>] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const statusOnly = flags.status === true;
+  const outputFile = clean(asString(flags.output)) || DEFAULT_OUTPUT_FILE;
+  const config = loadConfig({ flags, command: "migrate" });
+  const migrations = await loadMigrations(config.migrationsDir);
+  const runner = createMigrationRunnerFromConfig(config);
+  const applied = new Map(
+    (await runner.appliedMigrations()).map((entry) => [entry.version, entry.checksum]),
+  );
+
+  const result: MigrateResult = {
+    command: "migrate",
+    target: runner.target,
+    status: "ok",
+    status_only: statusOnly,
+    schema_version: Math.max(0, ...applied.keys()),
+    latest_version: Math.max(0, ...migrations.map((migration) => migration.version)),
+    applied: [],
+    pending: [],
+  };
+
+  const changed = migrations.filter(
+    (migration) =>
+      applied.has(migration.version) && applied.get(migration.version) !== migration.checksum,
+  );
+  if (changed.length > 0) {
+    result.status = "failed";
+    result.error = `Applied migrations were edited afterwards: ${changed
+      .map((migration) => `${migration.version}_${migration.name}`)
+      .join(", ")}. Add a new migration instead of changing an applied one.`;
+  }
+
+  const pending = migrations.filter((migration) => !applied.has(migration.version));
+  result.pending = pending.map(({ version, name }) => ({ version, name }));
+
+  if (!statusOnly && result.status === "ok") {
+    for (const migration of pending) {
+      try {
+        await runner.apply(migration);
+      } catch (error) {
+        result.status = "failed";
+        result.error = `Migration ${migration.version}_${migration.name} failed: ${
+          error instanceof Error ? error.message : "unknown error"
+        }`;
+        break;
+      }
+      result.applied.push({ version: migration.version, name: migration.name });
+      result.schema_version = Math.max(result.schema_version, migration.version);
+    }
+    result.pending = result.pending.filter(
+      (entry) => !result.applied.some((done) => done.version === entry.version),
+    );
+  }
+
+  await writeJson(outputFile, result);
+  console.log(JSON.stringify(result, null, 2));
+
+  if (result.status === "failed") {
+    process.exitCode = 1;
+  }
+}
+
+if (isMainModule(import.meta.url)) {
+  await main();
+}
@@ -1,379 +1,81 @@
-import { execFile } from "node:child_process";
 import { randomUUID } from "node:crypto";
-import { mkdir, writeFile } from "node:fs/promises";
-import path from "node:path";
-import { promisify } from "node:util";
 
-type CliArgs = {
-  command?: string;
-  flags: Record<string, string | boolean>;
-};
+import {
+  asString,
+  clean,
+  collectAttachments,
+  createMailProviderFromConfig,
+  createStorageClientFromConfig,
+  ensureSchemaVersion,
+  getOptionalString,
+  isMainModule,
+  loadConfig,
+  mailboxProfile,
+  parseArgs,
+  requireSetting,
+  resolveAttachmentOptions,
+  splitBody,
+  toPollAttachment,
+  writeJson,
+  type AccountPollResult,
+  type AttachmentOptions,
+  type CrmConfig,
+  type GmailMessage,
+  type MailboxProfile,
+  type MailMessage,
+  type MailProvider,
+  type MailSearch,
+  type PollOutput,
+  type StorageClient,
+} from "./crm-core/index.ts";
 
 type PollStateRow = {
   account_email: string;
   last_polled_at?: string;
   last_message_ts?: string;
+  last_uid?: number;
+  uid_validity?: number;
+  change_cursor?: string;
   updated_at?: string;
 };
 
-type GmailMessage = {
-  account_email: string;
-  message_id: string;
-  thread_id?: string;
-  subject?: string;
-  from?: string;
-  snippet?: string;
-  body_text?: string;
-  received_at?: string;
-  internal_ts?: number;
-  source_key: string;
-  raw: Record<string, unknown>;
-};
-
-type AccountPollResult = {
-  account_email: string;
-  query: string;
-  since_ts: string;
-  fetched_count: number;
-  dropped_older_than_window?: number;
-  error?: string;
-};
-
-type PollOutput = {
-  command: "poll_inboxes";
-  run_id: string;
-  started_at: string;
-  finished_at: string;
-  poll_query: string;
-  overlap_minutes: number;
-  max_age_hours: number;
-  max_results: number;
-  per_account: AccountPollResult[];
-  partial_failure: boolean;
-  total_messages: number;
-  messages: GmailMessage[];
-};
-
-const execFileAsync = promisify(execFile);
-const DEFAULT_POLL_QUERY =
-  "in:inbox is:unread -in:spam -in:trash -category:promotions -category:social -category:updates -category:forums";
-const DEFAULT_OVERLAP_MINUTES = 120;
-const DEFAULT_MAX_RESULTS = 200;
-const DEFAULT_MAX_AGE_HOURS = 36;
-const DEFAULT_POLL_STATE_TABLE = "crm_poll_state";
 const DEFAULT_OUTPUT = "/tmp/crm-poll.json";
 
-function parseArgs(argv: string[]): CliArgs {
-  const tokens = argv.slice(2);
-  const command = tokens.shift();
-  const flags: Record<string, string | boolean> = {};
-
-  for (let i = 0; i < tokens.length; i += 1) {
-    const token = tokens[i];
-    if (!token.startsWith("--")) {
-      continue;
-    }
-    const key = token.slice(2);
-    const next = tokens[i + 1];
-    if (!next || next.startsWith("--")) {
-      flags[key] = true;
-      continue;
-    }
-    flags[key] = next;
-    i += 1;
-  }
-
-  return { command, flags };
-}
-
-function asString(value: string | boolean | undefined): string | undefined {
-  return typeof value === "string" ? value : undefined;
-}
-
-function asNumber(value: string | boolean | undefined): number | undefined {
-  const text = asString(value);
-  if (!text) {
-    return undefined;
-  }
-  const parsed = Number.parseInt(text, 10);
-  return Number.isFinite(parsed) ? parsed : undefined;
-}
-
-function clean(value: string | undefined): string | undefined {
-  const trimmed = value?.trim();
-  return trimmed ? trimmed : undefined;
-}
-
-function parseEmails(value: string | undefined): string[] {
-  const text = clean(value);
-  if (!text) {
-    return [];
-  }
-  return text
-    .split(",")
-    .map((entry) => entry.trim().toLowerCase())
-    .filter((entry) => entry.length > 0);
-}
-
-function getRecord(value: unknown): Record<string, unknown> | undefined {
-  if (!value || typeof value !== "object") {
-    return undefined;
-  }
-  return value as Record<string, unknown>;
-}
-
-function getString(record: Record<string, unknown>, keys: string[]): string | undefined {
-  for (const key of keys) {
-    const candidate = record[key];
-    if (typeof candidate === "string" && candidate.trim()) {
-      return candidate.trim();
-    }
-  }
-  return undefined;
-}
-
-function getEpochMillis(record: Record<string, unknown>): number | undefined {
-  const candidates = [record.internalDate, record.internal_date, record.receivedAt, record.date];
-  for (const candidate of candidates) {
-    if (typeof candidate === "number" && Number.isFinite(candidate)) {
-      if (candidate > 1_000_000_000_000) {
-        return candidate;
-      }
-      if (candidate > 1_000_000_000) {
-        return candidate * 1000;
-      }
-    }
-    if (typeof candidate === "string" && candidate.trim()) {
-      if (/^\d+$/.test(candidate.trim())) {
-        const parsed = Number.parseInt(candidate.trim(), 10);
-        if (Number.isFinite(parsed)) {
-          if (parsed > 1_000_000_000_000) {
-            return parsed;
-          }
-          if (parsed > 1_000_000_000) {
-            return parsed * 1000;
-          }
-        }
-      }
-      const parsedDate = Date.parse(candidate);
-      if (Number.isFinite(parsedDate)) {
-        return parsedDate;
-      }
-    }
-  }
-  return undefined;
-}
-
-function sanitizeText(value: string): string {
-  return value
-    .replace(/<style[\s\S]*?<\/style>/gi, " ")
-    .replace(/<script[\s\S]*?<\/script>/gi, " ")
-    .replace(/<[^>]+>/g, " ")
-    .replace(/&nbsp;/gi, " ")
-    .replace(/&amp;/gi, "&")
-    .replace(/&lt;/gi, "<")
-    .replace(/&gt;/gi, ">")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-function decodeBase64UrlText(value: string): string | undefined {
-  const compact = value.trim();
-  if (compact.length < 24 || !/^[A-Za-z0-9+/_=-]+$/.test(compact)) {
-    return undefined;
-  }
-
-  try {
-    const normalized = compact.replace(/-/g, "+").replace(/_/g, "/");
-    const decoded = Buffer.from(normalized, "base64").toString("utf8");
-    const cleaned = sanitizeText(decoded);
-    if (!cleaned) {
-      return undefined;
-    }
-    const printableRatio =
-      cleaned.replace(/[^\x09\x0A\x0D\x20-\x7E]/g, "").length / Math.max(cleaned.length, 1);
-    if (printableRatio < 0.75) {
-      return undefined;
-    }
-    return cleaned;
-  } catch {
-    return undefined;
-  }
-}
-
-function collectBodyText(value: unknown, out: string[], depth = 0): void {
-  if (depth > 5 || out.length > 40 || value === undefined || value === null) {
-    return;
-  }
-
-  if (typeof value === "string") {
-    const cleaned = sanitizeText(value);
-    if (cleaned) {
-      out.push(cleaned);
-    }
-    const decoded = decodeBase64UrlText(value);
-    if (decoded) {
-      out.push(decoded);
-    }
-    return;
-  }
-
-  if (Array.isArray(value)) {
-    for (const item of value) {
-      collectBodyText(item, out, depth + 1);
-    }
-    return;
-  }
-
-  const record = getRecord(value);
-  if (!record) {
-    return;
-  }
-
-  const keys = [
-    "snippet",
-    "preview",
-    "bodySnippet",
-    "body",
-    "textBody",
-    "plainTextBody",
-    "bodyText",
-    "content",
-    "text",
-    "value",
-    "data",
-    "payload",
-    "parts",
-    "mimeParts",
-    "message",
-    "messages",
-    "raw",
-  ];
-  for (const key of keys) {
-    if (key in record) {
-      collectBodyText(record[key], out, depth + 1);
-    }
-  }
-}
-
-function extractBodyText(raw: Record<string, unknown>): string | undefined {
-  const segments: string[] = [];
-  collectBodyText(raw, segments, 0);
-  if (segments.length === 0) {
-    return undefined;
-  }
-
-  const unique = Array.from(new Set(segments.map((segment) => segment.trim()).filter(Boolean)));
-  if (unique.length === 0) {
-    return undefined;
-  }
-
-  unique.sort((a, b) => b.length - a.length);
-  return unique[0]?.slice(0, 4_000);
-}
-
-function parseGogMessages(rawJson: string): Record<string, unknown>[] {
-  const parsed = JSON.parse(rawJson) as unknown;
-
-  if (Array.isArray(parsed)) {
-    return parsed.filter((item): item is Record<string, unknown> => Boolean(getRecord(item)));
-  }
-
-  const record = getRecord(parsed);
-  if (!record) {
-    return [];
-  }
-
-  const listCandidates = [
-    record.messages,
-    record.items,
-    record.data,
-    record.results,
-    record.rows,
-    record.threads,
-  ];
-
-  for (const candidate of listCandidates) {
-    if (!Array.isArray(candidate)) {
-      continue;
-    }
-    return candidate.filter((item): item is Record<string, unknown> => Boolean(getRecord(item)));
-  }
-
-  return [];
-}
-
-async function runGogMessageSearch(args: {
-  account: string;
-  query: string;
-  maxResults: number;
-}): Promise<Record<string, unknown>[]> {
-  const commandArgs = [
-    "gmail",
-    "messages",
-    "search",
-    args.query,
-    "--max",
-    String(args.maxResults),
-    "--account",
-    args.account,
-    "--json",
-    "--no-input",
-    "--include-body",
-  ];
-
-  const { stdout } = await execFileAsync("gog", commandArgs, {
-    maxBuffer: 15 * 1024 * 1024,
-  });
-
-  return parseGogMessages(stdout);
-}
-
-async function supabaseSelectPollState(options: {
-  supabaseUrl: string;
-  serviceKey: string;
-  table: string;
-  accountEmail: string;
-}): Promise<PollStateRow | undefined> {
+async function selectPollState(
+  storage: StorageClient,
+  table: string,
+  accountEmail: string,
+): Promise<PollStateRow | undefined> {
   const query = new URLSearchParams();
-  query.set("select", "account_email,last_polled_at,last_message_ts,updated_at");
-  query.set("account_email", `eq.${options.accountEmail}`);
-  query.set("limit", "1");
-
-  const response = await fetch(
-    `${options.supabaseUrl}/rest/v1/${options.table}?${query.toString()}`,
-    {
-      headers: {
-        apikey: options.serviceKey,
-        Authorization: `Bearer ${options.serviceKey}`,
-        Accept: "application/json",
-      },
-    },
+  query.set(
+    "select",
+    "account_email,last_polled_at,last_message_ts,last_uid,uid_validity,change_cursor,updated_at",
   );
+  query.set("account_email", `eq.${accountEmail}`);
+  query.set("limit", "1");
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Supabase poll state read failed (${response.status}): ${text || "unknown"}`);
-  }
-
-  const body = (await response.json()) as unknown;
-  if (!Array.isArray(body) || body.length === 0) {
-    return undefined;
-  }
-
-  const row = getRecord(body[0]);
+  const rows = await storage.select(table, query);
+  const row = rows[0];
   if (!row) {
     return undefined;
   }
 
   return {
-    account_email: String(row.account_email ?? options.accountEmail),
-    last_polled_at: typeof row.last_polled_at === "string" ? row.last_polled_at : undefined,
-    last_message_ts: typeof row.last_message_ts === "string" ? row.last_message_ts : undefined,
-    updated_at: typeof row.updated_at === "string" ? row.updated_at : undefined,
+    account_email: getOptionalString(row, "account_email") ?? accountEmail,
+    last_polled_at: getOptionalString(row, "last_polled_at"),
+    last_message_ts: getOptionalString(row, "last_message_ts"),
+    last_uid: optionalNumber(row.last_uid),
+    uid_validity: optionalNumber(row.uid_validity),
+    change_cursor: getOptionalString(row, "change_cursor"),
+    updated_at: getOptionalString(row, "updated_at"),
   };
 }
 
+function optionalNumber(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined;
+}
+
 function buildSinceEpochSeconds(state: PollStateRow | undefined, overlapMinutes: number): number {
   const overlapMs = overlapMinutes * 60_000;
   const now = Date.now();
@@ -391,138 +93,244 @@ function buildSinceEpochSeconds(state: PollStateRow | undefined, overlapMinutes:
   return Math.floor(sinceMs / 1000);
 }
 
-async function writeJson(filePath: string, payload: unknown): Promise<void> {
-  await mkdir(path.dirname(filePath), { recursive: true });
-  await writeFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+export function toPollMessage(account: string, message: MailMessage): GmailMessage {
+  const body = splitBody(message.bodyText);
+  const bodyText = body?.text.slice(0, 4_000) || undefined;
+  return {
+    account_email: account,
+    message_id: message.id,
+    thread_id: message.threadId,
+    subject: message.subject,
+    from: message.from,
+    snippet: message.snippet || bodyText?.slice(0, 600),
+    body_text: bodyText,
+    ...(body?.quoted ? { body_quoted: body.quoted.slice(0, 4_000) } : {}),
+    ...(body?.signature ? { body_signature: body.signature.slice(0, 1_000) } : {}),
+    received_at: message.internalTs ? new Date(message.internalTs).toISOString() : undefined,
+    internal_ts: message.internalTs,
+    ...(message.uid !== undefined ? { uid: message.uid, uid_validity: message.uidValidity } : {}),
+    source_key: `${account}:${message.id}`,
+    ...(message.attachments?.length
+      ? { attachments: message.attachments.map(toPollAttachment) }
+      : {}),
+    raw: message.raw,
+  };
 }
 
-function normalizeMessage(account: string, raw: Record<string, unknown>): GmailMessage | undefined {
-  const messageId = getString(raw, ["id", "messageId", "message_id"]);
-  if (!messageId) {
-    return undefined;
+function keepFreshMessages(
+  account: string,
+  found: MailMessage[],
+  minAllowedTs: number,
+): { fresh: GmailMessage[]; dropped: number } {
+  const seen = new Set<string>();
+  const deduped: GmailMessage[] = [];
+  for (const message of found.map((entry) => toPollMessage(account, entry))) {
+    if (seen.has(message.source_key)) {
+      continue;
+    }
+    seen.add(message.source_key);
+    deduped.push(message);
   }
 
-  const threadId = getString(raw, ["threadId", "thread_id"]);
-  const subject = getString(raw, ["subject"]);
-  const from = getString(raw, ["from", "sender"]);
-  const bodyText = extractBodyText(raw);
-  const snippet = getString(raw, ["snippet", "preview", "bodySnippet"]) || bodyText?.slice(0, 600);
-  const internalTs = getEpochMillis(raw);
+  const fresh = deduped.filter((message) => {
+    const ts =
+      typeof message.internal_ts === "number" && Number.isFinite(message.internal_ts)
+        ? message.internal_ts
+        : message.received_at
+          ? Date.parse(message.received_at)
+          : Number.NaN;
+    return Number.isFinite(ts) && ts >= minAllowedTs;
+  });
+  return { fresh, dropped: deduped.length - fresh.length };
+}
 
+function uidWatermark(
+  found: MailMessage[],
+  sinceUid: MailSearch["sinceUid"],
+): Pick<AccountPollResult, "since_uid" | "uid_validity" | "last_uid"> {
+  const latest = found.reduce<MailMessage | undefined>(
+    (best, message) =>
+      message.uid !== undefined && (best?.uid === undefined || message.uid > best.uid)
+        ? message
+        : best,
+    undefined,
+  );
+  if (!latest?.uidValidity) {
+    return sinceUid ? { since_uid: sinceUid.uid, uid_validity: sinceUid.uidValidity } : {};
+  }
   return {
-    account_email: account,
-    message_id: messageId,
-    thread_id: threadId,
-    subject,
-    from,
-    snippet,
-    body_text: bodyText,
-    received_at: internalTs ? new Date(internalTs).toISOString() : undefined,
-    internal_ts: internalTs,
-    source_key: `${account}:${messageId}`,
-    raw,
+    ...(sinceUid?.uidValidity === latest.uidValidity ? { since_uid: sinceUid.uid } : {}),
+    uid_validity: latest.uidValidity,
+    last_uid: latest.uid,
   };
 }
 
-async function main() {
-  const { command, flags } = parseArgs(process.argv);
-  if (command !== "poll_inboxes") {
-    console.error(
-      "Usage: bun poll-inboxes.ts poll_inboxes [--accounts <csv>] [--query <gmail-query>] [--overlap-minutes <n>] [--max-age-hours <n>] [--output <path>]",
+export type PollInboxesOptions = {
+  accounts: string[];
+  pollQuery: string;
+  overlapMinutes: number;
+  maxResults: number;
+  maxAgeHours: number;
+  profiles?: Record<string, MailboxProfile>;
+  storage: StorageClient;
+  mail: MailProvider;
+  pollStateTable: string;
+  activitiesTable: string;
+  attachments: AttachmentOptions;
+  runId?: string;
+};
+
+async function selectProcessedKeys(
+  storage: StorageClient,
+  table: string,
+  sourceKeys: string[],
+): Promise<Set<string>> {
+  const processed = new Set<string>();
+  for (let index = 0; index < sourceKeys.length; index += 100) {
+    const chunk = sourceKeys.slice(index, index + 100);
+    const query = new URLSearchParams();
+    query.set("select", "source_key");
+    query.set(
+      "source_key",
+      `in.(${chunk.map((key) => `"${key.replace(/[\\"]/g, "\\$&")}"`).join(",")})`,
     );
-    process.exit(1);
+    for (const row of await storage.select(table, query)) {
+      const sourceKey = getOptionalString(row, "source_key");
+      if (sourceKey) {
+        processed.add(sourceKey);
+      }
+    }
   }
+  return processed;
+}
 
-  const accounts = parseEmails(asString(flags.accounts) || process.env.CRM_MONITORED_EMAILS);
-  if (accounts.length === 0) {
-    throw new Error("CRM_MONITORED_EMAILS is required (comma-separated)");
+async function searchWindow(
+  mail: MailProvider,
+  search: MailSearch,
+): Promise<{ found: MailMessage[]; truncated: boolean }> {
+  const found: MailMessage[] = [];
+  const seen = new Set<string>();
+  let query = search.query;
+  for (;;) {
+    const page = await mail.searchMessages({ ...search, query });
+    const added = page.filter((message) => !seen.has(message.id));
+    for (const message of added) {
+      seen.add(message.id);
+      found.push(message);
+    }
+    if (page.length < search.maxResults) {
+      return { found, truncated: false };
+    }
+    const oldest = Math.min(...added.map((message) => message.internalTs ?? Infinity));
+    if (!Number.isFinite(oldest) || page.some((message) => message.uid !== undefined)) {
+      return { found, truncated: true };
+    }
+    query = `${search.query} before:${Math.floor(oldest / 1000) + 1}`;
   }
+}
 
-  const pollQuery =
-    clean(asString(flags.query)) || clean(process.env.CRM_POLL_QUERY) || DEFAULT_POLL_QUERY;
-  const overlapMinutes =
-    asNumber(flags["overlap-minutes"]) ||
-    asNumber(process.env.CRM_POLL_OVERLAP_MINUTES) ||
-    DEFAULT_OVERLAP_MINUTES;
-  const maxResults =
-    asNumber(flags["max-results"]) ||
-    asNumber(process.env.CRM_POLL_MAX_RESULTS) ||
-    DEFAULT_MAX_RESULTS;
-  const maxAgeHours =
-    asNumber(flags["max-age-hours"]) ||
-    asNumber(process.env.CRM_POLL_MAX_AGE_HOURS) ||
-    DEFAULT_MAX_AGE_HOURS;
-  const outputPath = clean(asString(flags.output)) || DEFAULT_OUTPUT;
-  const nowMs = Date.now();
-  const minAllowedTs = nowMs - maxAgeHours * 60 * 60 * 1000;
+async function pollAccount(
+  options: PollInboxesOptions,
+  account: string,
+  nowMs: number,
+): Promise<{ messages: GmailMessage[]; result: AccountPollResult }> {
+  const { overlapMinutes, maxResults, mail } = options;
+  const profile = mailboxProfile(options.profiles, account);
+  const pollQuery = profile.pollQuery ?? options.pollQuery;
+  const minAllowedTs = nowMs - (profile.maxAgeHours ?? options.maxAgeHours) * 60 * 60 * 1000;
+  const state = await selectPollState(options.storage, options.pollStateTable, account);
+  const changes =
+    state?.change_cursor && mail.listChanges
+      ? await mail.listChanges(account, state.change_cursor, pollQuery)
+      : undefined;
+
+  let found: MailMessage[];
+  let result: AccountPollResult;
+  if (changes && !changes.expired) {
+    found = changes.messages;
+    result = {
+      account_email: account,
+      query: pollQuery,
+      since_ts: state?.last_polled_at ?? new Date().toISOString(),
+      fetched_count: 0,
+      since_cursor: state?.change_cursor,
+      change_cursor: changes.cursor ?? state?.change_cursor,
+    };
+  } else {
+    const cursor = mail.currentCursor ? await mail.currentCursor(account, pollQuery) : undefined;
+    const sinceEpoch = buildSinceEpochSeconds(state, overlapMinutes);
+    const accountQuery = `${pollQuery} after:${sinceEpoch}`;
+    const sinceUid =
+      state?.last_uid !== undefined && state.uid_validity !== undefined
+        ? { uidValidity: state.uid_validity, uid: state.last_uid }
+        : undefined;
+
+    const polled = await searchWindow(mail, {
+      account,
+      query: accountQuery,
+      maxResults,
+      sinceUid,
+    });
+    found = polled.found;
+    result = {
+      account_email: account,
+      query: accountQuery,
+      since_ts: new Date(sinceEpoch * 1000).toISOString(),
+      fetched_count: 0,
+      ...uidWatermark(found, sinceUid),
+      ...(polled.truncated ? { truncated: true } : {}),
+      ...(state?.change_cursor ? { since_cursor: state.change_cursor, cursor_fallback: true } : {}),
+      ...(cursor && !polled.truncated ? { change_cursor: cursor } : {}),
+    };
+  }
 
-  const supabaseUrl = clean(process.env.SUPABASE_URL);
-  const supabaseKey = clean(process.env.SUPABASE_SECRET_KEY);
-  if (!supabaseUrl || !supabaseKey) {
-    throw new Error("SUPABASE_URL and SUPABASE_SECRET_KEY are required");
+  const { fresh, dropped } = keepFreshMessages(account, found, minAllowedTs);
+  const processed = await selectProcessedKeys(
+    options.storage,
+    options.activitiesTable,
+    fresh.map((message) => message.source_key),
+  );
+  const messages = fresh.filter((message) => !processed.has(message.source_key));
+  const byId = new Map(found.map((message) => [message.id, message]));
+  let attachmentErrors = 0;
+  for (const message of messages) {
+    const source = byId.get(message.message_id);
+    if (!source?.attachments?.length) {
+      continue;
+    }
+    message.attachments = await collectAttachments(account, source, options.attachments, mail);
+    attachmentErrors += message.attachments.filter((entry) => entry.error).length;
   }
+  return {
+    messages,
+    result: {
+      ...result,
+      fetched_count: messages.length,
+      dropped_older_than_window: dropped,
+      ...(processed.size > 0 ? { already_processed: processed.size } : {}),
+      ...(attachmentErrors > 0 ? { attachment_errors: attachmentErrors } : {}),
+    },
+  };
+}
 
-  const pollStateTable = clean(process.env.CRM_POLL_STATE_TABLE) || DEFAULT_POLL_STATE_TABLE;
+export async function pollInboxes(options: PollInboxesOptions): Promise<PollOutput> {
+  const { accounts, pollQuery, overlapMinutes, maxResults, maxAgeHours } = options;
+  const nowMs = Date.now();
 
-  const runId = randomUUID();
+  const runId = options.runId || randomUUID();
   const startedAt = new Date().toISOString();
   const perAccount: AccountPollResult[] = [];
   const allMessages: GmailMessage[] = [];
 
   for (const account of accounts) {
     try {
-      const state = await supabaseSelectPollState({
-        supabaseUrl,
-        serviceKey: supabaseKey,
-        table: pollStateTable,
-        accountEmail: account,
-      });
-
-      const sinceEpoch = buildSinceEpochSeconds(state, overlapMinutes);
-      const accountQuery = `${pollQuery} after:${sinceEpoch}`;
-
-      const rows = await runGogMessageSearch({
-        account,
-        query: accountQuery,
-        maxResults,
-      });
-
-      const normalized = rows
-        .map((row) => normalizeMessage(account, row))
-        .filter((message): message is GmailMessage => Boolean(message));
-
-      const seen = new Set<string>();
-      const deduped: GmailMessage[] = [];
-      for (const message of normalized) {
-        if (seen.has(message.source_key)) {
-          continue;
-        }
-        seen.add(message.source_key);
-        deduped.push(message);
-      }
-
-      const freshMessages = deduped.filter((message) => {
-        const ts =
-          typeof message.internal_ts === "number" && Number.isFinite(message.internal_ts)
-            ? message.internal_ts
-            : message.received_at
-              ? Date.parse(message.received_at)
-              : Number.NaN;
-        return Number.isFinite(ts) && ts >= minAllowedTs;
-      });
-
-      allMessages.push(...freshMessages);
-      perAccount.push({
-        account_email: account,
-        query: accountQuery,
-        since_ts: new Date(sinceEpoch * 1000).toISOString(),
-        fetched_count: freshMessages.length,
-        dropped_older_than_window: deduped.length - freshMessages.length,
-      });
+      const { messages, result } = await pollAccount(options, account, nowMs);
+      allMessages.push(...messages);
+      perAccount.push(result);
     } catch (error) {
       perAccount.push({
         account_email: account,
-        query: pollQuery,
+        query: mailboxProfile(options.profiles, account).pollQuery ?? pollQuery,
         since_ts: new Date(Date.now() - overlapMinutes * 60_000).toISOString(),
         fetched_count: 0,
         error: error instanceof Error ? error.message : "unknown polling error",
@@ -530,7 +338,7 @@ async function main() {
     }
   }
 
-  const output: PollOutput = {
+  return {
     command: "poll_inboxes",
     run_id: runId,
     started_at: startedAt,
@@ -544,9 +352,42 @@ async function main() {
     total_messages: allMessages.length,
     messages: allMessages,
   };
+}
+
+export function resolvePollInboxesOptions(config: CrmConfig): PollInboxesOptions {
+  return {
+    accounts: requireSetting(config, "monitoredEmails"),
+    pollQuery: config.pollQuery,
+    overlapMinutes: config.pollOverlapMinutes,
+    maxResults: config.pollMaxResults,
+    maxAgeHours: config.pollMaxAgeHours,
+    profiles: config.mailboxProfiles,
+    storage: createStorageClientFromConfig(config),
+    mail: createMailProviderFromConfig(config),
+    pollStateTable: config.pollStateTable,
+    activitiesTable: config.activitiesTable,
+    attachments: resolveAttachmentOptions(config),
+  };
+}
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command !== "poll_inboxes") {
+    console.error(
+      "Usage: bun poll-inboxes.ts poll_inboxes [--accounts <csv>] [--query <gmail-query>] [--overlap-minutes <n>] [--max-age-hours <n>] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const outputPath = clean(asString(flags.output)) || DEFAULT_OUTPUT;
+  const options = resolvePollInboxesOptions(loadConfig({ flags, command: "poll_inboxes" }));
+  await ensureSchemaVersion(options.storage);
+  const output = await pollInboxes(options);
 
   await writeJson(outputPath, output);
   console.log(JSON.stringify(output, null, 2));
 }
 
-await main();
+if (isMainModule(import.meta.url)) {
+  await main();
+}
@@ -1,51 +1,55 @@
-import { execFile } from "node:child_process";
 import { randomUUID } from "node:crypto";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
-import path from "node:path";
-import { promisify } from "node:util";
 
-type CliArgs = {
-  command?: string;
-  flags: Record<string, string | boolean>;
-};
-
-type Classification = "receipt" | "sales" | "support" | "ignore";
-
-type PollMessage = {
-  account_email: string;
-  message_id: string;
-  thread_id?: string;
-  subject?: string;
-  from?: string;
-  snippet?: string;
-  body_text?: string;
-  received_at?: string;
-  internal_ts?: number;
-  source_key: string;
-  raw?: Record<string, unknown>;
-};
-
-type PollFile = {
-  run_id?: string;
-  started_at?: string;
-  finished_at?: string;
-  partial_failure?: boolean;
-  messages: PollMessage[];
-  per_account?: Array<{ account_email: string; fetched_count?: number; error?: string }>;
-};
-
-type SopSnapshot = {
-  degraded?: boolean;
-  source?: string;
-  warnings?: string[];
-  sop?: {
-    hash?: string;
-    sections?: Array<{ heading?: string; items?: string[] }>;
-    blocks?: Array<{ text?: string }>;
-  };
-};
-
-type ClassificationResult = {
+import {
+  asString,
+  buildLockHolderId,
+  buildTaxonomy,
+  clean,
+  createDryRunPlan,
+  createMailProviderFromConfig,
+  createRecordingSlackClient,
+  createRecordingStorageClient,
+  createRunLockFromConfig,
+  createSlackClientFromConfig,
+  createStorageClientFromConfig,
+  ensureSchemaVersion,
+  fetchWithRetry,
+  formatRetryEvent,
+  getRecord,
+  getString,
+  isMainModule,
+  isSopRulesHeading,
+  labelNames,
+  labelPolicy,
+  loadClassifierRules,
+  loadConfig,
+  loadFeedbackExamples,
+  mailboxProfile,
+  onRetryAttempt,
+  parseArgs,
+  pickFeedbackExamples,
+  readJsonFile,
+  withRunLock,
+  writeJson,
+  type ClassificationLabel,
+  type ClassifierRules,
+  type CrmConfig,
+  type DryRunPlan,
+  type FeedbackExample,
+  type MailboxProfile,
+  type MailProvider,
+  type PollFile,
+  type PollMessage,
+  type SlackBlock,
+  type SlackClient,
+  type SlackMessage,
+  type SopSnapshot,
+  type StorageClient,
+} from "./crm-core/index.ts";
+
+export type Classification = string;
+
+export type ClassificationResult = {
   label: Classification;
   confidence: number;
   reasons: string[];
@@ -73,23 +77,49 @@ type DraftRow = {
   body: string;
 };
 
-type ProcessResult = {
+type ThreadActivity = {
+  id: string;
+  source_key: string;
+  from_email?: string;
+  subject?: string;
+  snippet?: string;
+  received_at?: string;
+  classification: string;
+  contact_id?: string;
+  reclassified_at?: string;
+  drafts: Array<{ id: string; status: string }>;
+};
+
+type ThreadContext = {
+  own?: ThreadActivity;
+  history: ThreadActivity[];
+  openSales: boolean;
+  contactId?: string;
+  draft?: { id: string; status: string; activity_id: string };
+};
+
+export type ProcessResult = {
   command: "process_inbound";
   run_id: string;
   started_at: string;
   finished_at: string;
-  status: "ok" | "partial_failure";
+  status: "ok" | "partial_failure" | "failed";
   degraded: boolean;
+  rules: { version: number; hash: string; sources: string[] };
   totals: {
     polled_messages: number;
     processed_messages: number;
+    failed_messages: number;
     activities_upserted: number;
     drafts_upserted: number;
     accounting_entries_upserted: number;
+    notifications_posted: number;
+    thread_follow_ups: number;
   };
   classification_counts: Record<Classification, number>;
   sales_drafts: Array<{
     draft_id: string;
+    label: Classification;
     activity_id: string;
     account_email: string;
     to_email: string;
@@ -103,357 +133,65 @@ type ProcessResult = {
     amount?: number;
     currency?: string;
   }>;
+  notifications: Array<{
+    activity_id: string;
+    label: Classification;
+    account_email: string;
+    slack_posted: boolean;
+    slack_error?: string;
+  }>;
+  dead_letters: Array<{
+    source_key: string;
+    stage: string;
+    error: string;
+  }>;
   poll_state_updates: Array<{
     account_email: string;
     last_polled_at: string;
     last_message_ts?: string;
+    last_uid?: number;
+    change_cursor?: string;
   }>;
   warnings: string[];
+  dry_run?: boolean;
+  planned?: DryRunPlan;
 };
 
-type SlackBlock = Record<string, unknown>;
-
-type SlackMessage = {
-  text: string;
-  blocks?: SlackBlock[];
+type MessageStage =
+  | "classify"
+  | "contact"
+  | "activity"
+  | "draft"
+  | "slack"
+  | "label"
+  | "accounting"
+  | "close_drafts";
+
+type MessageContext = {
+  settings: ProcessInboundSettings;
+  sop: SopSnapshot | undefined;
+  sopCues: string[];
+  rules: ClassifierRules;
+  result: ProcessResult;
+  maxTsByAccount: Map<string, string>;
+  feedback: FeedbackExample[];
+  stage: MessageStage;
 };
 
-const DEFAULT_SOP_CACHE_FILE = "/tmp/crm-inbound-sop-cache.json";
-const DEFAULT_OUTPUT_FILE = "/tmp/crm-process.json";
-const DEFAULT_CONTACTS_TABLE = "crm_contacts";
-const DEFAULT_ACTIVITIES_TABLE = "crm_activities";
-const DEFAULT_DRAFTS_TABLE = "crm_drafts";
-const DEFAULT_ACCOUNTING_TABLE = "accounting_entries";
-const DEFAULT_JOB_RUNS_TABLE = "crm_job_runs";
-const DEFAULT_POLL_STATE_TABLE = "crm_poll_state";
-const DEFAULT_CLASSIFIER_MODEL = "gpt-5-nano";
-const DEFAULT_REPLY_MODEL = "gpt-5.2";
-const DEFAULT_GMAIL_LEAD_LABEL = "CRM/Lead";
-
-const execFileAsync = promisify(execFile);
-const ensuredLabelCache = new Set<string>();
-
-const LEAD_INTENT_SIGNALS = [
-  "consulting",
-  "consulting opportunity",
-  "paid consulting",
-  "advisory",
-  "advisor",
-  "expert network",
-  "subject matter expert",
-  "sponsorship",
-  "sponsorship inquiry",
-  "partnership",
-  "affiliate partnership",
-  "creator partnership",
-  "collaboration",
-  "consultation call",
-  "paid phone consultation",
-  "partnership inquiry",
-];
-
-const LEAD_DIRECT_ASK_SIGNALS = [
-  "interested in a quick rundown",
-  "are you interested",
-  "would you be interested",
-  "book some time",
-  "book a call",
-  "schedule a call",
-  "let us know if you'd be interested",
-  "if this is in your wheelhouse",
-  "reach out to discuss",
-  "follow up in case my previous email slipped through the cracks",
-];
-
-const LEAD_COMMERCIAL_SIGNALS = [
-  "payment for your time",
-  "paid",
-  "deliverables",
-  "budget",
-  "campaign brief",
-  "client",
-  "sponsorship",
-  "partnership",
-  "consultation",
-  "project",
-  "timeline",
-];
-
-const EXPERT_NETWORK_DOMAINS = [
-  "alphasights.com",
-  "guidepoint.com",
-  "thirdbridge.com",
-  "glgroup.com",
-  "dialecticanet.com",
-  "colemanrg.com",
-  "prosapient.com",
-  "visasq.com",
-];
-
-const AUTOMATED_SENDER_SIGNALS = [
-  "no-reply",
-  "noreply",
-  "do-not-reply",
-  "notifications",
-  "digest",
-  "newsletter",
-  "jobalerts",
-  "automated",
-];
-
-const AUTOMATED_TEXT_SIGNALS = [
-  "job alert",
-  "jobs you may be interested",
-  "recommended jobs",
-  "linkedin jobs",
-  "daily digest",
-  "weekly digest",
-  "unsubscribe",
-  "manage preferences",
-  "view in browser",
-  "notification settings",
-];
-
-const NEWSLETTER_DIGEST_SIGNALS = [
-  "view in browser",
-  "unsubscribe",
-  "manage preferences",
-  "privacy policy",
-  "all rights reserved",
-  "weekly digest",
-  "monthly digest",
-  "in the news",
-  "plus:",
-  "numerically speaking",
-  "top stories",
-];
-
-const GMAIL_PROMOTIONAL_LABELS = [
-  "CATEGORY_PROMOTIONS",
-  "CATEGORY_SOCIAL",
-  "CATEGORY_UPDATES",
-  "CATEGORY_FORUMS",
-];
-
-const BROADCAST_SENDER_HINTS = [
-  "news",
-  "newsletter",
-  "editor",
-  "editorial",
-  "updates",
-  "update",
-  "digest",
-  "crew",
-  "noreply",
-  "no-reply",
-];
-
-const HIRING_SIGNALS = [
-  "hiring",
-  "job opening",
-  "apply now",
-  "application",
-  "recruiter",
-  "career opportunity",
-  "open role",
-  "resume",
-];
-
-const VENDOR_SYSTEM_DOMAINS = [
-  "linkedin.com",
-  "indeed.com",
-  "glassdoor.com",
-  "ziprecruiter.com",
-  "monster.com",
-  "mail.linkedin.com",
-  "mailchimp.com",
-  "sendgrid.net",
-  "stripe.com",
-  "paypal.com",
-  "quickbooks.com",
-  "intuit.com",
-];
-
-const RECEIPT_SIGNALS = [
-  "invoice",
-  "receipt",
-  "payment",
-  "charged",
-  "charge",
-  "order #",
-  "order confirmation",
-  "billing",
-  "subscription",
-  "tax invoice",
-];
-
-const SUPPORT_SIGNALS = ["support", "help", "issue", "error", "problem", "unable", "bug"];
-
-function parseArgs(argv: string[]): CliArgs {
-  const tokens = argv.slice(2);
-  const command = tokens.shift();
-  const flags: Record<string, string | boolean> = {};
-
-  for (let i = 0; i < tokens.length; i += 1) {
-    const token = tokens[i];
-    if (!token.startsWith("--")) {
-      continue;
-    }
-
-    const key = token.slice(2);
-    const next = tokens[i + 1];
-    if (!next || next.startsWith("--")) {
-      flags[key] = true;
-      continue;
-    }
-
-    flags[key] = next;
-    i += 1;
-  }
-
-  return { command, flags };
-}
-
-function asString(value: string | boolean | undefined): string | undefined {
-  return typeof value === "string" ? value : undefined;
-}
-
-function clean(value: string | undefined): string | undefined {
-  const trimmed = value?.trim();
-  return trimmed ? trimmed : undefined;
-}
-
-function getRecord(value: unknown): Record<string, unknown> | undefined {
-  if (!value || typeof value !== "object") {
-    return undefined;
-  }
-  return value as Record<string, unknown>;
-}
-
-function getString(record: Record<string, unknown>, keys: string[]): string | undefined {
-  for (const key of keys) {
-    const value = record[key];
-    if (typeof value === "string" && value.trim()) {
-      return value.trim();
-    }
-  }
-  return undefined;
-}
-
-function getBool(value: string | undefined, fallback: boolean): boolean {
-  if (!value) {
-    return fallback;
-  }
-  const normalized = value.trim().toLowerCase();
-  return normalized === "1" || normalized === "true" || normalized === "yes" || normalized === "on";
-}
-
-async function readJsonFile<T>(filePath: string): Promise<T> {
-  const raw = await readFile(filePath, "utf8");
-  return JSON.parse(raw) as T;
-}
-
-async function writeJson(filePath: string, payload: unknown): Promise<void> {
-  await mkdir(path.dirname(filePath), { recursive: true });
-  await writeFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
-}
-
-async function supabaseRequest<T>(options: {
-  supabaseUrl: string;
-  serviceKey: string;
-  method: "GET" | "POST" | "PATCH";
-  table: string;
-  query?: URLSearchParams;
-  body?: unknown;
-  prefer?: string;
-}): Promise<T> {
-  const suffix = options.query ? `?${options.query.toString()}` : "";
-  const response = await fetch(`${options.supabaseUrl}/rest/v1/${options.table}${suffix}`, {
-    method: options.method,
-    headers: {
-      apikey: options.serviceKey,
-      Authorization: `Bearer ${options.serviceKey}`,
-      "Content-Type": "application/json",
-      Accept: "application/json",
-      ...(options.prefer ? { Prefer: options.prefer } : {}),
-    },
-    body: options.body === undefined ? undefined : JSON.stringify(options.body),
-  });
-
-  const text = await response.text();
-  const data = text.trim() ? (JSON.parse(text) as T) : ({} as T);
-
-  if (!response.ok) {
-    throw new Error(
-      `Supabase ${options.method} ${options.table} failed (${response.status}): ${text}`,
-    );
-  }
-
-  return data;
-}
-
-async function supabaseUpsertRow(
-  options: {
-    supabaseUrl: string;
-    serviceKey: string;
-    table: string;
-    onConflict: string;
-  },
-  row: Record<string, unknown>,
-): Promise<Record<string, unknown>> {
-  const query = new URLSearchParams();
-  query.set("on_conflict", options.onConflict);
-
-  const response = await supabaseRequest<unknown>({
-    supabaseUrl: options.supabaseUrl,
-    serviceKey: options.serviceKey,
-    method: "POST",
-    table: options.table,
-    query,
-    body: [row],
-    prefer: "resolution=merge-duplicates,return=representation",
-  });
-
-  if (!Array.isArray(response) || response.length === 0) {
-    return row;
-  }
-
-  return getRecord(response[0]) ?? row;
-}
+type LeadLabeler = (args: {
+  account: string;
+  threadId?: string;
+  labelName: string;
+  remove?: boolean;
+}) => Promise<{ applied: boolean; error?: string }>;
 
-async function supabasePatchRows(
-  options: {
-    supabaseUrl: string;
-    serviceKey: string;
-    table: string;
-    filters: Record<string, string>;
-  },
-  patch: Record<string, unknown>,
-): Promise<Record<string, unknown>[]> {
-  const query = new URLSearchParams();
-  query.set("select", "*");
-  for (const [key, value] of Object.entries(options.filters)) {
-    query.set(key, `eq.${value}`);
-  }
-
-  const response = await supabaseRequest<unknown>({
-    supabaseUrl: options.supabaseUrl,
-    serviceKey: options.serviceKey,
-    method: "PATCH",
-    table: options.table,
-    query,
-    body: patch,
-    prefer: "return=representation",
-  });
+const DEFAULT_OUTPUT_FILE = "/tmp/crm-process.json";
+const DEFAULT_DRY_RUN_OUTPUT_FILE = "/tmp/crm-process-dry-run.json";
 
-  if (!Array.isArray(response)) {
-    return [];
-  }
+const ACKNOWLEDGEMENT_PATTERN =
+  /^(?:thanks|thank you|many thanks|thx|ty|got it|sounds good|great|perfect|will do|ok|okay|noted|appreciated?|much appreciated|cheers|awesome|received)\b/i;
 
-  return response
-    .map((item) => getRecord(item))
-    .filter((item): item is Record<string, unknown> => Boolean(item));
-}
+const OPEN_DRAFT_STATUSES = ["draft", "sending"];
 
 function extractEmailAddress(rawFrom: string | undefined): string | undefined {
   if (!rawFrom) {
@@ -492,12 +230,23 @@ function domainInList(domain: string | undefined, entries: string[]): boolean {
   return entries.some((entry) => domain === entry || domain.endsWith(`.${entry}`));
 }
 
+function attachmentText(message: PollMessage): string {
+  return (message.attachments ?? [])
+    .map((attachment) => attachment.text ?? "")
+    .filter(Boolean)
+    .join(" ");
+}
+
 function buildInboundText(message: PollMessage): string {
-  return `${message.subject ?? ""} ${message.snippet ?? ""} ${message.body_text ?? ""} ${message.from ?? ""}`
+  return `${message.subject ?? ""} ${message.body_text || message.snippet || ""} ${message.from ?? ""} ${attachmentText(message)}`
     .toLowerCase()
     .trim();
 }
 
+function buildAutomationText(message: PollMessage): string {
+  return `${buildInboundText(message)} ${message.body_signature?.toLowerCase() ?? ""}`.trim();
+}
+
 function clampText(value: string | undefined, maxChars: number): string | undefined {
   const normalized = value?.replace(/\s+/g, " ").trim();
   if (!normalized) {
@@ -532,24 +281,27 @@ function extractGmailLabels(message: PollMessage): string[] {
     .filter(Boolean);
 }
 
-function detectExplicitBusinessLead(message: PollMessage): { matched: boolean; reasons: string[] } {
+function detectExplicitBusinessLead(
+  message: PollMessage,
+  rules: ClassifierRules,
+): { matched: boolean; reasons: string[] } {
   const text = buildInboundText(message);
   const senderEmail = extractEmailAddress(message.from);
   const senderDomain = extractEmailDomain(senderEmail);
   const senderLocal = senderEmail?.split("@")[0]?.trim().toLowerCase() || "";
   const reasons: string[] = [];
 
-  const leadIntentScore = countSignals(text, LEAD_INTENT_SIGNALS);
-  const directAskScore = countSignals(text, LEAD_DIRECT_ASK_SIGNALS);
-  const businessContextScore = countSignals(text, LEAD_COMMERCIAL_SIGNALS);
+  const leadIntentScore = countSignals(text, rules.leadIntentSignals);
+  const directAskScore = countSignals(text, rules.leadDirectAskSignals);
+  const businessContextScore = countSignals(text, rules.leadCommercialSignals);
 
-  const fromExpertNetwork = domainInList(senderDomain, EXPERT_NETWORK_DOMAINS);
+  const fromExpertNetwork = domainInList(senderDomain, rules.expertNetworkDomains);
   const looksAutomated =
-    includesAny(senderLocal, AUTOMATED_SENDER_SIGNALS) ||
-    includesAny(text, AUTOMATED_TEXT_SIGNALS);
-  const looksBroadcastSender = includesAny(senderLocal, BROADCAST_SENDER_HINTS);
-  const looksHiring = includesAny(text, HIRING_SIGNALS);
-  const fromVendorSystem = domainInList(senderDomain, VENDOR_SYSTEM_DOMAINS);
+    includesAny(senderLocal, rules.automatedSenderSignals) ||
+    includesAny(buildAutomationText(message), rules.automatedTextSignals);
+  const looksBroadcastSender = includesAny(senderLocal, rules.broadcastSenderHints);
+  const looksHiring = includesAny(text, rules.hiringSignals);
+  const fromVendorSystem = domainInList(senderDomain, rules.vendorSystemDomains);
 
   if (looksAutomated || looksHiring) {
     return { matched: false, reasons };
@@ -577,7 +329,10 @@ function detectExplicitBusinessLead(message: PollMessage): { matched: boolean; r
   return { matched: false, reasons };
 }
 
-function detectHardIgnore(message: PollMessage): { matched: boolean; reasons: string[] } {
+function detectHardIgnore(
+  message: PollMessage,
+  rules: ClassifierRules,
+): { matched: boolean; reasons: string[] } {
   const text = buildInboundText(message);
   const senderEmail = extractEmailAddress(message.from);
   const senderDomain = extractEmailDomain(senderEmail);
@@ -585,18 +340,23 @@ function detectHardIgnore(message: PollMessage): { matched: boolean; reasons: st
   const reasons: string[] = [];
   const gmailLabels = extractGmailLabels(message);
 
-  const lead = detectExplicitBusinessLead(message);
+  const lead = detectExplicitBusinessLead(message, rules);
   if (lead.matched) {
     return { matched: false, reasons };
   }
 
+  const automationText = buildAutomationText(message);
   const automatedScore =
-    countSignals(text, AUTOMATED_TEXT_SIGNALS) + countSignals(text, NEWSLETTER_DIGEST_SIGNALS);
+    countSignals(automationText, rules.automatedTextSignals) +
+    countSignals(automationText, rules.newsletterDigestSignals);
   const looksAutomatedSender =
-    includesAny(senderLocal, AUTOMATED_SENDER_SIGNALS) || domainInList(senderDomain, VENDOR_SYSTEM_DOMAINS);
-  const looksBroadcastSender = includesAny(senderLocal, BROADCAST_SENDER_HINTS);
-  const hasPromotionalCategory = gmailLabels.some((label) => GMAIL_PROMOTIONAL_LABELS.includes(label));
-  const looksHiring = includesAny(text, HIRING_SIGNALS);
+    includesAny(senderLocal, rules.automatedSenderSignals) ||
+    domainInList(senderDomain, rules.vendorSystemDomains);
+  const looksBroadcastSender = includesAny(senderLocal, rules.broadcastSenderHints);
+  const hasPromotionalCategory = gmailLabels.some((label) =>
+    rules.gmailPromotionalLabels.includes(label),
+  );
+  const looksHiring = includesAny(text, rules.hiringSignals);
 
   if (looksHiring) {
     reasons.push("hard-ignore-hiring-spam");
@@ -646,6 +406,9 @@ function extractSopGuidance(sop: SopSnapshot | undefined, maxChars = 4_000): str
       continue;
     }
     const heading = typeof section.heading === "string" ? section.heading.trim() : "";
+    if (isSopRulesHeading(heading)) {
+      continue;
+    }
     if (heading) {
       chunks.push(`# ${heading}`);
     }
@@ -691,7 +454,7 @@ function extractClassificationPolicy(sop: SopSnapshot | undefined, maxChars = 2_
       headingLower.includes("qualif") ||
       headingLower.includes("inbound") ||
       headingLower.includes("routing");
-    if (!relevantHeading) {
+    if (!relevantHeading || isSopRulesHeading(heading)) {
       continue;
     }
     if (heading) {
@@ -792,20 +555,25 @@ async function callOpenAIJson(args: {
   systemPrompt: string;
   userPrompt: string;
 }): Promise<Record<string, unknown> | undefined> {
-  const response = await fetch("https://api.openai.com/v1/responses", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${args.apiKey}`,
-      "Content-Type": "application/json; charset=utf-8",
+  const response = await fetchWithRetry(
+    "openai",
+    args.model,
+    "https://api.openai.com/v1/responses",
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${args.apiKey}`,
+        "Content-Type": "application/json; charset=utf-8",
+      },
+      body: JSON.stringify({
+        model: args.model,
+        input: [
+          { role: "system", content: [{ type: "input_text", text: args.systemPrompt }] },
+          { role: "user", content: [{ type: "input_text", text: args.userPrompt }] },
+        ],
+      }),
     },
-    body: JSON.stringify({
-      model: args.model,
-      input: [
-        { role: "system", content: [{ type: "input_text", text: args.systemPrompt }] },
-        { role: "user", content: [{ type: "input_text", text: args.userPrompt }] },
-      ],
-    }),
-  });
+  );
 
   const text = await response.text();
   if (!response.ok) {
@@ -821,36 +589,211 @@ async function callOpenAIJson(args: {
   return parseFirstJsonObject(llmText);
 }
 
-function classifyInboundHeuristic(message: PollMessage): ClassificationResult {
+function isAcknowledgement(message: PollMessage, rules: ClassifierRules): boolean {
+  const body = (message.body_text || message.snippet || "").replace(/\s+/g, " ").trim();
+  const leadSignals = [...rules.leadIntentSignals, ...rules.leadDirectAskSignals];
+  return (
+    body.length > 0 &&
+    body.length <= 160 &&
+    !body.includes("?") &&
+    ACKNOWLEDGEMENT_PATTERN.test(body) &&
+    countSignals(body.toLowerCase(), leadSignals) === 0
+  );
+}
+
+function toThreadActivity(row: Record<string, unknown>): ThreadActivity | undefined {
+  const id = getString(row, ["id"]);
+  const sourceKey = getString(row, ["source_key"]);
+  if (!id || !sourceKey) {
+    return undefined;
+  }
+  const drafts = Array.isArray(row.crm_drafts) ? row.crm_drafts : [];
+  return {
+    id,
+    source_key: sourceKey,
+    from_email: getString(row, ["from_email"]),
+    subject: getString(row, ["subject"]),
+    snippet: getString(row, ["snippet"]),
+    received_at: getString(row, ["received_at"]),
+    classification: getString(row, ["classification"]) ?? "ignore",
+    contact_id: getString(row, ["contact_id"]),
+    reclassified_at: getString(row, ["reclassified_at"]),
+    drafts: drafts
+      .map((draft) => getRecord(draft))
+      .filter((draft): draft is Record<string, unknown> => Boolean(draft))
+      .map((draft) => ({
+        id: getString(draft, ["id"]) ?? "",
+        status: getString(draft, ["status"]) ?? "draft",
+      }))
+      .filter((draft) => Boolean(draft.id)),
+  };
+}
+
+async function loadThreadContext(
+  settings: ProcessInboundSettings,
+  message: PollMessage,
+): Promise<ThreadContext> {
+  const query = new URLSearchParams();
+  query.set(
+    "select",
+    `id,source_key,from_email,subject,snippet,received_at,classification,contact_id,reclassified_at,crm_drafts:${settings.tables.drafts}(id,status)`,
+  );
+  query.set("account_email", `eq.${message.account_email}`);
+  if (message.thread_id) {
+    query.set("thread_id", `eq.${message.thread_id}`);
+  } else {
+    query.set("source_key", `eq.${message.source_key}`);
+  }
+  query.set("order", "received_at.asc");
+  query.set("limit", "50");
+
+  const activities = (await settings.storage.select(settings.tables.activities, query))
+    .map((row) => toThreadActivity(row))
+    .filter((row): row is ThreadActivity => Boolean(row));
+  const sales = activities.filter(
+    (activity) =>
+      activity.source_key !== message.source_key &&
+      activity.classification === "sales" &&
+      (activity.drafts.length === 0 || activity.drafts.some((draft) => draft.status !== "rejected")),
+  );
+
+  let draft: ThreadContext["draft"];
+  for (const activity of activities) {
+    for (const entry of activity.drafts) {
+      if (entry.status !== "rejected") {
+        draft = { ...entry, activity_id: activity.id };
+      }
+    }
+  }
+
+  const messageTs = message.received_at
+    ? Date.parse(message.received_at)
+    : (message.internal_ts ?? Number.NaN);
+  return {
+    own: activities.find((activity) => activity.source_key === message.source_key),
+    history: activities.filter(
+      (activity) =>
+        activity.source_key !== message.source_key &&
+        !(activity.received_at && Date.parse(activity.received_at) > messageTs),
+    ),
+    openSales: sales.length > 0,
+    contactId: sales.map((activity) => activity.contact_id).filter(Boolean).pop(),
+    draft,
+  };
+}
+
+function applyThreadContext(
+  message: PollMessage,
+  thread: ThreadContext,
+  classification: ClassificationResult,
+  rules: ClassifierRules,
+): ClassificationResult {
+  if (!thread.openSales || !["sales", "support", "ignore"].includes(classification.label)) {
+    return classification;
+  }
+  if (classification.label === "sales" && thread.history.length === 0) {
+    return classification;
+  }
+  if (detectHardIgnore(message, rules).matched) {
+    return classification;
+  }
+
+  const threadReasons = ["thread-open-sales"];
+  if (thread.history.length > 0) {
+    threadReasons.push(
+      isAcknowledgement(message, rules) ? "thread-acknowledgement" : "thread-follow-up",
+    );
+  }
+  return {
+    label: "sales",
+    confidence:
+      classification.label === "sales"
+        ? classification.confidence
+        : Math.max(0.8, classification.confidence),
+    reasons: Array.from(new Set([...threadReasons, ...classification.reasons])).slice(0, 4),
+  };
+}
+
+function applyMailboxProfile(
+  profile: MailboxProfile,
+  classification: ClassificationResult,
+): ClassificationResult {
+  if (
+    !profile.classifications ||
+    classification.label === "ignore" ||
+    profile.classifications.includes(classification.label)
+  ) {
+    return classification;
+  }
+  return {
+    label: "ignore",
+    confidence: classification.confidence,
+    reasons: [`profile-disabled-${classification.label}`, ...classification.reasons].slice(0, 4),
+  };
+}
+
+function manualClassification(
+  thread: ThreadContext,
+  taxonomy: ClassificationLabel[],
+): ClassificationResult | undefined {
+  const label = thread.own?.classification;
+  if (!thread.own?.reclassified_at || !label || !labelNames(taxonomy).includes(label)) {
+    return undefined;
+  }
+  return { label, confidence: 1, reasons: ["manual-reclassify"] };
+}
+
+function linkedThreadDraft(
+  thread: ThreadContext,
+  classification: ClassificationResult,
+  drafting: boolean,
+): ThreadContext["draft"] | undefined {
+  if (!drafting) {
+    return undefined;
+  }
+  const own = thread.own?.drafts.find((entry) => entry.status !== "rejected");
+  if (own && thread.own) {
+    return { ...own, activity_id: thread.own.id };
+  }
+  const draft = thread.draft;
+  if (!draft) {
+    return undefined;
+  }
+  if (classification.reasons.includes("thread-acknowledgement")) {
+    return draft;
+  }
+  return OPEN_DRAFT_STATUSES.includes(draft.status) ? draft : undefined;
+}
+
+function classifyInboundHeuristic(
+  message: PollMessage,
+  rules: ClassifierRules,
+  taxonomy: ClassificationLabel[],
+): ClassificationResult {
   const text = buildInboundText(message);
   const reasons: string[] = [];
-  const hardIgnore = detectHardIgnore(message);
+  const hardIgnore = detectHardIgnore(message, rules);
   if (hardIgnore.matched) {
     return { label: "ignore", confidence: 0.96, reasons: hardIgnore.reasons.slice(0, 4) };
   }
 
   const senderEmail = extractEmailAddress(message.from);
   const senderDomain = extractEmailDomain(senderEmail);
-  const lead = detectExplicitBusinessLead(message);
+  const lead = detectExplicitBusinessLead(message, rules);
   if (lead.matched) {
     reasons.push(...lead.reasons, "matched-explicit-business-lead");
     return { label: "sales", confidence: 0.94, reasons: Array.from(new Set(reasons)).slice(0, 4) };
   }
 
   const senderLocal = senderEmail?.split("@")[0]?.trim().toLowerCase() || "";
+  const automationText = buildAutomationText(message);
   const looksAutomated =
-    includesAny(senderLocal, AUTOMATED_SENDER_SIGNALS) ||
-    includesAny(text, AUTOMATED_TEXT_SIGNALS) ||
-    includesAny(text, AUTOMATED_SENDER_SIGNALS);
-  const looksHiring = includesAny(text, HIRING_SIGNALS);
-  const fromJobNetwork = domainInList(senderDomain, [
-    "linkedin.com",
-    "indeed.com",
-    "glassdoor.com",
-    "ziprecruiter.com",
-    "monster.com",
-  ]);
-  const fromVendorSystem = domainInList(senderDomain, VENDOR_SYSTEM_DOMAINS);
+    includesAny(senderLocal, rules.automatedSenderSignals) ||
+    includesAny(automationText, rules.automatedTextSignals) ||
+    includesAny(automationText, rules.automatedSenderSignals);
+  const looksHiring = includesAny(text, rules.hiringSignals);
+  const fromJobNetwork = domainInList(senderDomain, rules.jobNetworkDomains);
+  const fromVendorSystem = domainInList(senderDomain, rules.vendorSystemDomains);
   const likelyNonHumanSender = looksAutomated || fromJobNetwork || fromVendorSystem;
 
   if (likelyNonHumanSender || looksHiring) {
@@ -858,10 +801,23 @@ function classifyInboundHeuristic(message: PollMessage): ClassificationResult {
     return { label: "ignore", confidence: 0.94, reasons };
   }
 
-  const receiptScore = countSignals(text, RECEIPT_SIGNALS);
-  const salesScore = countSignals(text, LEAD_INTENT_SIGNALS) + countSignals(text, LEAD_DIRECT_ASK_SIGNALS);
-  const supportScore = countSignals(text, SUPPORT_SIGNALS);
-  const ignoreScore = countSignals(text, AUTOMATED_TEXT_SIGNALS);
+  const custom = taxonomy
+    .map((label) => ({ name: label.name, score: countSignals(text, label.signals) }))
+    .sort((left, right) => right.score - left.score)[0];
+  if (custom && custom.score > 0) {
+    reasons.push(`matched-${custom.name}-signals`);
+    return {
+      label: custom.name,
+      confidence: Math.min(0.6 + custom.score * 0.08, 0.92),
+      reasons,
+    };
+  }
+
+  const receiptScore = countSignals(text, rules.receiptSignals);
+  const salesScore =
+    countSignals(text, rules.leadIntentSignals) + countSignals(text, rules.leadDirectAskSignals);
+  const supportScore = countSignals(text, rules.supportSignals);
+  const ignoreScore = countSignals(automationText, rules.automatedTextSignals);
 
   if (receiptScore > 0 && receiptScore >= salesScore) {
     reasons.push("matched-receipt-signals");
@@ -887,13 +843,17 @@ function classifyInboundHeuristic(message: PollMessage): ClassificationResult {
   return { label: "ignore", confidence: 0.52, reasons };
 }
 
-async function classifyInbound(args: {
+export async function classifyInbound(args: {
   message: PollMessage;
+  thread?: ThreadContext;
+  examples?: FeedbackExample[];
   apiKey?: string;
   model: string;
   sop?: SopSnapshot;
+  rules: ClassifierRules;
+  taxonomy: ClassificationLabel[];
 }): Promise<ClassificationResult> {
-  const deterministicLead = detectExplicitBusinessLead(args.message);
+  const deterministicLead = detectExplicitBusinessLead(args.message, args.rules);
   if (deterministicLead.matched) {
     return {
       label: "sales",
@@ -905,7 +865,7 @@ async function classifyInbound(args: {
     };
   }
 
-  const hardIgnore = detectHardIgnore(args.message);
+  const hardIgnore = detectHardIgnore(args.message, args.rules);
   if (hardIgnore.matched) {
     return {
       label: "ignore",
@@ -915,24 +875,27 @@ async function classifyInbound(args: {
   }
 
   if (!args.apiKey) {
-    return classifyInboundHeuristic(args.message);
+    return classifyInboundHeuristic(args.message, args.rules, args.taxonomy);
   }
 
   try {
     const classificationPolicy = extractClassificationPolicy(args.sop);
+    const names = labelNames(args.taxonomy);
     const systemPrompt = [
       "You classify inbound email for a business owner.",
-      'Return strict JSON only: {"label":"receipt|sales|support|ignore","confidence":number,"reasons":[string]}',
+      `Return strict JSON only: {"label":"${names.join("|")}","confidence":number,"reasons":[string]}`,
       "Rules:",
-      "- sales: inbound person asking for consulting, sponsorship, advisory, project inquiry, partnership, expert network opportunity, affiliate/creator collaboration, or a paid expert consultation.",
-      "- receipt: billing, invoice, payment confirmation.",
-      "- support: user issue/help request.",
-      "- ignore: newsletters, job alerts, vendor/system updates, social updates, hiring spam.",
+      ...args.taxonomy.map((label) => `- ${label.name}: ${label.description}`),
+      args.taxonomy.some((label) => !label.builtin)
+        ? "- Prefer a deployment-specific label over support or ignore when its description fits the message."
+        : "",
       "- Treat expert-network outreach (for example AlphaSights/Guidepoint/GLG/Third Bridge style requests) as sales when it asks for expertise/call/payment.",
       "- Treat creator partnership/sponsorship outreach as sales when sender asks for call/brief/interest.",
       "- Do not require the exact word 'consulting' if business intent is clear.",
       "- If uncertain between sales and ignore, prefer sales only when sender appears human and there is explicit business ask.",
       "- If message looks like newsletter/digest/blast (for example includes view-in-browser, unsubscribe/manage-preferences, top-stories roundup, or promotional Gmail categories), classify as ignore even with CTA links.",
+      "- thread_history lists earlier messages of the same conversation, oldest first. Classify the new message in that context: a reply in a sales conversation is still sales unless it is clearly automated.",
+      "- labeled_examples are similar past messages whose label a person confirmed or corrected. Follow them when the new message is of the same kind; predicted_label shows what was wrong before.",
       classificationPolicy ? `Notion SOP classification policy:\n${classificationPolicy}` : "",
     ].join("\n");
 
@@ -941,9 +904,29 @@ async function classifyInbound(args: {
         mailbox: args.message.account_email,
         from: args.message.from,
         subject: args.message.subject,
-        snippet: args.message.snippet,
+        snippet: args.message.body_text ? undefined : args.message.snippet,
         body_text: args.message.body_text,
         gmail_labels: extractGmailLabels(args.message),
+        attachments: (args.message.attachments ?? []).map((attachment) => ({
+          filename: attachment.filename,
+          mime_type: attachment.mime_type,
+          text: clampText(attachment.text, 1_500),
+        })),
+        thread_history: (args.thread?.history ?? []).slice(-5).map((activity) => ({
+          from: activity.from_email,
+          subject: activity.subject,
+          snippet: clampText(activity.snippet, 400),
+          classification: activity.classification,
+          received_at: activity.received_at,
+        })),
+        labeled_examples: (args.examples ?? []).map((example) => ({
+          from: example.from_email,
+          subject: example.subject,
+          snippet: clampText(example.snippet, 400),
+          label: example.label,
+          predicted_label: example.predicted_label,
+          note: example.reason,
+        })),
       },
       null,
       2,
@@ -956,16 +939,10 @@ async function classifyInbound(args: {
       userPrompt,
     });
     const labelRaw = typeof parsed?.label === "string" ? parsed.label.toLowerCase().trim() : "";
-    const normalizedLabel = labelRaw.replace(/[^a-z]/g, "");
-    const label =
-      normalizedLabel === "receipt" ||
-        normalizedLabel === "sales" ||
-        normalizedLabel === "support" ||
-        normalizedLabel === "ignore"
-        ? normalizedLabel
-        : undefined;
+    const normalizedLabel = labelRaw.replace(/[^a-z0-9_]/g, "");
+    const label = names.includes(normalizedLabel) ? normalizedLabel : undefined;
     if (!label) {
-      return classifyInboundHeuristic(args.message);
+      return classifyInboundHeuristic(args.message, args.rules, args.taxonomy);
     }
 
     const confidenceRaw = parsed?.confidence;
@@ -978,13 +955,19 @@ async function classifyInbound(args: {
       ? reasonsRaw.filter((item): item is string => typeof item === "string").slice(0, 4)
       : [];
 
-    if (label === "sales") {
+    const draftLabel = args.taxonomy.find(
+      (entry) => entry.name === label && entry.policy === "draft",
+    );
+    if (
+      draftLabel &&
+      (draftLabel.builtin || countSignals(buildInboundText(args.message), draftLabel.signals) === 0)
+    ) {
       return {
         label: "ignore",
         confidence: Math.max(0.9, confidence),
         reasons: Array.from(
           new Set([
-            "blocked-model-sales-without-explicit-lead",
+            `blocked-model-${label}-without-explicit-lead`,
             `llm-model:${args.model}`,
             ...reasons,
           ]),
@@ -992,7 +975,7 @@ async function classifyInbound(args: {
       };
     }
 
-    const postHardIgnore = detectHardIgnore(args.message);
+    const postHardIgnore = detectHardIgnore(args.message, args.rules);
     if (postHardIgnore.matched) {
       return {
         label: "ignore",
@@ -1008,7 +991,7 @@ async function classifyInbound(args: {
       };
     }
     if (label !== "sales") {
-      const leadOverride = detectExplicitBusinessLead(args.message);
+      const leadOverride = detectExplicitBusinessLead(args.message, args.rules);
       if (leadOverride.matched) {
         return {
           label: "sales",
@@ -1033,11 +1016,11 @@ async function classifyInbound(args: {
       reasons: taggedReasons,
     };
   } catch {
-    return classifyInboundHeuristic(args.message);
+    return classifyInboundHeuristic(args.message, args.rules, args.taxonomy);
   }
 }
 
-function pickSopCues(sop: SopSnapshot | undefined): string[] {
+export function pickSopCues(sop: SopSnapshot | undefined): string[] {
   const lines: string[] = [];
 
   const sections = sop?.sop?.sections;
@@ -1047,6 +1030,9 @@ function pickSopCues(sop: SopSnapshot | undefined): string[] {
         continue;
       }
       const heading = typeof section.heading === "string" ? section.heading.trim() : "";
+      if (isSopRulesHeading(heading)) {
+        continue;
+      }
       if (heading) {
         lines.push(heading);
       }
@@ -1103,6 +1089,7 @@ function buildSalesDraftFallback(args: {
   subject?: string;
   snippet?: string;
   sopCues: string[];
+  signature?: string;
 }): { subject: string; body: string } {
   const firstName = firstNameFromDisplay(args.senderDisplayName);
   const intentSnippet = args.snippet?.trim() || "Thanks for reaching out.";
@@ -1124,8 +1111,7 @@ function buildSalesDraftFallback(args: {
     "",
     "Once we have those details, I can send a concrete recommendation and next steps.",
     "",
-    "Best,",
-    "[Your Business Name]",
+    args.signature ?? "Best,\n[Your Business Name]",
   ].join("\n");
 
   return { subject, body };
@@ -1141,6 +1127,7 @@ async function buildSalesDraft(args: {
   mailbox: string;
   sop: SopSnapshot | undefined;
   sopCues: string[];
+  signature?: string;
 }): Promise<{ subject: string; body: string }> {
   if (!args.apiKey) {
     return buildSalesDraftFallback(args);
@@ -1154,6 +1141,7 @@ async function buildSalesDraft(args: {
       'Return strict JSON only: {"subject":string,"body":string}.',
       "Keep it concise, clear, and professional.",
       "Do not invent facts.",
+      "If a signature is given, end the body with it verbatim instead of your own sign-off.",
     ].join("\n");
 
     const userPrompt = JSON.stringify(
@@ -1165,6 +1153,7 @@ async function buildSalesDraft(args: {
         inbound_message: args.snippet,
         sop_guidance: sopGuidance,
         sop_cues: args.sopCues,
+        ...(args.signature ? { signature: args.signature } : {}),
       },
       null,
       2,
@@ -1180,7 +1169,13 @@ async function buildSalesDraft(args: {
     const subject = getString(parsed ?? {}, ["subject"]);
     const body = getString(parsed ?? {}, ["body"]);
     if (subject && body) {
-      return { subject, body };
+      return {
+        subject,
+        body:
+          args.signature && !body.includes(args.signature)
+            ? `${body.trimEnd()}\n\n${args.signature}`
+            : body,
+      };
     }
   } catch { }
 
@@ -1195,7 +1190,7 @@ function parseReceiptInfo(message: PollMessage): {
 } {
   const fromEmail = extractEmailAddress(message.from);
   const vendor = fromEmail?.split("@")[0] || extractDisplayName(message.from);
-  const text = `${message.subject ?? ""} ${message.snippet ?? ""} ${message.body_text ?? ""}`;
+  const text = `${message.subject ?? ""} ${message.body_text || message.snippet || ""} ${attachmentText(message)}`;
 
   let amount: number | undefined;
   let currency: string | undefined;
@@ -1295,194 +1290,529 @@ function buildDraftSlackMessage(args: {
   return { text, blocks };
 }
 
-async function ensureGmailLabel(account: string, labelName: string): Promise<void> {
-  const cacheKey = `${account}:${labelName.toLowerCase()}`;
-  if (ensuredLabelCache.has(cacheKey)) {
-    return;
-  }
+function buildLabelSlackMessage(args: {
+  label: string;
+  accountEmail: string;
+  from?: string;
+  subject?: string;
+  receivedAt?: string;
+  inboundMessage?: string;
+}): SlackMessage {
+  const when = formatSlackWhen(args.receivedAt);
+  const inboundMessage = (args.inboundMessage || "").trim() || "(no message snippet)";
+  const from = args.from || "unknown";
+  const subject = args.subject || "(no subject)";
 
-  try {
-    await execFileAsync(
-      "gog",
-      ["gmail", "labels", "get", labelName, "--account", account, "--json", "--no-input"],
-      {
-        maxBuffer: 4 * 1024 * 1024,
-      },
-    );
-    ensuredLabelCache.add(cacheKey);
-    return;
-  } catch { }
+  const text = [
+    `CRM inbound ${args.label}`,
+    `Mailbox: ${args.accountEmail}`,
+    `From: ${from}`,
+    `Subject: ${subject}`,
+    `When: ${when}`,
+    "",
+    "Message received:",
+    inboundMessage,
+  ].join("\n");
 
-  await execFileAsync(
-    "gog",
-    ["gmail", "labels", "create", labelName, "--account", account, "--json", "--no-input"],
+  const blocks: SlackBlock[] = [
     {
-      maxBuffer: 4 * 1024 * 1024,
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: `CRM Inbound: ${args.label}`,
+      },
     },
-  );
-  ensuredLabelCache.add(cacheKey);
+    {
+      type: "section",
+      fields: [
+        { type: "mrkdwn", text: `*Mailbox:*\n${args.accountEmail}` },
+        { type: "mrkdwn", text: `*From:*\n${from}` },
+        { type: "mrkdwn", text: `*When:*\n${when}` },
+        { type: "mrkdwn", text: `*Subject:*\n${subject}` },
+      ],
+    },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*Message Received*\n${inboundMessage}`,
+      },
+    },
+  ];
+
+  return { text, blocks };
 }
 
-async function applyLeadLabel(args: {
-  account: string;
-  threadId?: string;
-  labelName: string;
-}): Promise<{ applied: boolean; error?: string }> {
-  if (!args.threadId) {
-    return { applied: false, error: "missing-thread-id-for-label" };
-  }
+export function buildLabelNotification(
+  label: string,
+  message: PollMessage,
+  profile: MailboxProfile,
+): SlackMessage {
+  return {
+    ...buildLabelSlackMessage({
+      label,
+      accountEmail: message.account_email,
+      from: message.from,
+      subject: message.subject,
+      receivedAt: message.received_at,
+      inboundMessage: summarizeInboundMessage(message),
+    }),
+    ...(profile.slackChannel ? { channel: profile.slackChannel } : {}),
+  };
+}
+
+function createLeadLabeler(mail: MailProvider): LeadLabeler {
+  return async (args) => {
+    if (!args.threadId) {
+      return { applied: false, error: "missing-thread-id-for-label" };
+    }
 
+    try {
+      if (args.remove) {
+        await mail.unlabelThread(args.account, args.threadId, [args.labelName]);
+      } else {
+        await mail.labelThread(args.account, args.threadId, [args.labelName]);
+      }
+      return { applied: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown-gmail-label-error";
+      return { applied: false, error: message };
+    }
+  };
+}
+
+export async function loadSopSnapshot(sopFile: string): Promise<SopSnapshot | undefined> {
   try {
-    await ensureGmailLabel(args.account, args.labelName);
-    await execFileAsync(
-      "gog",
-      [
-        "gmail",
-        "labels",
-        "modify",
-        args.threadId,
-        "--add",
-        args.labelName,
-        "--account",
-        args.account,
-        "--json",
-        "--no-input",
-      ],
-      {
-        maxBuffer: 4 * 1024 * 1024,
-      },
-    );
-    return { applied: true };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "unknown-gmail-label-error";
-    return { applied: false, error: message };
+    return await readJsonFile<SopSnapshot>(sopFile);
+  } catch {
+    return undefined;
   }
 }
 
-async function maybePostSlack(message: SlackMessage): Promise<{ posted: boolean; error?: string }> {
-  const token = clean(process.env.SLACK_BOT_TOKEN);
-  const channel =
-    clean(process.env.CRM_SLACK_CHANNEL_ID) ||
-    clean(process.env.SLACK_CHANNEL_ID) ||
-    clean(process.env.CRM_SLACK_CHANNEL);
+export type ProcessInboundSettings = {
+  storage: StorageClient;
+  slack: SlackClient;
+  applyLabel: LeadLabeler;
+  dryRunPlan?: DryRunPlan;
+  tables: {
+    contacts: string;
+    activities: string;
+    drafts: string;
+    accounting: string;
+    jobRuns: string;
+    pollState: string;
+    deadLetters: string;
+    feedback: string;
+  };
+  openAIApiKey?: string;
+  classifierModel: string;
+  replyModel: string;
+  useModelClassification: boolean;
+  useModelReplyWriter: boolean;
+  feedbackExamples: number;
+  feedbackLookbackDays: number;
+  applyLeadLabels: boolean;
+  leadLabelName: string;
+  profiles?: Record<string, MailboxProfile>;
+  rulesFile?: string;
+  taxonomy: ClassificationLabel[];
+};
 
-  if (!token || !channel) {
-    return { posted: false, error: "CRM_SLACK_CHANNEL_ID or SLACK_BOT_TOKEN missing" };
-  }
+export function resolveProcessInboundSettings(
+  config: CrmConfig,
+  options: { dryRun?: boolean } = {},
+): ProcessInboundSettings {
+  const dryRunPlan = options.dryRun ? createDryRunPlan() : undefined;
 
-  const response = await fetch("https://slack.com/api/chat.postMessage", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json; charset=utf-8",
+  return {
+    storage: dryRunPlan
+      ? createRecordingStorageClient(dryRunPlan, createStorageClientFromConfig(config))
+      : createStorageClientFromConfig(config),
+    slack: dryRunPlan
+      ? createRecordingSlackClient(dryRunPlan)
+      : createSlackClientFromConfig(config),
+    applyLabel: dryRunPlan
+      ? async (args) => {
+          dryRunPlan.label_changes.push({
+            account_email: args.account,
+            thread_id: args.threadId,
+            add_labels: args.remove ? [] : [args.labelName],
+            remove_labels: args.remove ? [args.labelName] : [],
+          });
+          return args.threadId
+            ? { applied: true }
+            : { applied: false, error: "missing-thread-id-for-label" };
+        }
+      : createLeadLabeler(createMailProviderFromConfig(config)),
+    dryRunPlan,
+    tables: {
+      contacts: config.contactsTable,
+      activities: config.activitiesTable,
+      drafts: config.draftsTable,
+      accounting: config.accountingTable,
+      jobRuns: config.jobRunsTable,
+      pollState: config.pollStateTable,
+      deadLetters: config.deadLettersTable,
+      feedback: config.feedbackTable,
     },
-    body: JSON.stringify({
-      channel,
-      text: message.text,
-      ...(Array.isArray(message.blocks) && message.blocks.length > 0
-        ? { blocks: message.blocks }
-        : {}),
-      unfurl_links: false,
-      unfurl_media: false,
+    openAIApiKey: config.openaiApiKey,
+    classifierModel: config.classifierModel,
+    replyModel: config.replyModel,
+    useModelClassification: config.useModelClassifier,
+    useModelReplyWriter: config.useModelReplyWriter,
+    feedbackExamples: config.feedbackExamples,
+    feedbackLookbackDays: config.feedbackLookbackDays,
+    applyLeadLabels: config.gmailLabelApply,
+    leadLabelName: config.gmailLeadLabel,
+    profiles: config.mailboxProfiles,
+    rulesFile: config.rulesFile,
+    taxonomy: buildTaxonomy(config.classificationLabels),
+  };
+}
+
+export async function createSalesDraft(
+  settings: ProcessInboundSettings,
+  args: {
+    activityId: string;
+    message: PollMessage;
+    receivedAt?: string;
+    sop: SopSnapshot | undefined;
+    sopCues: string[];
+    profile: MailboxProfile;
+  },
+): Promise<{ draftId: string; toEmail: string; slackMessage: SlackMessage } | undefined> {
+  const { activityId, message, sop, profile } = args;
+  const { storage, tables } = settings;
+  const existingQuery = new URLSearchParams();
+  existingQuery.set("select", "id,status");
+  existingQuery.set("activity_id", `eq.${activityId}`);
+  existingQuery.set("status", "in.(sending,sent)");
+  if ((await storage.select(tables.drafts, existingQuery)).length > 0) {
+    return undefined;
+  }
+
+  const senderEmail = extractEmailAddress(message.from);
+  const inboundMessage = summarizeInboundMessage(message);
+  const draft = await buildSalesDraft({
+    apiKey: settings.useModelReplyWriter ? settings.openAIApiKey : undefined,
+    model: settings.replyModel,
+    senderDisplayName: extractDisplayName(message.from),
+    senderEmail,
+    subject: message.subject,
+    snippet: inboundMessage,
+    mailbox: message.account_email,
+    sop,
+    sopCues: args.sopCues,
+    signature: profile.replySignature,
+  });
+
+  const toEmail = senderEmail || "unknown@example.com";
+  const draftRow = await storage.upsertRow(tables.drafts, "activity_id", {
+    activity_id: activityId,
+    account_email: message.account_email,
+    to_email: toEmail,
+    subject: draft.subject,
+    body: draft.body,
+    status: "draft",
+    approval_commands: "Handle approval/revisions in Slack thread",
+    reply_to_message_id: message.message_id,
+    sop_hash: sop?.sop?.hash,
+    updated_at: new Date().toISOString(),
+  });
+
+  const draftId = typeof draftRow.id === "string" ? draftRow.id : undefined;
+  if (!draftId) {
+    throw new Error(`Missing draft id after upsert for activity_id=${activityId}`);
+  }
+  const slackMessage: SlackMessage = {
+    ...buildDraftSlackMessage({
+      accountEmail: message.account_email,
+      subject: draft.subject,
+      receivedAt: args.receivedAt,
+      inboundMessage,
+      suggestedResponse: draft.body,
     }),
+    ...(profile.slackChannel ? { channel: profile.slackChannel } : {}),
+  };
+
+  await storage.patchRows(tables.drafts, { id: draftId }, {
+    slack_summary: slackMessage.text,
+    updated_at: new Date().toISOString(),
   });
+  return { draftId, toEmail, slackMessage };
+}
 
-  const data = (await response.json()) as Record<string, unknown>;
-  if (response.ok && data.ok === true) {
-    return { posted: true };
-  }
+export async function recordAccountingEntry(
+  settings: ProcessInboundSettings,
+  message: PollMessage,
+  activityId: string,
+): Promise<ProcessResult["accounting_entries"][number]> {
+  const parsed = parseReceiptInfo(message);
+
+  await settings.storage.upsertRow(settings.tables.accounting, "source_key", {
+    source_key: message.source_key,
+    activity_id: activityId,
+    account_email: message.account_email,
+    vendor: parsed.vendor,
+    amount: parsed.amount,
+    currency: parsed.currency,
+    receipt_date: parsed.receipt_date,
+    subject: message.subject,
+    snippet: summarizeInboundMessage(message),
+    attachments: message.attachments ?? [],
+    payload: message.raw ?? {},
+    updated_at: new Date().toISOString(),
+  });
 
-  const error = typeof data.error === "string" ? data.error : `slack-error-${response.status}`;
-  return { posted: false, error };
+  return {
+    activity_id: activityId,
+    source_key: message.source_key,
+    vendor: parsed.vendor,
+    amount: parsed.amount,
+    currency: parsed.currency,
+  };
 }
 
-async function loadSopSnapshot(pathOverride?: string): Promise<SopSnapshot | undefined> {
-  const sopFile = pathOverride || clean(process.env.CRM_SOP_CACHE_FILE) || DEFAULT_SOP_CACHE_FILE;
-  try {
-    return await readJsonFile<SopSnapshot>(sopFile);
-  } catch {
-    return undefined;
-  }
+async function recordDeadLetter(
+  settings: ProcessInboundSettings,
+  entry: { runId: string; message: PollMessage; stage: MessageStage; error: string },
+): Promise<void> {
+  await settings.storage.upsertRow(settings.tables.deadLetters, "source_key", {
+    source_key: entry.message.source_key,
+    run_id: entry.runId,
+    account_email: entry.message.account_email,
+    message_id: entry.message.message_id,
+    stage: entry.stage,
+    error: entry.error,
+    payload: entry.message,
+    status: "pending",
+    updated_at: new Date().toISOString(),
+  });
 }
 
-async function main() {
-  const { command, flags } = parseArgs(process.argv);
-  if (command !== "process_inbound") {
-    console.error(
-      "Usage: bun process-inbound.ts process_inbound --poll-file <path> [--sop-file <path>] [--output <path>]",
+async function processMessage(message: PollMessage, context: MessageContext): Promise<void> {
+  const { settings, sop, sopCues, rules, result, maxTsByAccount, feedback } = context;
+  const { storage, slack, openAIApiKey, classifierModel } = settings;
+  const { useModelClassification, applyLeadLabels, leadLabelName } = settings;
+  const {
+    contacts: contactsTable,
+    activities: activitiesTable,
+    drafts: draftsTable,
+  } = settings.tables;
+
+  context.stage = "classify";
+  const profile = mailboxProfile(settings.profiles, message.account_email);
+  const thread = await loadThreadContext(settings, message);
+  const classification =
+    manualClassification(thread, settings.taxonomy) ??
+    applyMailboxProfile(
+      profile,
+      applyThreadContext(
+        message,
+        thread,
+        await classifyInbound({
+          message,
+          thread,
+          examples: pickFeedbackExamples(feedback, message, {
+            limit: settings.feedbackExamples,
+            excludeActivityId: thread.own?.id,
+          }),
+          apiKey: useModelClassification ? openAIApiKey : undefined,
+          model: classifierModel,
+          sop,
+          rules,
+          taxonomy: settings.taxonomy,
+        }),
+        rules,
+      ),
     );
-    process.exit(1);
+  const policy = labelPolicy(settings.taxonomy, classification.label);
+  result.classification_counts[classification.label] =
+    (result.classification_counts[classification.label] ?? 0) + 1;
+  const threadDraft = linkedThreadDraft(thread, classification, policy === "draft");
+  const followUp = thread.history.length > 0 && classification.label === "sales";
+  if (followUp) {
+    result.totals.thread_follow_ups += 1;
   }
+  const inboundMessage = summarizeInboundMessage(message);
 
-  const pollFile = clean(asString(flags["poll-file"]));
-  if (!pollFile) {
-    throw new Error("--poll-file is required");
+  const senderEmail = extractEmailAddress(message.from);
+  const senderName = extractDisplayName(message.from);
+  const messageTs =
+    message.received_at ||
+    (message.internal_ts ? new Date(message.internal_ts).toISOString() : undefined);
+
+  if (messageTs) {
+    const prior = maxTsByAccount.get(message.account_email);
+    if (!prior || Date.parse(messageTs) > Date.parse(prior)) {
+      maxTsByAccount.set(message.account_email, messageTs);
+    }
   }
 
-  const outputFile = clean(asString(flags.output)) || DEFAULT_OUTPUT_FILE;
-  const sopFile = clean(asString(flags["sop-file"]));
+  context.stage = "contact";
+  let contactId: string | undefined;
+  if (senderEmail && policy !== "ignore" && classification.label !== "receipt") {
+    const contact = await storage.upsertRow(contactsTable, "email", {
+      email: senderEmail,
+      display_name: senderName,
+      last_seen_at: messageTs || new Date().toISOString(),
+      source_account_email: message.account_email,
+      updated_at: new Date().toISOString(),
+    });
+
+    contactId = typeof contact.id === "string" ? contact.id : undefined;
+  }
+  if (followUp) {
+    contactId ??= thread.contactId;
+  }
+
+  const activityPayload: Record<string, unknown> = {
+    source_key: message.source_key,
+    account_email: message.account_email,
+    message_id: message.message_id,
+    thread_id: message.thread_id,
+    from_raw: message.from,
+    from_email: senderEmail,
+    from_name: senderName,
+    subject: message.subject,
+    snippet: inboundMessage,
+    received_at: messageTs,
+    classification: classification.label,
+    classification_confidence: classification.confidence,
+    classification_reasons: classification.reasons,
+    contact_id: contactId,
+    contact_email: senderEmail,
+    thread_draft_id:
+      threadDraft && threadDraft.activity_id !== thread.own?.id ? threadDraft.id : null,
+    sop_hash: sop?.sop?.hash,
+    rules_hash: rules.hash,
+    attachments: message.attachments ?? [],
+    payload: message.raw ?? {},
+    updated_at: new Date().toISOString(),
+  };
 
-  const supabaseUrl = clean(process.env.SUPABASE_URL);
-  const supabaseKey = clean(process.env.SUPABASE_SECRET_KEY);
-  if (!supabaseUrl || !supabaseKey) {
-    throw new Error("SUPABASE_URL and SUPABASE_SECRET_KEY are required");
+  context.stage = "activity";
+  const activity = await storage.upsertRow(activitiesTable, "source_key", activityPayload);
+
+  const activityId = typeof activity.id === "string" ? activity.id : undefined;
+  if (!activityId) {
+    throw new Error(`Missing activity id after upsert for source_key=${message.source_key}`);
   }
+  result.totals.activities_upserted += 1;
 
-  const contactsTable = clean(process.env.CRM_CONTACTS_TABLE) || DEFAULT_CONTACTS_TABLE;
-  const activitiesTable = clean(process.env.CRM_ACTIVITIES_TABLE) || DEFAULT_ACTIVITIES_TABLE;
-  const draftsTable = clean(process.env.CRM_DRAFTS_TABLE) || DEFAULT_DRAFTS_TABLE;
-  const accountingTable = clean(process.env.CRM_ACCOUNTING_TABLE) || DEFAULT_ACCOUNTING_TABLE;
-  const jobRunsTable = clean(process.env.CRM_JOB_RUNS_TABLE) || DEFAULT_JOB_RUNS_TABLE;
-  const pollStateTable = clean(process.env.CRM_POLL_STATE_TABLE) || DEFAULT_POLL_STATE_TABLE;
+  const needsDraft =
+    policy === "draft" &&
+    !threadDraft &&
+    !classification.reasons.includes("thread-acknowledgement");
+  if (needsDraft) {
+    context.stage = "draft";
+    const draft = await createSalesDraft(settings, {
+      activityId,
+      message,
+      receivedAt: messageTs,
+      sop,
+      sopCues,
+      profile,
+    });
+    if (!draft) {
+      result.warnings.push(
+        `Draft for ${message.source_key} is already sending or sent; left unchanged.`,
+      );
+    }
+
+    context.stage = "slack";
+    if (draft) {
+      const slackPost = await slack.postMessage(draft.slackMessage);
+      result.sales_drafts.push({
+        draft_id: draft.draftId,
+        label: classification.label,
+        activity_id: activityId,
+        account_email: message.account_email,
+        to_email: draft.toEmail,
+        slack_posted: slackPost.posted,
+        slack_error: slackPost.error,
+      });
+    }
+
+    context.stage = "label";
+    if (draft && applyLeadLabels) {
+      const labelResult = await settings.applyLabel({
+        account: message.account_email,
+        threadId: message.thread_id,
+        labelName: profile.leadLabel ?? leadLabelName,
+      });
+      if (!labelResult.applied && labelResult.error) {
+        result.warnings.push(
+          `Lead label apply failed for ${message.account_email}:${message.message_id} (${labelResult.error})`,
+        );
+      }
+    }
+    result.totals.drafts_upserted += draft ? 1 : 0;
+  }
+
+  if (classification.label === "receipt") {
+    context.stage = "accounting";
+    result.accounting_entries.push(await recordAccountingEntry(settings, message, activityId));
+    result.totals.accounting_entries_upserted += 1;
+  }
+
+  if (policy === "notify" && thread.own?.classification !== classification.label) {
+    context.stage = "slack";
+    const slackPost = await slack.postMessage(
+      buildLabelNotification(classification.label, message, profile),
+    );
+    result.notifications.push({
+      activity_id: activityId,
+      label: classification.label,
+      account_email: message.account_email,
+      slack_posted: slackPost.posted,
+      slack_error: slackPost.error,
+    });
+    result.totals.notifications_posted += slackPost.posted ? 1 : 0;
+  }
+
+  context.stage = "close_drafts";
+  if (policy !== "draft") {
+    await storage.patchRows(draftsTable, { activity_id: activityId, status: "draft" }, {
+      status: "rejected",
+      rejected_reason: `Auto-closed after reclassification to ${classification.label}`,
+      rejected_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+  }
+}
+
+export async function processInbound(
+  poll: PollFile,
+  sop: SopSnapshot | undefined,
+  settings: ProcessInboundSettings,
+  options: { advancePollState?: boolean; lockHolder?: string; signal?: AbortSignal } = {},
+): Promise<ProcessResult> {
+  const { storage } = settings;
+  const { jobRuns: jobRunsTable, pollState: pollStateTable } = settings.tables;
 
   const startedAt = new Date().toISOString();
-  const poll = await readJsonFile<PollFile>(pollFile);
-  const sop = await loadSopSnapshot(sopFile);
   const sopCues = pickSopCues(sop);
-  const openAIApiKey = clean(process.env.OPENAI_API_KEY);
-  const classifierModel =
-    clean(process.env.CRM_CLASSIFIER_MODEL) ||
-    clean(process.env.OPENCLAW_CRM_CLASSIFIER_MODEL) ||
-    DEFAULT_CLASSIFIER_MODEL;
-  const replyModel =
-    clean(process.env.CRM_REPLY_MODEL) ||
-    clean(process.env.OPENCLAW_CRM_REPLY_MODEL) ||
-    DEFAULT_REPLY_MODEL;
-  const useModelClassification = getBool(
-    clean(process.env.CRM_USE_MODEL_CLASSIFIER) ||
-    clean(process.env.OPENCLAW_CRM_USE_MODEL_CLASSIFIER),
-    true,
-  );
-  const useModelReplyWriter = getBool(
-    clean(process.env.CRM_USE_MODEL_REPLY_WRITER) ||
-    clean(process.env.OPENCLAW_CRM_USE_MODEL_REPLY_WRITER),
-    true,
-  );
-  const applyLeadLabels = getBool(clean(process.env.CRM_GMAIL_LABEL_APPLY), true);
-  const leadLabelName = clean(process.env.CRM_GMAIL_LABEL_LEAD) || DEFAULT_GMAIL_LEAD_LABEL;
+  const { rules, warnings: ruleWarnings } = await loadClassifierRules({
+    file: settings.rulesFile,
+    sop,
+  });
 
   const runId = poll.run_id || randomUUID();
 
-  await supabaseUpsertRow(
-    {
-      supabaseUrl,
-      serviceKey: supabaseKey,
-      table: jobRunsTable,
-      onConflict: "id",
-    },
-    {
-      id: runId,
-      started_at: poll.started_at || startedAt,
-      status: "running",
-      degraded: sop?.degraded === true,
-      poll_partial_failure: poll.partial_failure === true,
-      metrics: {
-        polled_messages: poll.messages.length,
-      },
-      accounts: poll.per_account ?? [],
-      updated_at: new Date().toISOString(),
+  await storage.upsertRow(jobRunsTable, "id", {
+    id: runId,
+    started_at: poll.started_at || startedAt,
+    status: "running",
+    degraded: sop?.degraded === true,
+    ...(options.lockHolder ? { lock_holder: options.lockHolder } : {}),
+    poll_partial_failure: poll.partial_failure === true,
+    metrics: {
+      polled_messages: poll.messages.length,
     },
-  );
+    accounts: poll.per_account ?? [],
+    updated_at: new Date().toISOString(),
+  });
 
   const result: ProcessResult = {
     command: "process_inbound",
@@ -1491,25 +1821,33 @@ async function main() {
     finished_at: "",
     status: "ok",
     degraded: sop?.degraded === true,
+    rules: { version: rules.version, hash: rules.hash, sources: rules.sources },
     totals: {
       polled_messages: poll.messages.length,
       processed_messages: 0,
+      failed_messages: 0,
       activities_upserted: 0,
       drafts_upserted: 0,
       accounting_entries_upserted: 0,
+      notifications_posted: 0,
+      thread_follow_ups: 0,
     },
-    classification_counts: {
-      receipt: 0,
-      sales: 0,
-      support: 0,
-      ignore: 0,
-    },
+    classification_counts: Object.fromEntries(
+      labelNames(settings.taxonomy).map((label) => [label, 0]),
+    ),
     sales_drafts: [],
     accounting_entries: [],
+    notifications: [],
+    dead_letters: [],
     poll_state_updates: [],
-    warnings: [],
+    warnings: [...ruleWarnings],
+    ...(settings.dryRunPlan ? { dry_run: true, planned: settings.dryRunPlan } : {}),
   };
 
+  const stopRetryLog = onRetryAttempt((event) => {
+    result.warnings.push(formatRetryEvent(event));
+  });
+
   if (sop?.degraded) {
     result.warnings.push(...(sop.warnings ?? []));
   }
@@ -1517,298 +1855,208 @@ async function main() {
     result.warnings.push("No SOP snapshot found; continuing with default routing behavior.");
   }
 
-  const maxTsByAccount = new Map<string, string>();
-
-  for (const message of poll.messages) {
-    const classification = await classifyInbound({
-      message,
-      apiKey: useModelClassification ? openAIApiKey : undefined,
-      model: classifierModel,
-      sop,
-    });
-    result.classification_counts[classification.label] += 1;
-    const inboundMessage = summarizeInboundMessage(message);
-
-    const senderEmail = extractEmailAddress(message.from);
-    const senderName = extractDisplayName(message.from);
-    const messageTs =
-      message.received_at ||
-      (message.internal_ts ? new Date(message.internal_ts).toISOString() : undefined);
-
-    if (messageTs) {
-      const prior = maxTsByAccount.get(message.account_email);
-      if (!prior || Date.parse(messageTs) > Date.parse(prior)) {
-        maxTsByAccount.set(message.account_email, messageTs);
-      }
-    }
-
-    let contactId: string | undefined;
-    if (senderEmail && (classification.label === "sales" || classification.label === "support")) {
-      const contact = await supabaseUpsertRow(
-        {
-          supabaseUrl,
-          serviceKey: supabaseKey,
-          table: contactsTable,
-          onConflict: "email",
-        },
-        {
-          email: senderEmail,
-          display_name: senderName,
-          last_seen_at: messageTs || new Date().toISOString(),
-          source_account_email: message.account_email,
-          updated_at: new Date().toISOString(),
-        },
-      );
-
-      contactId = typeof contact.id === "string" ? contact.id : undefined;
-    }
-
-    const activityPayload: Record<string, unknown> = {
-      source_key: message.source_key,
-      account_email: message.account_email,
-      message_id: message.message_id,
-      thread_id: message.thread_id,
-      from_raw: message.from,
-      from_email: senderEmail,
-      from_name: senderName,
-      subject: message.subject,
-      snippet: inboundMessage,
-      received_at: messageTs,
-      classification: classification.label,
-      classification_confidence: classification.confidence,
-      classification_reasons: classification.reasons,
-      contact_id: contactId,
-      contact_email: senderEmail,
-      sop_hash: sop?.sop?.hash,
-      payload: message.raw ?? {},
-      updated_at: new Date().toISOString(),
-    };
-
-    const activity = await supabaseUpsertRow(
-      {
-        supabaseUrl,
-        serviceKey: supabaseKey,
-        table: activitiesTable,
-        onConflict: "source_key",
-      },
-      activityPayload,
-    );
-
-    const activityId = typeof activity.id === "string" ? activity.id : undefined;
-    if (!activityId) {
-      throw new Error(`Missing activity id after upsert for source_key=${message.source_key}`);
-    }
-    result.totals.activities_upserted += 1;
-
-    if (classification.label === "sales") {
-      const draft = await buildSalesDraft({
-        apiKey: useModelReplyWriter ? openAIApiKey : undefined,
-        model: replyModel,
-        senderDisplayName: senderName,
-        senderEmail,
-        subject: message.subject,
-        snippet: inboundMessage,
-        mailbox: message.account_email,
+  try {
+    const maxTsByAccount = new Map<string, string>();
+    const feedback =
+      settings.useModelClassification && settings.openAIApiKey && settings.feedbackExamples > 0
+        ? await loadFeedbackExamples(storage, settings.tables.feedback, {
+            lookbackDays: settings.feedbackLookbackDays,
+          }).catch((error: unknown) => {
+            result.warnings.push(
+              `Classification feedback unavailable (${error instanceof Error ? error.message : "unknown error"})`,
+            );
+            return [];
+          })
+        : [];
+
+    for (const message of poll.messages) {
+      options.signal?.throwIfAborted();
+      const context: MessageContext = {
+        settings,
         sop,
         sopCues,
-      });
-
-      const toEmail = senderEmail || "unknown@example.com";
-      const draftRow = await supabaseUpsertRow(
-        {
-          supabaseUrl,
-          serviceKey: supabaseKey,
-          table: draftsTable,
-          onConflict: "activity_id",
-        },
-        {
-          activity_id: activityId,
-          account_email: message.account_email,
-          to_email: toEmail,
-          subject: draft.subject,
-          body: draft.body,
-          status: "draft",
-          approval_commands: "Handle approval/revisions in Slack thread",
-          reply_to_message_id: message.message_id,
-          sop_hash: sop?.sop?.hash,
-          updated_at: new Date().toISOString(),
-        },
-      );
+        rules,
+        result,
+        maxTsByAccount,
+        feedback,
+        stage: "classify",
+      };
+      try {
+        await processMessage(message, context);
+        result.totals.processed_messages += 1;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "unknown processing error";
+        result.totals.failed_messages += 1;
+        result.dead_letters.push({
+          source_key: message.source_key,
+          stage: context.stage,
+          error: errorMessage,
+        });
+        try {
+          await recordDeadLetter(settings, {
+            runId,
+            message,
+            stage: context.stage,
+            error: errorMessage,
+          });
+        } catch (deadLetterError) {
+          const reason =
+            deadLetterError instanceof Error ? deadLetterError.message : "unknown error";
+          throw new Error(`Dead letter write failed for ${message.source_key} (${reason})`);
+        }
+      }
+    }
 
-      const draftId = typeof draftRow.id === "string" ? draftRow.id : undefined;
-      if (!draftId) {
-        throw new Error(`Missing draft id after upsert for activity_id=${activityId}`);
+    if (options.advancePollState !== false && poll.source !== "files") {
+      const accountSet = new Set<string>();
+      const uidByAccount = new Map<string, { uid_validity: number; last_uid: number }>();
+      const trackUid = (account: string, uidValidity?: number, uid?: number) => {
+        if (uidValidity === undefined || uid === undefined) {
+          return;
+        }
+        const prior = uidByAccount.get(account);
+        if (!prior || prior.uid_validity !== uidValidity || uid > prior.last_uid) {
+          uidByAccount.set(account, { uid_validity: uidValidity, last_uid: uid });
+        }
+      };
+      for (const message of poll.messages) {
+        accountSet.add(message.account_email);
+        trackUid(message.account_email, message.uid_validity, message.uid);
+      }
+      const cursorByAccount = new Map<string, string>();
+      for (const entry of poll.per_account ?? []) {
+        if (entry.account_email) {
+          accountSet.add(entry.account_email);
+          trackUid(entry.account_email, entry.uid_validity, entry.last_uid);
+          if (entry.change_cursor && !entry.error) {
+            cursorByAccount.set(entry.account_email, entry.change_cursor);
+          }
+        }
       }
-      const slackMessage = buildDraftSlackMessage({
-        accountEmail: message.account_email,
-        subject: draft.subject,
-        receivedAt: messageTs,
-        inboundMessage,
-        suggestedResponse: draft.body,
-      });
 
-      await supabasePatchRows(
-        {
-          supabaseUrl,
-          serviceKey: supabaseKey,
-          table: draftsTable,
-          filters: { id: draftId },
-        },
-        {
-          slack_summary: slackMessage.text,
+      for (const accountEmail of accountSet) {
+        const stateRow = {
+          account_email: accountEmail,
+          last_polled_at: new Date().toISOString(),
+          last_message_ts: maxTsByAccount.get(accountEmail),
+          ...uidByAccount.get(accountEmail),
+          ...(cursorByAccount.has(accountEmail)
+            ? { change_cursor: cursorByAccount.get(accountEmail) }
+            : {}),
           updated_at: new Date().toISOString(),
-        },
-      );
+        };
 
-      const slack = await maybePostSlack(slackMessage);
-      result.sales_drafts.push({
-        draft_id: draftId,
-        activity_id: activityId,
-        account_email: message.account_email,
-        to_email: toEmail,
-        slack_posted: slack.posted,
-        slack_error: slack.error,
-      });
+        await storage.upsertRow(pollStateTable, "account_email", stateRow);
 
-      if (applyLeadLabels) {
-        const labelResult = await applyLeadLabel({
-          account: message.account_email,
-          threadId: message.thread_id,
-          labelName: leadLabelName,
+        result.poll_state_updates.push({
+          account_email: accountEmail,
+          last_polled_at: stateRow.last_polled_at,
+          last_message_ts: stateRow.last_message_ts,
+          ...(stateRow.last_uid !== undefined ? { last_uid: stateRow.last_uid } : {}),
+          ...(stateRow.change_cursor ? { change_cursor: stateRow.change_cursor } : {}),
         });
-        if (!labelResult.applied && labelResult.error) {
-          result.warnings.push(
-            `Lead label apply failed for ${message.account_email}:${message.message_id} (${labelResult.error})`,
-          );
-        }
       }
-      result.totals.drafts_upserted += 1;
     }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "unknown processing error";
+    stopRetryLog();
+    result.status = "failed";
+    result.finished_at = new Date().toISOString();
+    result.warnings.push(`process_inbound aborted: ${errorMessage}`);
+    await storage
+      .patchRows(jobRunsTable, { id: runId }, {
+        finished_at: result.finished_at,
+        status: result.status,
+        warnings: result.warnings,
+        updated_at: new Date().toISOString(),
+      })
+      .catch(() => undefined);
+    throw error;
+  }
+
+  if (
+    poll.partial_failure ||
+    result.totals.failed_messages > 0 ||
+    result.sales_drafts.some((entry) => !entry.slack_posted) ||
+    result.notifications.some((entry) => !entry.slack_posted)
+  ) {
+    result.status = "partial_failure";
+  }
 
-    if (classification.label === "receipt") {
-      const parsed = parseReceiptInfo(message);
-
-      await supabaseUpsertRow(
-        {
-          supabaseUrl,
-          serviceKey: supabaseKey,
-          table: accountingTable,
-          onConflict: "source_key",
-        },
-        {
-          source_key: message.source_key,
-          activity_id: activityId,
-          account_email: message.account_email,
-          vendor: parsed.vendor,
-          amount: parsed.amount,
-          currency: parsed.currency,
-          receipt_date: parsed.receipt_date,
-          subject: message.subject,
-          snippet: inboundMessage,
-          payload: message.raw ?? {},
-          updated_at: new Date().toISOString(),
-        },
-      );
+  stopRetryLog();
+  result.finished_at = new Date().toISOString();
 
-      result.accounting_entries.push({
-        activity_id: activityId,
-        source_key: message.source_key,
-        vendor: parsed.vendor,
-        amount: parsed.amount,
-        currency: parsed.currency,
-      });
-      result.totals.accounting_entries_upserted += 1;
-    }
+  await storage.patchRows(jobRunsTable, { id: runId }, {
+    finished_at: result.finished_at,
+    status: result.status,
+    degraded: result.degraded,
+    metrics: {
+      polled_messages: result.totals.polled_messages,
+      processed_messages: result.totals.processed_messages,
+      failed_messages: result.totals.failed_messages,
+      activities_upserted: result.totals.activities_upserted,
+      drafts_upserted: result.totals.drafts_upserted,
+      accounting_entries_upserted: result.totals.accounting_entries_upserted,
+      notifications_posted: result.totals.notifications_posted,
+    },
+    warnings: result.warnings,
+    updated_at: new Date().toISOString(),
+  });
 
-    if (classification.label !== "sales") {
-      await supabasePatchRows(
-        {
-          supabaseUrl,
-          serviceKey: supabaseKey,
-          table: draftsTable,
-          filters: {
-            activity_id: activityId,
-            status: "draft",
-          },
-        },
-        {
-          status: "rejected",
-          rejected_reason: `Auto-closed after reclassification to ${classification.label}`,
-          rejected_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        },
-      );
-    }
+  return result;
+}
 
-    result.totals.processed_messages += 1;
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command !== "process_inbound") {
+    console.error(
+      "Usage: bun process-inbound.ts process_inbound --poll-file <path> [--sop-file <path>] [--dry-run] [--output <path>]",
+    );
+    process.exit(1);
   }
 
-  const accountSet = new Set<string>();
-  for (const message of poll.messages) {
-    accountSet.add(message.account_email);
-  }
-  for (const entry of poll.per_account ?? []) {
-    if (entry.account_email) {
-      accountSet.add(entry.account_email);
-    }
+  const pollFile = clean(asString(flags["poll-file"]));
+  if (!pollFile) {
+    throw new Error("--poll-file is required");
   }
 
-  for (const accountEmail of accountSet) {
-    const stateRow = {
-      account_email: accountEmail,
-      last_polled_at: new Date().toISOString(),
-      last_message_ts: maxTsByAccount.get(accountEmail),
-      updated_at: new Date().toISOString(),
-    };
+  const dryRun = flags["dry-run"] === true;
+  const outputFile =
+    clean(asString(flags.output)) || (dryRun ? DEFAULT_DRY_RUN_OUTPUT_FILE : DEFAULT_OUTPUT_FILE);
+  const config = loadConfig({ flags, command: dryRun ? undefined : "process_inbound" });
+  const sopFile = clean(asString(flags["sop-file"])) || config.sopCacheFile;
 
-    await supabaseUpsertRow(
-      {
-        supabaseUrl,
-        serviceKey: supabaseKey,
-        table: pollStateTable,
-        onConflict: "account_email",
-      },
-      stateRow,
-    );
-
-    result.poll_state_updates.push({
-      account_email: accountEmail,
-      last_polled_at: stateRow.last_polled_at,
-      last_message_ts: stateRow.last_message_ts,
-    });
-  }
+  const settings = resolveProcessInboundSettings(config, { dryRun });
+  await ensureSchemaVersion(settings.storage);
+  const poll = await readJsonFile<PollFile>(pollFile);
+  const sop = await loadSopSnapshot(sopFile);
 
-  if (poll.partial_failure || result.sales_drafts.some((entry) => !entry.slack_posted)) {
-    result.status = "partial_failure";
+  if (dryRun) {
+    const result = await processInbound(poll, sop, settings);
+    await writeJson(outputFile, result);
+    console.log(JSON.stringify(result, null, 2));
+    return;
   }
 
-  result.finished_at = new Date().toISOString();
-
-  await supabasePatchRows(
-    {
-      supabaseUrl,
-      serviceKey: supabaseKey,
-      table: jobRunsTable,
-      filters: { id: runId },
-    },
-    {
-      finished_at: result.finished_at,
-      status: result.status,
-      degraded: result.degraded,
-      metrics: {
-        polled_messages: result.totals.polled_messages,
-        processed_messages: result.totals.processed_messages,
-        activities_upserted: result.totals.activities_upserted,
-        drafts_upserted: result.totals.drafts_upserted,
-        accounting_entries_upserted: result.totals.accounting_entries_upserted,
-      },
-      warnings: result.warnings,
-      updated_at: new Date().toISOString(),
-    },
+  const runId = poll.run_id || randomUUID();
+  const locked = await withRunLock(
+    createRunLockFromConfig(settings.storage, config),
+    buildLockHolderId(runId),
+    (lease, signal) =>
+      processInbound({ ...poll, run_id: runId }, sop, settings, {
+        lockHolder: lease.holder_id,
+        signal,
+      }),
   );
+  const result =
+    locked.status === "acquired"
+      ? locked.value
+      : { command: "process_inbound", run_id: runId, ...locked };
 
   await writeJson(outputFile, result);
   console.log(JSON.stringify(result, null, 2));
 }
 
-await main();
+if (isMainModule(import.meta.url)) {
+  await main();
+}
@@ -0,0 +1,367 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+
+import {
+  asString,
+  buildLockHolderId,
+  clean,
+  createRunLockFromConfig,
+  ensureSchemaVersion,
+  getRecord,
+  isMainModule,
+  loadConfig,
+  parseArgs,
+  withRunLock,
+  writeJson,
+  type CrmConfig,
+} from "./crm-core/index.ts";
+import { pollInboxes, resolvePollInboxesOptions } from "./poll-inboxes.ts";
+import {
+  loadSopSnapshot,
+  processInbound,
+  resolveProcessInboundSettings,
+} from "./process-inbound.ts";
+
+export type PushNotification = {
+  account: string;
+  cursor?: string;
+  pubsubMessageId?: string;
+};
+
+type PushStatus = "processed" | "duplicate" | "ignored" | "locked" | "failed";
+
+type PushOutcome = {
+  command: "serve_push";
+  run_id: string;
+  received_at: string;
+  finished_at: string;
+  status: PushStatus;
+  account_email: string;
+  pubsub_message_id?: string;
+  notified_cursor?: string;
+  since_cursor?: string;
+  change_cursor?: string;
+  cursor_fallback?: boolean;
+  fetched_count?: number;
+  process_status?: string;
+  totals?: Record<string, number>;
+  error?: string;
+};
+
+type PublishResult = {
+  command: "publish_push";
+  url: string;
+  account_email: string;
+  history_id?: string;
+  pubsub_message_id: string;
+  http_status: number;
+  ok: boolean;
+  response?: string;
+};
+
+const DEFAULT_PUBLISH_OUTPUT = "/tmp/crm-push-publish.json";
+const MAX_BODY_BYTES = 1_000_000;
+const RECENT_MESSAGE_IDS = 1_000;
+
+const HTTP_STATUS: Record<PushStatus, number> = {
+  processed: 204,
+  duplicate: 204,
+  ignored: 204,
+  locked: 503,
+  failed: 500,
+};
+
+export function parsePushEnvelope(body: unknown): PushNotification | undefined {
+  const message = getRecord(getRecord(body)?.message);
+  if (typeof message?.data !== "string") {
+    return undefined;
+  }
+
+  let data: Record<string, unknown> | undefined;
+  try {
+    data = getRecord(JSON.parse(Buffer.from(message.data, "base64").toString("utf8")));
+  } catch {
+    return undefined;
+  }
+  if (typeof data?.emailAddress !== "string" || !data.emailAddress.includes("@")) {
+    return undefined;
+  }
+
+  const historyId = data.historyId;
+  const messageId = message.messageId ?? message.message_id;
+  return {
+    account: data.emailAddress.trim().toLowerCase(),
+    cursor:
+      typeof historyId === "string" || typeof historyId === "number"
+        ? String(historyId)
+        : undefined,
+    pubsubMessageId: typeof messageId === "string" ? messageId : undefined,
+  };
+}
+
+export function buildPushEnvelope(notification: PushNotification): Record<string, unknown> {
+  const data = {
+    emailAddress: notification.account,
+    ...(notification.cursor ? { historyId: notification.cursor } : {}),
+  };
+  return {
+    message: {
+      data: Buffer.from(JSON.stringify(data)).toString("base64"),
+      messageId: notification.pubsubMessageId ?? randomUUID(),
+      publishTime: new Date().toISOString(),
+    },
+    subscription: "projects/local/subscriptions/crm-inbound-push",
+  };
+}
+
+function tokenMatches(expected: string | undefined, provided: string | undefined): boolean {
+  if (!expected) {
+    return true;
+  }
+  const left = Buffer.from(expected);
+  const right = Buffer.from(provided ?? "");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+async function readBody(request: IncomingMessage): Promise<string | undefined> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      return undefined;
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function reply(response: ServerResponse, status: number, body?: Record<string, unknown>): void {
+  response.writeHead(status, body ? { "Content-Type": "application/json" } : {});
+  response.end(body ? JSON.stringify(body) : undefined);
+}
+
+async function servePush(config: CrmConfig): Promise<void> {
+  const settings = resolveProcessInboundSettings(config);
+  const { storage } = settings;
+  await ensureSchemaVersion(storage);
+
+  const pollOptions = { ...resolvePollInboxesOptions(config), storage };
+  const lock = createRunLockFromConfig(storage, config);
+  const recent: string[] = [];
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function handleNotification(notification: PushNotification): Promise<PushOutcome> {
+    const runId = randomUUID();
+    const outcome: PushOutcome = {
+      command: "serve_push",
+      run_id: runId,
+      received_at: new Date().toISOString(),
+      finished_at: "",
+      status: "processed",
+      account_email: notification.account,
+      ...(notification.pubsubMessageId ? { pubsub_message_id: notification.pubsubMessageId } : {}),
+      ...(notification.cursor ? { notified_cursor: notification.cursor } : {}),
+    };
+    const account = pollOptions.accounts.find(
+      (entry) => entry.toLowerCase() === notification.account,
+    );
+
+    if (!account) {
+      outcome.status = "ignored";
+      outcome.error = "account is not in CRM_MONITORED_EMAILS";
+    } else if (notification.pubsubMessageId && recent.includes(notification.pubsubMessageId)) {
+      outcome.status = "duplicate";
+    } else {
+      try {
+        const locked = await withRunLock(lock, buildLockHolderId(runId), async (lease, signal) => {
+          const poll = await pollInboxes({ ...pollOptions, runId, accounts: [account] });
+          const entry = poll.per_account[0];
+          Object.assign(outcome, {
+            since_cursor: entry?.since_cursor,
+            change_cursor: entry?.change_cursor,
+            cursor_fallback: entry?.cursor_fallback,
+            fetched_count: poll.total_messages,
+          });
+          if (entry?.error) {
+            throw new Error(entry.error);
+          }
+
+          if (poll.total_messages === 0) {
+            if (entry?.change_cursor) {
+              await storage.upsertRow(pollOptions.pollStateTable, "account_email", {
+                account_email: account,
+                change_cursor: entry.change_cursor,
+                updated_at: new Date().toISOString(),
+              });
+            }
+            return;
+          }
+
+          const sop = await loadSopSnapshot(config.sopCacheFile);
+          const result = await processInbound(poll, sop, settings, {
+            lockHolder: lease.holder_id,
+            signal,
+          });
+          outcome.process_status = result.status;
+          outcome.totals = result.totals;
+        });
+        if (locked.status === "skipped") {
+          outcome.status = "locked";
+          outcome.error = locked.message;
+        }
+      } catch (error) {
+        outcome.status = "failed";
+        outcome.error = error instanceof Error ? error.message : "unknown push error";
+      }
+
+      if (outcome.status === "processed" && notification.pubsubMessageId) {
+        recent.push(notification.pubsubMessageId);
+        recent.splice(0, Math.max(0, recent.length - RECENT_MESSAGE_IDS));
+      }
+    }
+
+    outcome.finished_at = new Date().toISOString();
+    return outcome;
+  }
+
+  async function route(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (request.method === "GET" && url.pathname === "/healthz") {
+      reply(response, 200, { ok: true });
+      return;
+    }
+    if (url.pathname !== config.pushPath) {
+      reply(response, 404, { error: "not found" });
+      return;
+    }
+    if (request.method !== "POST") {
+      reply(response, 405, { error: "method not allowed" });
+      return;
+    }
+
+    const bearer = request.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!tokenMatches(config.pushToken, url.searchParams.get("token") ?? bearer)) {
+      reply(response, 403, { error: "invalid token" });
+      return;
+    }
+
+    const text = await readBody(request);
+    if (text === undefined) {
+      reply(response, 413, { error: "body too large" });
+      return;
+    }
+    let notification: PushNotification | undefined;
+    try {
+      notification = parsePushEnvelope(JSON.parse(text));
+    } catch {
+      notification = undefined;
+    }
+    if (!notification) {
+      reply(response, 400, { error: "expected a Pub/Sub push envelope with emailAddress" });
+      return;
+    }
+
+    const run = queue.then(() => handleNotification(notification));
+    queue = run.catch(() => undefined);
+    const outcome = await run;
+    console.log(JSON.stringify(outcome));
+    reply(response, HTTP_STATUS[outcome.status]);
+  }
+
+  const server = createServer((request, response) => {
+    route(request, response).catch((error) => {
+      console.error(error instanceof Error ? error.message : error);
+      if (!response.headersSent) {
+        reply(response, 500, { error: "internal error" });
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(config.pushPort, config.pushHost, () => resolve());
+  });
+  console.log(
+    JSON.stringify({
+      command: "serve_push",
+      status: "listening",
+      url: `http://${config.pushHost}:${config.pushPort}${config.pushPath}`,
+      accounts: pollOptions.accounts,
+    }),
+  );
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      server.close(() => resolve());
+    };
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+  });
+  await queue;
+}
+
+export async function publishPush(
+  url: string,
+  notification: PushNotification,
+): Promise<PublishResult> {
+  const envelope = buildPushEnvelope(notification);
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(envelope),
+  });
+  const text = await response.text();
+
+  return {
+    command: "publish_push",
+    url: url.replace(/([?&]token=)[^&]+/, "$1***"),
+    account_email: notification.account,
+    ...(notification.cursor ? { history_id: notification.cursor } : {}),
+    pubsub_message_id: String(getRecord(envelope.message)?.messageId),
+    http_status: response.status,
+    ok: response.ok,
+    ...(text.trim() ? { response: text } : {}),
+  };
+}
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command === "serve_push") {
+    await servePush(loadConfig({ flags, command: "serve_push" }));
+    return;
+  }
+
+  const account = clean(asString(flags.account))?.toLowerCase();
+  if (command !== "publish_push" || !account) {
+    console.error(
+      "Usage: tsx push-receiver.ts serve_push [--host <host>] [--port <n>]\n       tsx push-receiver.ts publish_push --account <email> [--history-id <id>] [--url <receiver-url>] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const config = loadConfig({ flags });
+  const defaultUrl = new URL(
+    config.pushPath,
+    `http://${config.pushHost === "0.0.0.0" ? "127.0.0.1" : config.pushHost}:${config.pushPort}`,
+  );
+  if (config.pushToken) {
+    defaultUrl.searchParams.set("token", config.pushToken);
+  }
+
+  const outputFile = clean(asString(flags.output)) || DEFAULT_PUBLISH_OUTPUT;
+  const result = await publishPush(clean(asString(flags.url)) || defaultUrl.toString(), {
+    account,
+    cursor: clean(asString(flags["history-id"])),
+  });
+
+  await writeJson(outputFile, result);
+  console.log(JSON.stringify(result, null, 2));
+  if (!result.ok) {
+    process.exitCode = 1;
+  }
+}
+
+if (isMainModule(import.meta.url)) {
+  await main();
+}
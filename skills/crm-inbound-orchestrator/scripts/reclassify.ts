@@ -0,0 +1,424 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  asString,
+  buildLockHolderId,
+  clean,
+  createRunLockFromConfig,
+  ensureSchemaVersion,
+  getOptionalString,
+  getRecord,
+  isMainModule,
+  labelNames,
+  labelPolicy,
+  loadConfig,
+  mailboxProfile,
+  parseArgs,
+  recordClassificationFeedback,
+  withRunLock,
+  writeJson,
+  type PollAttachment,
+  type PollMessage,
+} from "./crm-core/index.ts";
+import {
+  buildLabelNotification,
+  createSalesDraft,
+  loadSopSnapshot,
+  pickSopCues,
+  recordAccountingEntry,
+  resolveProcessInboundSettings,
+  type Classification,
+  type ProcessInboundSettings,
+} from "./process-inbound.ts";
+
+type ActivityRecord = {
+  id: string;
+  source_key: string;
+  account_email: string;
+  message_id: string;
+  thread_id?: string;
+  from_raw?: string;
+  from_email?: string;
+  from_name?: string;
+  subject?: string;
+  snippet?: string;
+  received_at?: string;
+  classification?: string;
+  contact_id?: string;
+  attachments: PollAttachment[];
+  payload?: Record<string, unknown>;
+};
+
+type ReclassifyChanges = {
+  activity: { from?: string; to: Classification };
+  contact_id?: string;
+  draft?: {
+    action: "created" | "kept" | "closed";
+    draft_id: string;
+    status?: string;
+    slack_posted?: boolean;
+    slack_error?: string;
+  };
+  accounting?: {
+    action: "upserted" | "removed";
+    vendor?: string;
+    amount?: number;
+    currency?: string;
+  };
+  lead_label?: {
+    action: "add" | "remove";
+    label: string;
+    applied: boolean;
+    error?: string;
+  };
+  notification?: {
+    slack_posted: boolean;
+    slack_error?: string;
+  };
+};
+
+type ReclassifyResult = {
+  command: "reclassify";
+  activity_id: string;
+  source_key: string;
+  ok: boolean;
+  message: string;
+  previous_label?: string;
+  label: Classification;
+  changed_by: string;
+  reason?: string;
+  changes: ReclassifyChanges;
+  audit_id?: string;
+  warnings: string[];
+};
+
+const DEFAULT_OUTPUT_FILE = "/tmp/crm-reclassify.json";
+
+async function fetchActivity(
+  settings: ProcessInboundSettings,
+  filter: { id?: string; source_key?: string },
+): Promise<ActivityRecord | undefined> {
+  const query = new URLSearchParams();
+  query.set("select", "*");
+  if (filter.id) {
+    query.set("id", `eq.${filter.id}`);
+  } else {
+    query.set("source_key", `eq.${filter.source_key}`);
+  }
+  query.set("limit", "1");
+
+  const row = (await settings.storage.select(settings.tables.activities, query))[0];
+  const id = row ? getOptionalString(row, "id") : undefined;
+  const sourceKey = row ? getOptionalString(row, "source_key") : undefined;
+  if (!row || !id || !sourceKey) {
+    return undefined;
+  }
+
+  return {
+    id,
+    source_key: sourceKey,
+    account_email: getOptionalString(row, "account_email") ?? "",
+    message_id: getOptionalString(row, "message_id") ?? "",
+    thread_id: getOptionalString(row, "thread_id"),
+    from_raw: getOptionalString(row, "from_raw"),
+    from_email: getOptionalString(row, "from_email"),
+    from_name: getOptionalString(row, "from_name"),
+    subject: getOptionalString(row, "subject"),
+    snippet: getOptionalString(row, "snippet"),
+    received_at: getOptionalString(row, "received_at"),
+    classification: getOptionalString(row, "classification"),
+    contact_id: getOptionalString(row, "contact_id"),
+    attachments: Array.isArray(row.attachments) ? (row.attachments as PollAttachment[]) : [],
+    payload: getRecord(row.payload),
+  };
+}
+
+function toPollMessage(activity: ActivityRecord): PollMessage {
+  return {
+    account_email: activity.account_email,
+    message_id: activity.message_id,
+    thread_id: activity.thread_id,
+    subject: activity.subject,
+    from: activity.from_raw ?? activity.from_email,
+    snippet: activity.snippet,
+    body_text: activity.snippet,
+    received_at: activity.received_at,
+    source_key: activity.source_key,
+    attachments: activity.attachments,
+    raw: activity.payload,
+  };
+}
+
+async function fetchDrafts(
+  settings: ProcessInboundSettings,
+  activityId: string,
+): Promise<Array<{ id: string; status: string }>> {
+  const query = new URLSearchParams();
+  query.set("select", "id,status");
+  query.set("activity_id", `eq.${activityId}`);
+
+  return (await settings.storage.select(settings.tables.drafts, query))
+    .map((row) => ({
+      id: getOptionalString(row, "id") ?? "",
+      status: getOptionalString(row, "status") ?? "draft",
+    }))
+    .filter((draft) => Boolean(draft.id));
+}
+
+type ReclassifyRequest = {
+  activityId?: string;
+  sourceKey?: string;
+  label: string;
+  changedBy: string;
+  reason?: string;
+  sopFile: string;
+  auditTable: string;
+};
+
+async function reclassify(
+  settings: ProcessInboundSettings,
+  request: ReclassifyRequest,
+): Promise<ReclassifyResult> {
+  const { storage, tables, taxonomy } = settings;
+  const { label, changedBy, reason } = request;
+  const activity = await fetchActivity(settings, {
+    id: request.activityId,
+    source_key: request.sourceKey,
+  });
+  if (!activity) {
+    throw new Error(`Activity not found: ${request.activityId ?? request.sourceKey}`);
+  }
+
+  const previous = activity.classification;
+  const policy = labelPolicy(taxonomy, label);
+  const previousPolicy = labelPolicy(taxonomy, previous);
+  const message = toPollMessage(activity);
+  const profile = mailboxProfile(settings.profiles, activity.account_email);
+  const changes: ReclassifyChanges = { activity: { from: previous, to: label } };
+  const warnings: string[] = [];
+
+  let contactId = activity.contact_id;
+  if (!contactId && activity.from_email && policy !== "ignore" && label !== "receipt") {
+    const contact = await storage.upsertRow(tables.contacts, "email", {
+      email: activity.from_email,
+      display_name: activity.from_name,
+      last_seen_at: activity.received_at || new Date().toISOString(),
+      source_account_email: activity.account_email,
+      updated_at: new Date().toISOString(),
+    });
+    contactId = typeof contact.id === "string" ? contact.id : undefined;
+    changes.contact_id = contactId;
+  }
+
+  const drafts = await fetchDrafts(settings, activity.id);
+  if (policy === "draft") {
+    const open = drafts.find((draft) => draft.status !== "rejected");
+    if (open) {
+      changes.draft = { action: "kept", draft_id: open.id, status: open.status };
+    } else {
+      const sop = await loadSopSnapshot(request.sopFile);
+      const draft = await createSalesDraft(settings, {
+        activityId: activity.id,
+        message,
+        receivedAt: activity.received_at,
+        sop,
+        sopCues: pickSopCues(sop),
+        profile,
+      });
+      if (!draft) {
+        throw new Error(`Activity ${activity.id} has a draft that is already sending or sent`);
+      }
+      const slackPost = await settings.slack.postMessage(draft.slackMessage);
+      changes.draft = {
+        action: "created",
+        draft_id: draft.draftId,
+        status: "draft",
+        slack_posted: slackPost.posted,
+        slack_error: slackPost.error,
+      };
+    }
+  } else {
+    const closed = await storage.patchRows(
+      tables.drafts,
+      { activity_id: activity.id, status: "draft" },
+      {
+        status: "rejected",
+        rejected_reason: `Reclassified to ${label} by ${changedBy}${reason ? `: ${reason}` : ""}`,
+        rejected_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      },
+    );
+    const closedId = getOptionalString(closed[0] ?? {}, "id");
+    if (closedId) {
+      changes.draft = { action: "closed", draft_id: closedId, status: "rejected" };
+    }
+    for (const draft of drafts.filter((entry) => entry.status === "sending")) {
+      warnings.push(`Draft ${draft.id} is being sent and was left open`);
+    }
+  }
+
+  if (label === "receipt") {
+    const entry = await recordAccountingEntry(settings, message, activity.id);
+    changes.accounting = {
+      action: "upserted",
+      vendor: entry.vendor,
+      amount: entry.amount,
+      currency: entry.currency,
+    };
+  } else if (previous === "receipt") {
+    const query = new URLSearchParams();
+    query.set("source_key", `eq.${activity.source_key}`);
+    await storage.request({ method: "DELETE", table: tables.accounting, query });
+    changes.accounting = { action: "removed" };
+  }
+
+  if (settings.applyLeadLabels && (policy === "draft") !== (previousPolicy === "draft")) {
+    const labelName = profile.leadLabel ?? settings.leadLabelName;
+    const remove = policy !== "draft";
+    const labelResult = await settings.applyLabel({
+      account: activity.account_email,
+      threadId: activity.thread_id,
+      labelName,
+      remove,
+    });
+    changes.lead_label = {
+      action: remove ? "remove" : "add",
+      label: labelName,
+      applied: labelResult.applied,
+      error: labelResult.error,
+    };
+    if (!labelResult.applied && labelResult.error) {
+      warnings.push(`Lead label ${remove ? "removal" : "apply"} failed (${labelResult.error})`);
+    }
+  }
+
+  if (policy === "notify" && previous !== label) {
+    const slackPost = await settings.slack.postMessage(
+      buildLabelNotification(label, message, profile),
+    );
+    changes.notification = { slack_posted: slackPost.posted, slack_error: slackPost.error };
+  }
+
+  const now = new Date().toISOString();
+  await storage.patchRows(
+    tables.activities,
+    { id: activity.id },
+    {
+      classification: label,
+      classification_confidence: 1,
+      classification_reasons: ["manual-reclassify"],
+      ...(contactId ? { contact_id: contactId, contact_email: activity.from_email } : {}),
+      reclassified_at: now,
+      reclassified_by: changedBy,
+      updated_at: now,
+    },
+  );
+
+  try {
+    await recordClassificationFeedback(storage, tables.feedback, {
+      activity_id: activity.id,
+      draft_id: changes.draft?.draft_id,
+      account_email: activity.account_email,
+      source: "reclassify",
+      predicted_label: previous,
+      label,
+      reason,
+      from_email: activity.from_email,
+      subject: activity.subject,
+      snippet: activity.snippet,
+      created_by: changedBy,
+    });
+  } catch (error) {
+    warnings.push(
+      `Feedback write failed: ${error instanceof Error ? error.message : "unknown error"}`,
+    );
+  }
+
+  const audit = await storage.upsertRow(request.auditTable, "id", {
+    id: randomUUID(),
+    activity_id: activity.id,
+    action: "reclassify",
+    previous_label: previous,
+    new_label: label,
+    changed_by: changedBy,
+    reason,
+    changes,
+    created_at: now,
+  });
+
+  return {
+    command: "reclassify",
+    activity_id: activity.id,
+    source_key: activity.source_key,
+    ok: true,
+    message:
+      previous === label
+        ? `Activity ${activity.id} confirmed as ${label}.`
+        : `Activity ${activity.id} reclassified from ${previous ?? "unknown"} to ${label}.`,
+    previous_label: previous,
+    label,
+    changed_by: changedBy,
+    ...(reason ? { reason } : {}),
+    changes,
+    audit_id: typeof audit.id === "string" ? audit.id : undefined,
+    warnings,
+  };
+}
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command !== "reclassify") {
+    console.error(
+      "Usage: tsx reclassify.ts reclassify (--activity-id <id> | --source-key <key>) --label <label> --by <who> [--reason <text>] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const activityId = clean(asString(flags["activity-id"]));
+  const sourceKey = clean(asString(flags["source-key"]));
+  if (!activityId === !sourceKey) {
+    throw new Error("Pass exactly one of --activity-id or --source-key");
+  }
+  const label = clean(asString(flags.label))?.toLowerCase();
+  const changedBy = clean(asString(flags.by));
+  if (!changedBy) {
+    throw new Error("--by is required so the audit trail records who made the change");
+  }
+  const reason = clean(asString(flags.reason));
+  const outputFile = clean(asString(flags.output)) || DEFAULT_OUTPUT_FILE;
+
+  const config = loadConfig({ flags, command: "reclassify" });
+  const settings = resolveProcessInboundSettings(config);
+  const labels = labelNames(settings.taxonomy);
+  if (!label || !labels.includes(label)) {
+    throw new Error(`--label must be one of: ${labels.join(", ")}`);
+  }
+  await ensureSchemaVersion(settings.storage);
+
+  const runId = randomUUID();
+  const locked = await withRunLock(
+    createRunLockFromConfig(settings.storage, config),
+    buildLockHolderId(runId),
+    () =>
+      reclassify(settings, {
+        activityId,
+        sourceKey,
+        label,
+        changedBy,
+        reason,
+        sopFile: config.sopCacheFile,
+        auditTable: config.auditTable,
+      }),
+  );
+  const result =
+    locked.status === "acquired"
+      ? locked.value
+      : { command: "reclassify", run_id: runId, ...locked };
+
+  await writeJson(outputFile, result);
+  console.log(JSON.stringify(result, null, 2));
+}
+
+if (isMainModule(import.meta.url)) {
+  await main();
+}
@@ -0,0 +1,228 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  asNumber,
+  asString,
+  buildLockHolderId,
+  clean,
+  createRunLockFromConfig,
+  ensureSchemaVersion,
+  getRecord,
+  isMainModule,
+  loadConfig,
+  parseArgs,
+  withRunLock,
+  writeJson,
+  type PollMessage,
+} from "./crm-core/index.ts";
+import {
+  loadSopSnapshot,
+  processInbound,
+  resolveProcessInboundSettings,
+  type ProcessInboundSettings,
+  type ProcessResult,
+} from "./process-inbound.ts";
+
+type DeadLetterRow = {
+  id: string;
+  source_key: string;
+  stage?: string;
+  error?: string;
+  retry_count: number;
+  payload: PollMessage;
+};
+
+type RetryResult = {
+  command: "retry_dead_letters";
+  run_id: string;
+  started_at: string;
+  finished_at: string;
+  dry_run: boolean;
+  selected: number;
+  resolved: string[];
+  still_failing: Array<{ source_key: string; stage: string; error: string; retry_count: number }>;
+  exhausted: string[];
+  process?: ProcessResult;
+};
+
+const DEFAULT_OUTPUT_FILE = "/tmp/crm-retry-dead-letters.json";
+const DEFAULT_LIMIT = 50;
+
+function asDeadLetterRow(value: Record<string, unknown>): DeadLetterRow | undefined {
+  const payload = getRecord(value.payload);
+  if (
+    typeof value.id !== "string" ||
+    typeof value.source_key !== "string" ||
+    !payload ||
+    typeof payload.account_email !== "string" ||
+    typeof payload.message_id !== "string"
+  ) {
+    return undefined;
+  }
+
+  return {
+    id: value.id,
+    source_key: value.source_key,
+    stage: typeof value.stage === "string" ? value.stage : undefined,
+    error: typeof value.error === "string" ? value.error : undefined,
+    retry_count: typeof value.retry_count === "number" ? value.retry_count : 0,
+    payload: { ...payload, source_key: value.source_key } as PollMessage,
+  };
+}
+
+type ReplayOptions = {
+  runId: string;
+  dryRun: boolean;
+  sourceKey?: string;
+  limit: number;
+  maxRetries: number;
+  sopFile: string;
+  lockHolder?: string;
+  signal?: AbortSignal;
+};
+
+async function replayDeadLetters(
+  settings: ProcessInboundSettings,
+  options: ReplayOptions,
+): Promise<RetryResult> {
+  const { storage } = settings;
+  await ensureSchemaVersion(storage);
+  const deadLettersTable = settings.tables.deadLetters;
+
+  const query = new URLSearchParams();
+  query.set("select", "id,source_key,stage,error,retry_count,payload");
+  query.set("status", "eq.pending");
+  if (options.sourceKey) {
+    query.set("source_key", `eq.${options.sourceKey}`);
+  }
+  query.set("order", "created_at.asc");
+  query.set("limit", String(options.limit));
+
+  const letters = (await storage.select(deadLettersTable, query))
+    .map((row) => asDeadLetterRow(row))
+    .filter((row): row is DeadLetterRow => Boolean(row));
+
+  const startedAt = new Date().toISOString();
+  const result: RetryResult = {
+    command: "retry_dead_letters",
+    run_id: options.runId,
+    started_at: startedAt,
+    finished_at: "",
+    dry_run: options.dryRun,
+    selected: letters.length,
+    resolved: [],
+    still_failing: [],
+    exhausted: [],
+  };
+
+  if (letters.length > 0) {
+    const sop = await loadSopSnapshot(options.sopFile);
+    const processResult = await processInbound(
+      {
+        run_id: options.runId,
+        started_at: startedAt,
+        messages: letters.map((letter) => letter.payload),
+      },
+      sop,
+      settings,
+      { advancePollState: false, lockHolder: options.lockHolder, signal: options.signal },
+    );
+    result.process = processResult;
+
+    const failures = new Map(
+      processResult.dead_letters.map((entry) => [entry.source_key, entry] as const),
+    );
+
+    for (const letter of letters) {
+      const retryCount = letter.retry_count + 1;
+      const failure = failures.get(letter.source_key);
+      const now = new Date().toISOString();
+
+      if (!failure) {
+        await storage.patchRows(
+          deadLettersTable,
+          { id: letter.id },
+          {
+            status: "resolved",
+            retry_count: retryCount,
+            last_retried_at: now,
+            resolved_at: now,
+            updated_at: now,
+          },
+        );
+        result.resolved.push(letter.source_key);
+        continue;
+      }
+
+      const exhausted = retryCount >= options.maxRetries;
+      await storage.patchRows(
+        deadLettersTable,
+        { id: letter.id },
+        {
+          status: exhausted ? "exhausted" : "pending",
+          retry_count: retryCount,
+          last_retried_at: now,
+          updated_at: now,
+        },
+      );
+      result.still_failing.push({
+        source_key: letter.source_key,
+        stage: failure.stage,
+        error: failure.error,
+        retry_count: retryCount,
+      });
+      if (exhausted) {
+        result.exhausted.push(letter.source_key);
+      }
+    }
+  }
+
+  result.finished_at = new Date().toISOString();
+  return result;
+}
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command !== "retry_dead_letters") {
+    console.error(
+      "Usage: tsx retry-dead-letters.ts retry_dead_letters [--source-key <key>] [--limit <n>] [--max-retries <n>] [--sop-file <path>] [--dry-run] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const dryRun = flags["dry-run"] === true;
+  const outputFile = clean(asString(flags.output)) || DEFAULT_OUTPUT_FILE;
+  const config = loadConfig({ flags, command: "retry_dead_letters" });
+  const settings = resolveProcessInboundSettings(config, { dryRun });
+  const options: ReplayOptions = {
+    runId: randomUUID(),
+    dryRun,
+    sourceKey: clean(asString(flags["source-key"])),
+    limit: asNumber(flags.limit) || DEFAULT_LIMIT,
+    maxRetries: config.deadLetterMaxRetries,
+    sopFile: clean(asString(flags["sop-file"])) || config.sopCacheFile,
+  };
+
+  let result: RetryResult | Record<string, unknown>;
+  if (dryRun) {
+    result = await replayDeadLetters(settings, options);
+  } else {
+    const locked = await withRunLock(
+      createRunLockFromConfig(settings.storage, config),
+      buildLockHolderId(options.runId),
+      (lease, signal) =>
+        replayDeadLetters(settings, { ...options, lockHolder: lease.holder_id, signal }),
+    );
+    result =
+      locked.status === "acquired"
+        ? locked.value
+        : { command: "retry_dead_letters", run_id: options.runId, ...locked };
+  }
+
+  await writeJson(outputFile, result);
+  console.log(JSON.stringify(result, null, 2));
+}
+
+if (isMainModule(import.meta.url)) {
+  await main();
+}
@@ -0,0 +1,327 @@
+import { randomUUID } from "node:crypto";
+
+import { checkOutstanding, resolveCheckOutstandingOptions } from "./check-outstanding.ts";
+import {
+  asString,
+  buildLockHolderId,
+  clean,
+  createRunLockFromConfig,
+  ensureSchemaVersion,
+  formatRetryEvent,
+  isMainModule,
+  loadConfig,
+  onRetryAttempt,
+  parseArgs,
+  withRunLock,
+  writeJson,
+  type CrmConfig,
+  type PollOutput,
+  type RunLease,
+  type SopSnapshot,
+} from "./crm-core/index.ts";
+import { fetchSop, resolveFetchSopOptions } from "./fetch-sop.ts";
+import { pollInboxes, resolvePollInboxesOptions } from "./poll-inboxes.ts";
+import {
+  loadSopSnapshot,
+  processInbound,
+  resolveProcessInboundSettings,
+  type ProcessInboundSettings,
+  type ProcessResult,
+} from "./process-inbound.ts";
+
+type StageName = "fetch_sop" | "poll_inboxes" | "process_inbound" | "check_outstanding";
+
+type StageStatus = "ok" | "degraded" | "failed" | "skipped";
+
+type StageRecord = {
+  stage: StageName;
+  status: StageStatus;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  error?: string;
+  retries?: string[];
+  detail?: Record<string, unknown>;
+};
+
+type CycleResult = {
+  command: "run_cycle";
+  run_id: string;
+  started_at: string;
+  finished_at: string;
+  status: "ok" | "partial_failure" | "failed" | "skipped";
+  degraded: boolean;
+  lock_holder?: string;
+  reason?: "locked";
+  held_by?: RunLease;
+  stages: StageRecord[];
+  process?: ProcessResult;
+  warnings: string[];
+};
+
+type CycleOptions = {
+  runId: string;
+  startedAt: string;
+  lockHolder: string;
+  signal?: AbortSignal;
+  skipOutstanding: boolean;
+  postOutstanding: boolean;
+  config: CrmConfig;
+  settings: ProcessInboundSettings;
+};
+
+const DEFAULT_OUTPUT_FILE = "/tmp/crm-cycle.json";
+
+async function runStage<T>(
+  stages: StageRecord[],
+  stage: StageName,
+  fn: () => Promise<{ value: T; status?: StageStatus; detail?: Record<string, unknown> }>,
+): Promise<T | undefined> {
+  const startedMs = Date.now();
+  const startedAt = new Date(startedMs).toISOString();
+  const retries: string[] = [];
+  const stopRetryLog = onRetryAttempt((event) => {
+    retries.push(formatRetryEvent(event));
+  });
+
+  try {
+    const outcome = await fn();
+    stages.push({
+      stage,
+      status: outcome.status ?? "ok",
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedMs,
+      ...(retries.length > 0 ? { retries } : {}),
+      ...(outcome.detail ? { detail: outcome.detail } : {}),
+    });
+    return outcome.value;
+  } catch (error) {
+    stages.push({
+      stage,
+      status: "failed",
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedMs,
+      error: error instanceof Error ? error.message : `unknown ${stage} error`,
+      ...(retries.length > 0 ? { retries } : {}),
+    });
+    return undefined;
+  } finally {
+    stopRetryLog();
+  }
+}
+
+function skipStage(stages: StageRecord[], stage: StageName, reason: string): void {
+  const now = new Date().toISOString();
+  stages.push({
+    stage,
+    status: "skipped",
+    started_at: now,
+    finished_at: now,
+    duration_ms: 0,
+    error: reason,
+  });
+}
+
+async function runCycle(options: CycleOptions): Promise<CycleResult> {
+  const { runId, startedAt, config, settings, skipOutstanding, postOutstanding } = options;
+  const { storage } = settings;
+  const { jobRunsTable } = config;
+  const stages: StageRecord[] = [];
+  const warnings: string[] = [];
+
+  await storage.upsertRow(jobRunsTable, "id", {
+    id: runId,
+    started_at: startedAt,
+    status: "running",
+    lock_holder: options.lockHolder,
+    stages: [],
+    updated_at: new Date().toISOString(),
+  });
+
+  const sop = await runStage<SopSnapshot | undefined>(stages, "fetch_sop", async () => {
+    const snapshot = await fetchSop({ ...resolveFetchSopOptions(config), output: undefined });
+    return {
+      value: snapshot,
+      status: snapshot.degraded ? "degraded" : "ok",
+      detail: { source: snapshot.source, hash: snapshot.sop.hash },
+    };
+  });
+  const sopFallback = sop ?? (await loadSopSnapshot(config.sopCacheFile));
+  if (!sop) {
+    warnings.push(
+      sopFallback
+        ? "fetch_sop failed; continuing with the cached SOP snapshot."
+        : "fetch_sop failed and no cached SOP is available; continuing without SOP guidance.",
+    );
+  }
+
+  const poll = await runStage<PollOutput>(stages, "poll_inboxes", async () => {
+    const output = await pollInboxes({ ...resolvePollInboxesOptions(config), storage, runId });
+    return {
+      value: output,
+      status: output.partial_failure ? "degraded" : "ok",
+      detail: {
+        total_messages: output.total_messages,
+        failed_accounts: output.per_account
+          .filter((entry) => Boolean(entry.error))
+          .map((entry) => entry.account_email),
+        truncated_accounts: output.per_account
+          .filter((entry) => entry.truncated)
+          .map((entry) => entry.account_email),
+      },
+    };
+  });
+
+  let processResult: ProcessResult | undefined;
+  if (poll) {
+    processResult = await runStage<ProcessResult>(stages, "process_inbound", async () => {
+      const result = await processInbound(poll, sopFallback, settings, {
+        lockHolder: options.lockHolder,
+        signal: options.signal,
+      });
+      return {
+        value: result,
+        status: result.status === "ok" ? "ok" : "degraded",
+        detail: { totals: result.totals, classification_counts: result.classification_counts },
+      };
+    });
+  } else {
+    skipStage(stages, "process_inbound", "poll_inboxes failed");
+  }
+
+  if (skipOutstanding) {
+    skipStage(stages, "check_outstanding", "--skip-outstanding");
+  } else {
+    await runStage(stages, "check_outstanding", async () => {
+      const outstanding = await checkOutstanding({
+        ...resolveCheckOutstandingOptions(config),
+        storage,
+        postToSlack: postOutstanding,
+        runId,
+      });
+      return {
+        value: outstanding,
+        status: outstanding.post_error ? "degraded" : "ok",
+        detail: { totals: outstanding.totals, posted: outstanding.posted },
+      };
+    });
+  }
+
+  const processFailed = stages.some(
+    (entry) =>
+      (entry.stage === "poll_inboxes" || entry.stage === "process_inbound") &&
+      entry.status === "failed",
+  );
+  const anyIssue = stages.some((entry) => entry.status !== "ok" && entry.status !== "skipped");
+
+  const result: CycleResult = {
+    command: "run_cycle",
+    run_id: runId,
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    status: processFailed ? "failed" : anyIssue ? "partial_failure" : "ok",
+    degraded: !sop || sop.degraded,
+    lock_holder: options.lockHolder,
+    stages,
+    ...(processResult ? { process: processResult } : {}),
+    warnings: [
+      ...warnings,
+      ...stages
+        .filter((entry) => entry.stage !== "process_inbound")
+        .flatMap((entry) => entry.retries ?? []),
+      ...(processResult?.warnings ?? []),
+    ],
+  };
+
+  await storage.patchRows(
+    jobRunsTable,
+    { id: runId },
+    {
+      started_at: result.started_at,
+      finished_at: result.finished_at,
+      status: result.status,
+      degraded: result.degraded,
+      stages: result.stages,
+      warnings: result.warnings,
+      updated_at: new Date().toISOString(),
+    },
+  );
+
+  return result;
+}
+
+async function main() {
+  const { command, flags } = parseArgs(process.argv);
+  if (command !== "run_cycle") {
+    console.error(
+      "Usage: tsx run-cycle.ts run_cycle [--skip-outstanding] [--post-outstanding] [--output <path>]",
+    );
+    process.exit(1);
+  }
+
+  const outputFile = clean(asString(flags.output)) || DEFAULT_OUTPUT_FILE;
+  const config = loadConfig({ flags, command: "run_cycle" });
+  const settings = resolveProcessInboundSettings(config);
+  const { storage } = settings;
+  await ensureSchemaVersion(storage);
+
+  const runId = randomUUID();
+  const startedAt = new Date().toISOString();
+  const lockHolder = buildLockHolderId(runId);
+
+  const locked = await withRunLock(
+    createRunLockFromConfig(storage, config),
+    lockHolder,
+    (_, signal) =>
+      runCycle({
+        runId,
+        startedAt,
+        lockHolder,
+        signal,
+        skipOutstanding: flags["skip-outstanding"] === true,
+        postOutstanding: flags["post-outstanding"] === true,
+        config,
+        settings,
+      }),
+  );
+
+  let result: CycleResult;
+  if (locked.status === "acquired") {
+    result = locked.value;
+  } else {
+    result = {
+      command: "run_cycle",
+      run_id: runId,
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      status: "skipped",
+      degraded: false,
+      reason: locked.reason,
+      ...(locked.held_by ? { held_by: locked.held_by } : {}),
+      stages: [],
+      warnings: [locked.message],
+    };
+    await storage.upsertRow(config.jobRunsTable, "id", {
+      id: runId,
+      started_at: result.started_at,
+      finished_at: result.finished_at,
+      status: result.status,
+      lock_holder: locked.held_by?.holder_id,
+      warnings: result.warnings,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  await writeJson(outputFile, result);
+  console.log(JSON.stringify(result, null, 2));
+
+  if (result.status === "failed") {
+    process.exitCode = 1;
+  }
+}
+
+if (isMainModule(import.meta.url)) {
+  await main();
+}